@@ -55,11 +55,70 @@ function initSchema(db: Database.Database) {
       video_bitrate TEXT NOT NULL DEFAULT '4000k',
       video_fps INTEGER NOT NULL DEFAULT 30,
       audio_bitrate TEXT NOT NULL DEFAULT '192k',
+      hls_enabled INTEGER NOT NULL DEFAULT 0,   -- local HLS monitor of the live output (StationDetail player)
+
+      -- Program archive (see services/archive-recorder)
+      archive_enabled INTEGER NOT NULL DEFAULT 0,
+      archive_format TEXT NOT NULL DEFAULT 'ts',            -- ts | mp4
+      archive_segment_min INTEGER NOT NULL DEFAULT 60,      -- segment length, aligned to the clock
+      archive_retention_days INTEGER NOT NULL DEFAULT 30,   -- 0 = keep forever
+      archive_max_gb REAL NOT NULL DEFAULT 0,               -- 0 = no size limit
+
+      -- Playlist order (see services/playback-order)
+      playback_mode TEXT NOT NULL DEFAULT 'sequential',     -- sequential | shuffle | weighted
+      no_repeat_window INTEGER NOT NULL DEFAULT 0,          -- don't replay any of the last N items (random modes)
+      timezone TEXT NOT NULL DEFAULT 'UTC',                 -- IANA zone the daypart schedule runs in
+
+      -- Picture source (see services/visualizer)
+      video_mode TEXT NOT NULL DEFAULT 'playlist',          -- playlist | visualizer (drawn from the audio)
+      visualizer_style TEXT NOT NULL DEFAULT 'waveform',    -- waveform | spectrum | vectorscope
+      visualizer_color TEXT NOT NULL DEFAULT '#00d4ff',
+      visualizer_bg_color TEXT NOT NULL DEFAULT '#000000',
+      visualizer_bg_image TEXT NOT NULL DEFAULT '',         -- file in uploads/<station id>/ ('' = solid colour)
+      visualizer_placement TEXT NOT NULL DEFAULT 'center',  -- full | center | top | bottom
+      visualizer_size INTEGER NOT NULL DEFAULT 50,          -- % of the frame height (not used with full)
+
+      -- Image items (slideshow)
+      slide_duration_sec INTEGER NOT NULL DEFAULT 10,       -- default on-air time of a new image item
+      slide_crossfade_sec REAL NOT NULL DEFAULT 1,          -- fade from the previous image (0 = hard cut)
+
+      -- Fallback slate, fed when nothing in the playlist can play (see services/slate)
+      slate_enabled INTEGER NOT NULL DEFAULT 0,
+      slate_image TEXT NOT NULL DEFAULT '',                 -- file in uploads/<station id>/ ('' = generated card)
+      slate_text TEXT NOT NULL DEFAULT '',                  -- card message under the station name ('' = "We'll be right back")
+
+      -- Dead-air detection on the audio the encoder receives (see services/silence-detect)
+      silence_detect_enabled INTEGER NOT NULL DEFAULT 0,
+      silence_threshold_db REAL NOT NULL DEFAULT -50,       -- quieter than this counts as silence
+      silence_duration_sec INTEGER NOT NULL DEFAULT 30,     -- for at least this long
+      silence_failover INTEGER NOT NULL DEFAULT 0,          -- switch to the next audio source on dead air
+
+      -- Loudness normalization of the program audio (see services/loudness)
+      loudnorm_enabled INTEGER NOT NULL DEFAULT 0,
+      loudnorm_target_lufs REAL NOT NULL DEFAULT -14,       -- integrated loudness target (YouTube plays back at -14)
+      loudnorm_true_peak REAL NOT NULL DEFAULT -1,          -- true-peak ceiling, dBTP
+
+      -- Local fallback audio (fallback_audio rows) when every audio source is down
+      fallback_audio_enabled INTEGER NOT NULL DEFAULT 0,
+      fallback_np_text TEXT NOT NULL DEFAULT '',            -- now-playing overlay text meanwhile ('' = station name)
+
+      -- Admission control (services/capacity): lower = more important; higher numbers are stopped first under CPU pressure
+      run_priority INTEGER NOT NULL DEFAULT 0,
+      cpu_calibration REAL,                                 -- measured / modelled CPU of the last run (NULL = model only)
+
+      -- What the operator asked for ('running' | 'stopped'); status is what is actually happening
+      desired_state TEXT NOT NULL DEFAULT 'stopped',
+      run_schedule_enabled INTEGER NOT NULL DEFAULT 0,   -- start/stop from run_schedule_rules (services/station-scheduler)
 
       -- Auto-restart
       auto_restart INTEGER NOT NULL DEFAULT 1,
       restart_delay_sec INTEGER NOT NULL DEFAULT 5,
       max_restart_attempts INTEGER NOT NULL DEFAULT 10,
+      stall_timeout_sec INTEGER NOT NULL DEFAULT 30,  -- no encoder output for this long = frozen (0 = watchdog off)
+      restart_stable_sec INTEGER NOT NULL DEFAULT 300,  -- uptime that resets the restart counter
+      breaker_failures INTEGER NOT NULL DEFAULT 5,      -- failures within breaker_window_sec that open the circuit breaker
+      breaker_window_sec INTEGER NOT NULL DEFAULT 600,
+      breaker_retry_sec INTEGER NOT NULL DEFAULT 900,   -- half-open retry interval while the breaker is open
 
       -- Telegram notifications
       telegram_enabled INTEGER NOT NULL DEFAULT 0,
@@ -80,14 +139,43 @@ function initSchema(db: Database.Database) {
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
+    -- Local emergency audio, looped when no remote audio source is usable (files in uploads/<station id>/fallback-audio/)
+    CREATE TABLE IF NOT EXISTS fallback_audio (
+      id TEXT PRIMARY KEY,
+      station_id TEXT NOT NULL REFERENCES stations(id) ON DELETE CASCADE,
+      filename TEXT NOT NULL,              -- normalized copy: AAC (ADTS), 44.1 kHz stereo
+      original_name TEXT NOT NULL,
+      file_size INTEGER NOT NULL DEFAULT 0,
+      duration_sec REAL,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- Named playlists; items without one belong to the station's default playlist
+    CREATE TABLE IF NOT EXISTS playlists (
+      id TEXT PRIMARY KEY,
+      station_id TEXT NOT NULL REFERENCES stations(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
     CREATE TABLE IF NOT EXISTS playlist_items (
       id TEXT PRIMARY KEY,
       station_id TEXT NOT NULL REFERENCES stations(id) ON DELETE CASCADE,
       filename TEXT NOT NULL,
       original_name TEXT NOT NULL,
       file_size INTEGER NOT NULL DEFAULT 0,
+      media_type TEXT NOT NULL DEFAULT 'video',    -- video | image (image: duration_sec = time on air)
+      thumbnail_filename TEXT,
       duration_sec REAL,
       sort_order INTEGER NOT NULL DEFAULT 0,
+      weight REAL NOT NULL DEFAULT 1,              -- relative chance in weighted playback mode
+      playlist_id TEXT REFERENCES playlists(id) ON DELETE SET NULL,   -- NULL = default playlist
+      rendition_status TEXT NOT NULL DEFAULT 'pending',   -- pending | processing | ready | failed
+      rendition_progress REAL NOT NULL DEFAULT 0,        -- 0..1
+      rendition_filename TEXT,                           -- station-conformant copy in the uploads dir
+      rendition_profile TEXT,                            -- station settings it was encoded for (renditionProfile())
+      rendition_error TEXT,
       is_enabled INTEGER NOT NULL DEFAULT 1,
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
@@ -97,8 +185,20 @@ function initSchema(db: Database.Database) {
       station_id TEXT NOT NULL REFERENCES stations(id) ON DELETE CASCADE,
       name TEXT NOT NULL,
       platform TEXT NOT NULL DEFAULT 'custom',
-      rtmp_url TEXT NOT NULL,
-      stream_key TEXT NOT NULL DEFAULT '',
+      protocol TEXT NOT NULL DEFAULT 'rtmp',           -- rtmp | rtmps | srt
+      rtmp_url TEXT NOT NULL,                          -- base URL for every protocol
+      stream_key TEXT NOT NULL DEFAULT '',             -- SRT: sent as streamid
+      srt_latency_ms INTEGER NOT NULL DEFAULT 120,
+      srt_passphrase TEXT NOT NULL DEFAULT '',
+      -- Encoding profile overrides (NULL = station setting), see services/encoding-profile
+      profile_width INTEGER,
+      profile_height INTEGER,
+      profile_fps INTEGER,
+      profile_bitrate TEXT,
+      profile_keyint_sec INTEGER,
+      profile_preset TEXT,
+      profile_audio_bitrate TEXT,
+      profile_fit TEXT,                                -- pad | crop (only used for another aspect ratio)
       is_enabled INTEGER NOT NULL DEFAULT 1,
       status TEXT NOT NULL DEFAULT 'disconnected',
       error_message TEXT,
@@ -114,10 +214,65 @@ function initSchema(db: Database.Database) {
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
+    -- Daypart schedule (see services/daypart-schedule). playlist_id NULL = default playlist
+    CREATE TABLE IF NOT EXISTS schedule_slots (
+      id TEXT PRIMARY KEY,
+      station_id TEXT NOT NULL REFERENCES stations(id) ON DELETE CASCADE,
+      playlist_id TEXT REFERENCES playlists(id) ON DELETE CASCADE,
+      days TEXT NOT NULL,                          -- weekdays the window starts on, '1,2,3,4,5' (0 = Sunday)
+      start_time TEXT NOT NULL,                    -- HH:MM, station timezone
+      end_time TEXT NOT NULL,                      -- HH:MM; at or before start = past midnight
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS schedule_overrides (
+      id TEXT PRIMARY KEY,
+      station_id TEXT NOT NULL REFERENCES stations(id) ON DELETE CASCADE,
+      playlist_id TEXT REFERENCES playlists(id) ON DELETE CASCADE,
+      date TEXT NOT NULL,                          -- YYYY-MM-DD, whole day in the station timezone
+      label TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- Automatic start/stop: weekly on-air windows or cron rules, in the station timezone
+    CREATE TABLE IF NOT EXISTS run_schedule_rules (
+      id TEXT PRIMARY KEY,
+      station_id TEXT NOT NULL REFERENCES stations(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL DEFAULT 'window',         -- window | cron
+      days TEXT NOT NULL DEFAULT '',               -- window: '1,2,3,4,5' (0 = Sunday)
+      start_time TEXT NOT NULL DEFAULT '',         -- window: HH:MM
+      end_time TEXT NOT NULL DEFAULT '',           -- window: HH:MM; before start = next day
+      cron TEXT NOT NULL DEFAULT '',               -- cron: 5-field expression
+      action TEXT NOT NULL DEFAULT 'start',        -- cron: start | stop
+      label TEXT NOT NULL DEFAULT '',
+      is_enabled INTEGER NOT NULL DEFAULT 1,
+      last_run_at TEXT,
+      last_result TEXT,                            -- ok | failed: <reason>
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- What the playout engine actually aired, in order (item_id is not a foreign key: history outlives items)
+    CREATE TABLE IF NOT EXISTS playout_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      station_id TEXT NOT NULL REFERENCES stations(id) ON DELETE CASCADE,
+      item_id TEXT NOT NULL,
+      item_name TEXT NOT NULL,
+      playback_mode TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      ended_at TEXT,
+      outcome TEXT                                 -- played | skipped | failed | interrupted (NULL while on air)
+    );
+
     CREATE INDEX IF NOT EXISTS idx_audio_sources_station ON audio_sources(station_id, priority);
+    CREATE INDEX IF NOT EXISTS idx_fallback_audio_station ON fallback_audio(station_id, sort_order);
     CREATE INDEX IF NOT EXISTS idx_playlist_items_station ON playlist_items(station_id, sort_order);
     CREATE INDEX IF NOT EXISTS idx_rtmp_destinations_station ON rtmp_destinations(station_id);
     CREATE INDEX IF NOT EXISTS idx_station_logs_station ON station_logs(station_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_playout_history_station ON playout_history(station_id, id);
+    CREATE INDEX IF NOT EXISTS idx_playlists_station ON playlists(station_id);
+    CREATE INDEX IF NOT EXISTS idx_schedule_slots_station ON schedule_slots(station_id);
+    CREATE INDEX IF NOT EXISTS idx_schedule_overrides_station ON schedule_overrides(station_id, date);
+    CREATE INDEX IF NOT EXISTS idx_run_schedule_rules_station ON run_schedule_rules(station_id);
 
     CREATE TABLE IF NOT EXISTS users (
       id TEXT PRIMARY KEY,
@@ -196,4 +351,175 @@ function initSchema(db: Database.Database) {
     if (!colNames.includes('telegram_chat_id')) {
       db.exec(`ALTER TABLE stations ADD COLUMN telegram_chat_id TEXT NOT NULL DEFAULT ''`);
     }
+    if (!colNames.includes('desired_state')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN desired_state TEXT NOT NULL DEFAULT 'stopped'`);
+      // Stations that were on air before the upgrade should come back
+      db.exec(`UPDATE stations SET desired_state = 'running' WHERE status != 'stopped'`);
+    }
+    if (!colNames.includes('stall_timeout_sec')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN stall_timeout_sec INTEGER NOT NULL DEFAULT 30`);
+    }
+    if (!colNames.includes('restart_stable_sec')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN restart_stable_sec INTEGER NOT NULL DEFAULT 300`);
+    }
+    if (!colNames.includes('breaker_failures')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN breaker_failures INTEGER NOT NULL DEFAULT 5`);
+    }
+    if (!colNames.includes('breaker_window_sec')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN breaker_window_sec INTEGER NOT NULL DEFAULT 600`);
+    }
+    if (!colNames.includes('breaker_retry_sec')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN breaker_retry_sec INTEGER NOT NULL DEFAULT 900`);
+    }
+    if (!colNames.includes('hls_enabled')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN hls_enabled INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('archive_enabled')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN archive_enabled INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('archive_format')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN archive_format TEXT NOT NULL DEFAULT 'ts'`);
+    }
+    if (!colNames.includes('archive_segment_min')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN archive_segment_min INTEGER NOT NULL DEFAULT 60`);
+    }
+    if (!colNames.includes('archive_retention_days')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN archive_retention_days INTEGER NOT NULL DEFAULT 30`);
+    }
+    if (!colNames.includes('archive_max_gb')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN archive_max_gb REAL NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('playback_mode')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN playback_mode TEXT NOT NULL DEFAULT 'sequential'`);
+    }
+    if (!colNames.includes('no_repeat_window')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN no_repeat_window INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('timezone')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC'`);
+    }
+    if (!colNames.includes('run_schedule_enabled')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN run_schedule_enabled INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('video_mode')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN video_mode TEXT NOT NULL DEFAULT 'playlist'`);
+    }
+    if (!colNames.includes('visualizer_style')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN visualizer_style TEXT NOT NULL DEFAULT 'waveform'`);
+    }
+    if (!colNames.includes('visualizer_color')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN visualizer_color TEXT NOT NULL DEFAULT '#00d4ff'`);
+    }
+    if (!colNames.includes('visualizer_bg_color')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN visualizer_bg_color TEXT NOT NULL DEFAULT '#000000'`);
+    }
+    if (!colNames.includes('visualizer_bg_image')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN visualizer_bg_image TEXT NOT NULL DEFAULT ''`);
+    }
+    if (!colNames.includes('visualizer_placement')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN visualizer_placement TEXT NOT NULL DEFAULT 'center'`);
+    }
+    if (!colNames.includes('visualizer_size')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN visualizer_size INTEGER NOT NULL DEFAULT 50`);
+    }
+    if (!colNames.includes('slide_duration_sec')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN slide_duration_sec INTEGER NOT NULL DEFAULT 10`);
+    }
+    if (!colNames.includes('slide_crossfade_sec')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN slide_crossfade_sec REAL NOT NULL DEFAULT 1`);
+    }
+    if (!colNames.includes('slate_enabled')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN slate_enabled INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('slate_image')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN slate_image TEXT NOT NULL DEFAULT ''`);
+    }
+    if (!colNames.includes('slate_text')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN slate_text TEXT NOT NULL DEFAULT ''`);
+    }
+    if (!colNames.includes('silence_detect_enabled')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN silence_detect_enabled INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('silence_threshold_db')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN silence_threshold_db REAL NOT NULL DEFAULT -50`);
+    }
+    if (!colNames.includes('silence_duration_sec')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN silence_duration_sec INTEGER NOT NULL DEFAULT 30`);
+    }
+    if (!colNames.includes('silence_failover')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN silence_failover INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('loudnorm_enabled')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN loudnorm_enabled INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('loudnorm_target_lufs')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN loudnorm_target_lufs REAL NOT NULL DEFAULT -14`);
+    }
+    if (!colNames.includes('loudnorm_true_peak')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN loudnorm_true_peak REAL NOT NULL DEFAULT -1`);
+    }
+    if (!colNames.includes('fallback_audio_enabled')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN fallback_audio_enabled INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('fallback_np_text')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN fallback_np_text TEXT NOT NULL DEFAULT ''`);
+    }
+    if (!colNames.includes('run_priority')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN run_priority INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!colNames.includes('cpu_calibration')) {
+      db.exec(`ALTER TABLE stations ADD COLUMN cpu_calibration REAL`);
+    }
+
+    // Mezzanine renditions (pre-normalized copy of each upload, see services/rendition-transcoder)
+    const itemCols = (db.prepare("PRAGMA table_info(playlist_items)").all() as any[]).map((c: any) => c.name);
+    if (!itemCols.includes('rendition_status')) {
+      db.exec(`ALTER TABLE playlist_items ADD COLUMN rendition_status TEXT NOT NULL DEFAULT 'pending'`);
+    }
+    if (!itemCols.includes('rendition_progress')) {
+      db.exec(`ALTER TABLE playlist_items ADD COLUMN rendition_progress REAL NOT NULL DEFAULT 0`);
+    }
+    if (!itemCols.includes('rendition_filename')) {
+      db.exec(`ALTER TABLE playlist_items ADD COLUMN rendition_filename TEXT`);
+    }
+    if (!itemCols.includes('rendition_profile')) {
+      db.exec(`ALTER TABLE playlist_items ADD COLUMN rendition_profile TEXT`);
+    }
+    if (!itemCols.includes('rendition_error')) {
+      db.exec(`ALTER TABLE playlist_items ADD COLUMN rendition_error TEXT`);
+    }
+    if (!itemCols.includes('weight')) {
+      db.exec(`ALTER TABLE playlist_items ADD COLUMN weight REAL NOT NULL DEFAULT 1`);
+    }
+    if (!itemCols.includes('playlist_id')) {
+      db.exec(`ALTER TABLE playlist_items ADD COLUMN playlist_id TEXT REFERENCES playlists(id) ON DELETE SET NULL`);
+    }
+    if (!itemCols.includes('media_type')) {
+      db.exec(`ALTER TABLE playlist_items ADD COLUMN media_type TEXT NOT NULL DEFAULT 'video'`);
+    }
+    if (!itemCols.includes('thumbnail_filename')) {
+      db.exec(`ALTER TABLE playlist_items ADD COLUMN thumbnail_filename TEXT`);
+    }
+
+    // Output protocols (see services/output-protocol)
+    const destCols = (db.prepare("PRAGMA table_info(rtmp_destinations)").all() as any[]).map((c: any) => c.name);
+    if (!destCols.includes('protocol')) {
+      db.exec(`ALTER TABLE rtmp_destinations ADD COLUMN protocol TEXT NOT NULL DEFAULT 'rtmp'`);
+      // Existing rtmps:// URLs were already pushed over TLS by FFmpeg
+      db.exec(`UPDATE rtmp_destinations SET protocol = 'rtmps' WHERE lower(rtmp_url) LIKE 'rtmps://%'`);
+    }
+    if (!destCols.includes('srt_latency_ms')) {
+      db.exec(`ALTER TABLE rtmp_destinations ADD COLUMN srt_latency_ms INTEGER NOT NULL DEFAULT 120`);
+    }
+    if (!destCols.includes('srt_passphrase')) {
+      db.exec(`ALTER TABLE rtmp_destinations ADD COLUMN srt_passphrase TEXT NOT NULL DEFAULT ''`);
+    }
+    const profileCols: [string, string][] = [
+      ['profile_width', 'INTEGER'], ['profile_height', 'INTEGER'], ['profile_fps', 'INTEGER'],
+      ['profile_bitrate', 'TEXT'], ['profile_keyint_sec', 'INTEGER'], ['profile_preset', 'TEXT'],
+      ['profile_audio_bitrate', 'TEXT'], ['profile_fit', 'TEXT'],
+    ];
+    for (const [name, type] of profileCols) {
+      if (!destCols.includes(name)) db.exec(`ALTER TABLE rtmp_destinations ADD COLUMN ${name} ${type}`);
+    }
   }
\ No newline at end of file
@@ -10,11 +10,19 @@ import { registerStationRoutes } from './routes/stations';
 import { authRoutes } from './routes/auth';
 import { registerSSLRoutes } from './routes/ssl';
 import { registerStorageRoutes } from './routes/storage';
+import { registerCapacityRoutes } from './routes/capacity';
 import { startAutoRenewal } from './services/ssl';
 import jwtAuthPlugin from './plugins/jwt-auth';
-import { FFmpegSupervisor } from './services/ffmpeg-supervisor';
+import { DaypartPlaylist, FFmpegSupervisor, SilenceInfo } from './services/ffmpeg-supervisor';
+import { initProcessRegistry, killOrphans } from './services/process-registry';
+import { EncoderMetrics } from './services/ffmpeg-progress';
+import { LoudnessReading } from './services/loudness';
+import { OnAirItem } from './services/playout-engine';
+import { RenditionProgress, RenditionTranscoder } from './services/rendition-transcoder';
+import { RestartPolicySnapshot } from './services/restart-policy';
+import { ScheduledActionResult, StationScheduler } from './services/station-scheduler';
 import { getSystemHealth } from './utils/system-health';
-import { sendTelegramError } from './services/telegram';
+import { sendTelegramAlert, sendTelegramError } from './services/telegram';
 
 const PORT = parseInt(process.env.PORT || '3001');
 const HOST = process.env.HOST || '0.0.0.0';
@@ -67,6 +75,11 @@ async function main() {
   // Initialize DB
   getDb();
 
+  // Kill FFmpeg children a previous run left behind (crash/SIGKILL) before starting anything new
+  initProcessRegistry(DATA_DIR, path.join(__dirname, '..', 'uploads'));
+  const orphans = killOrphans();
+  if (orphans > 0) console.log(`[REAPER] Cleaned up ${orphans} orphaned process(es) from a previous run`);
+
   // Create FFmpeg supervisor
   const supervisor = new FFmpegSupervisor(DATA_DIR);
 
@@ -74,8 +87,14 @@ async function main() {
   const telegramLastSent: Map<string, number> = new Map();
   const TELEGRAM_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes
 
+  // Ingest: one mezzanine rendition per upload, transcoded in the background
+  const transcoder = new RenditionTranscoder(path.join(__dirname, '..', 'uploads'));
+
+  // Automatic start/stop from each station's run schedule
+  const scheduler = new StationScheduler(supervisor);
+
   // Store logs in DB (skip debug — they flood the table and wipe important entries)
-  supervisor.on('log', (stationId: string, level: string, source: string, message: string) => {
+  const handleStationLog = (stationId: string, level: string, source: string, message: string) => {
     // Always log important events to stdout (persists in docker logs)
     if (level === 'error' || level === 'warn') {
       console.error(`[${level.toUpperCase()}] [${source}] station=${stationId}: ${message}`);
@@ -111,7 +130,9 @@ async function main() {
 
     // Broadcast to SSE clients (all levels including debug for real-time view)
     broadcastSSE({ type: 'log', stationId, level, source, message, timestamp: new Date().toISOString() });
-  });
+  };
+  supervisor.on('log', handleStationLog);
+  transcoder.on('log', handleStationLog);
 
   supervisor.on('status', (stationId: string, status: string) => {
     broadcastSSE({ type: 'status', stationId, status, timestamp: new Date().toISOString() });
@@ -121,11 +142,88 @@ async function main() {
     broadcastSSE({ type: 'nowplaying', stationId, track, timestamp: new Date().toISOString() });
   });
 
+  supervisor.on('source', (stationId: string, info: { sourceId: string; sourceName: string; previousSourceId: string | null; reason: string }) => {
+    broadcastSSE({ type: 'source', stationId, ...info, timestamp: new Date().toISOString() });
+  });
+
+  supervisor.on('metrics', (stationId: string, metrics: EncoderMetrics) => {
+    broadcastSSE({ type: 'metrics', stationId, metrics, timestamp: new Date().toISOString() });
+  });
+
+  supervisor.on('loudness', (stationId: string, loudness: LoudnessReading) => {
+    broadcastSSE({ type: 'loudness', stationId, loudness, timestamp: new Date().toISOString() });
+  });
+
+  supervisor.on('playout', (stationId: string, item: OnAirItem) => {
+    broadcastSSE({ type: 'playout', stationId, ...item, timestamp: new Date().toISOString() });
+  });
+
+  supervisor.on('schedule', (stationId: string, daypart: DaypartPlaylist) => {
+    broadcastSSE({ type: 'schedule', stationId, ...daypart, timestamp: new Date().toISOString() });
+  });
+
+  transcoder.on('progress', (stationId: string, progress: RenditionProgress) => {
+    broadcastSSE({ type: 'rendition', stationId, ...progress, timestamp: new Date().toISOString() });
+  });
+
+  // Telegram alert for a station event, when the station has notifications set up
+  function notifyStation(stationId: string, emoji: string, title: string, message: string) {
+    const station = getDb().prepare('SELECT name, telegram_enabled, telegram_bot_token, telegram_chat_id FROM stations WHERE id = ?').get(stationId) as any;
+    if (station?.telegram_enabled && station.telegram_bot_token && station.telegram_chat_id) {
+      sendTelegramAlert(station.telegram_bot_token, station.telegram_chat_id, station.name, emoji, title, message)
+        .catch(() => {});
+    }
+  }
+
+  // Stalls get their own alert — they are not crashes and would otherwise go unnoticed
+  supervisor.on('stall', (stationId: string, info: { stalledForSec: number; outputBytes: number; reason: string }) => {
+    broadcastSSE({ type: 'stall', stationId, ...info, timestamp: new Date().toISOString() });
+    notifyStation(stationId, '🧊', 'Encoder stalled — restarted', info.reason);
+  });
+
+  supervisor.on('breaker', (stationId: string, policy: RestartPolicySnapshot, message: string) => {
+    broadcastSSE({ type: 'breaker', stationId, restartPolicy: policy, message, timestamp: new Date().toISOString() });
+    if (policy.breaker === 'half-open') return;  // only alert on open/closed transitions
+    const [emoji, title] = policy.breaker === 'open' ? ['⛔', 'Circuit breaker open'] : ['✅', 'Circuit breaker closed'];
+    notifyStation(stationId, emoji, title, message);
+  });
+
+  // Dead air keeps the stream up, so nothing else would report it
+  supervisor.on('silence', (stationId: string, info: SilenceInfo) => {
+    broadcastSSE({ type: 'silence', stationId, ...info, timestamp: new Date().toISOString() });
+    const [emoji, title] = info.state === 'silent' ? ['🔇', 'Dead air detected'] : ['🔊', 'Audio is back'];
+    notifyStation(stationId, emoji, title, info.message);
+  });
+
+  // Refused starts and shed stations are alerted — a station stays off air until someone acts
+  supervisor.on('admission', (stationId: string, info: { action: 'warned' | 'refused' | 'shed'; message: string }) => {
+    broadcastSSE({ type: 'admission', stationId, ...info, timestamp: new Date().toISOString() });
+    if (info.action === 'warned') return;
+    const title = info.action === 'refused' ? 'Start refused — not enough CPU' : 'Stopped to free CPU';
+    notifyStation(stationId, '🏋️', title, info.message);
+  });
+
+  supervisor.on('destination', (stationId: string, info: { destinationId: string; status: string; error: string | null }) => {
+    broadcastSSE({ type: 'destination', stationId, ...info, timestamp: new Date().toISOString() });
+  });
+
+  scheduler.on('log', (stationId: string, level: string, message: string) => handleStationLog(stationId, level, 'scheduler', message));
+
+  // Every scheduled start/stop is notified, not only failures — nobody pressed a button
+  scheduler.on('action', (stationId: string, result: ScheduledActionResult) => {
+    broadcastSSE({ type: 'scheduled', stationId, ...result, timestamp: new Date().toISOString() });
+    const [emoji, title] = result.ok
+      ? ['⏰', result.action === 'start' ? 'Scheduled start' : 'Scheduled stop']
+      : ['⚠️', result.action === 'start' ? 'Scheduled start failed' : 'Scheduled stop failed'];
+    notifyStation(stationId, emoji, title, `${result.label}: ${result.message}`);
+  });
+
   // Register routes
   await app.register(authRoutes);
-  registerStationRoutes(app, supervisor);
+  registerStationRoutes(app, supervisor, transcoder);
   registerSSLRoutes(app);
-  registerStorageRoutes(app);
+  registerStorageRoutes(app, path.join(DATA_DIR, 'archive'));
+  registerCapacityRoutes(app, supervisor);
 
   // ─── SSE endpoint for real-time updates ──────────────────
   const sseClients: Set<any> = new Set();
@@ -172,6 +270,27 @@ async function main() {
     return reply.code(404).send({ error: 'Not found' });
   });
 
+  // ─── Graceful shutdown ───────────────────────────────────
+  // Stop every pipeline so no FFmpeg outlives the backend; desired_state is kept,
+  // so the reconciler brings the same stations back on the next start.
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`\n[SHUTDOWN] ${signal} received — stopping stations...`);
+    transcoder.shutdown();
+    scheduler.stop();
+    await supervisor.shutdown();
+    for (const client of sseClients) {
+      try { client.raw.end(); } catch {}
+    }
+    await app.close().catch(() => {});
+    console.log('[SHUTDOWN] Done');
+    process.exit(0);
+  };
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
   // ─── Start server ────────────────────────────────────────
   try {
     await app.listen({ port: PORT, host: HOST });
@@ -179,6 +298,13 @@ async function main() {
 
     // Start SSL auto-renewal timer
     startAutoRenewal();
+
+    // Pick up renditions that are missing, stale or were interrupted by the last shutdown
+    transcoder.resume();
+
+    // Bring back stations that should be running (and keep checking)
+    supervisor.startReconciler();
+    scheduler.start();
   } catch (err) {
     console.error(err);
     process.exit(1);
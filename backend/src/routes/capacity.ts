@@ -0,0 +1,24 @@
+import { FastifyInstance } from 'fastify';
+import { FFmpegSupervisor } from '../services/ffmpeg-supervisor';
+import { CapacitySettings, saveCapacitySettings, validateCapacity } from '../services/capacity';
+
+export function registerCapacityRoutes(app: FastifyInstance, supervisor: FFmpegSupervisor) {
+
+  // GET /api/admin/capacity — admission settings, host budget and the cost of every station
+  app.get('/api/admin/capacity', async () => {
+    return supervisor.getCapacityReport();
+  });
+
+  // PUT /api/admin/capacity — { mode?, budgetPercent?, shed? }
+  app.put<{ Body: Partial<CapacitySettings> }>('/api/admin/capacity', async (req, reply) => {
+    const body = req.body || {};
+    const error = validateCapacity(body);
+    if (error) return reply.code(400).send({ error });
+    saveCapacitySettings({
+      mode: body.mode,
+      budgetPercent: body.budgetPercent !== undefined ? Number(body.budgetPercent) : undefined,
+      shed: body.shed !== undefined ? !!body.shed : undefined,
+    });
+    return supervisor.getCapacityReport();
+  });
+}
@@ -1,12 +1,23 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { getDb } from '../db/schema';
 import { v4 as uuid } from 'uuid';
 import fs from 'fs';
 import path from 'path';
 import { execFile } from 'child_process';
 import { FFmpegSupervisor } from '../services/ffmpeg-supervisor';
+import { RenditionTranscoder } from '../services/rendition-transcoder';
 import { checkAudioSource, testRtmpDestination, runAudioHealthChecks } from '../services/health-check';
 import { NowPlayingService } from '../services/now-playing';
+import { normalizeTarget, validateTarget } from '../services/output-protocol';
+import { PROFILE_COLUMNS, validateProfileOverrides } from '../services/encoding-profile';
+import { ARCHIVE_FILE_RE, listArchive } from '../services/archive-recorder';
+import { PLAYBACK_MODES } from '../services/playback-order';
+import { isValidTimezone, parseDays, validateOverrideDate, validateSlot, zonedClock } from '../services/daypart-schedule';
+import { RunScheduleRule, upcomingActions, validateRule } from '../services/station-scheduler';
+import { VISUALIZER_IMAGE_EXTS, validateVisualizer } from '../services/visualizer';
+import { SLATE_IMAGE_EXTS, SLATE_TEXT_MAX } from '../services/slate';
+import { validateSilence } from '../services/silence-detect';
+import { validateLoudness } from '../services/loudness';
 import { sendTelegramTest } from '../services/telegram';
 
 /**
@@ -37,9 +48,74 @@ function probeDuration(filePath: string): Promise<number | null> {
   });
 }
 
-export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSupervisor) {
+const IMAGE_EXTS = ['.png', '.jpg', '.jpeg', '.webp', '.bmp'];
+
+/** Playlist item media type, from the upload's extension. */
+function mediaTypeOf(filename: string): 'video' | 'image' {
+  return IMAGE_EXTS.includes(path.extname(filename).toLowerCase()) ? 'image' : 'video';
+}
+
+/** True when ffprobe finds a picture in the file (rejects renamed or corrupt uploads). */
+function probeImage(filePath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    execFile('ffprobe', [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'stream=width,height',
+      '-print_format', 'json',
+      filePath,
+    ], { timeout: 15000 }, (err, stdout) => {
+      if (err) return resolve(false);
+      try {
+        const stream = JSON.parse(stdout)?.streams?.[0];
+        resolve(stream?.width > 0 && stream?.height > 0);
+      } catch {
+        resolve(false);
+      }
+    });
+  });
+}
+
+/** Small JPEG of an image item for the playlist view. */
+function createThumbnail(filePath: string, thumbPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    execFile('ffmpeg', [
+      '-v', 'error', '-y',
+      '-i', filePath,
+      '-vf', "scale='min(320,iw)':-2",
+      '-frames:v', '1', '-q:v', '4',
+      thumbPath,
+    ], { timeout: 30000 }, (err) => resolve(!err && fs.existsSync(thumbPath)));
+  });
+}
+
+/** Re-encodes an uploaded fallback audio file to the one format the fallback loop is played from. */
+function normalizeFallbackAudio(inputPath: string, outputPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    execFile('ffmpeg', [
+      '-v', 'error', '-y',
+      '-i', inputPath,
+      '-vn', '-ac', '2', '-ar', '44100',
+      '-c:a', 'aac', '-b:a', '192k',
+      '-f', 'adts', outputPath,
+    ], { timeout: 10 * 60 * 1000 }, (err) => resolve(!err && fs.existsSync(outputPath)));
+  });
+}
+
+export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSupervisor, transcoder: RenditionTranscoder) {
   const db = getDb();
 
+  // playlist_id from a request: ''/null = default playlist, otherwise one of the station's playlists (undefined = not found)
+  const stationPlaylistId = (stationId: string, value: any): string | null | undefined => {
+    if (value === undefined || value === null || value === '') return null;
+    const row = db.prepare('SELECT id FROM playlists WHERE id = ? AND station_id = ?').get(value, stationId) as any;
+    return row ? row.id : undefined;
+  };
+  const listPlaylists = (stationId: string) => db.prepare(
+    `SELECT p.*, (SELECT COUNT(*) FROM playlist_items i WHERE i.playlist_id = p.id) AS item_count
+     FROM playlists p WHERE p.station_id = ? ORDER BY p.name COLLATE NOCASE ASC`
+  ).all(stationId);
+
   // ─── STATIONS CRUD ───────────────────────────────────────
 
   // List all stations
@@ -48,19 +124,23 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     const statuses = supervisor.getAllStatuses();
     return (stations as any[]).map(s => ({
       ...s,
-      runtime: statuses[s.id] || { status: s.status, pid: null, restartCount: 0, uptime: null },
+      runtime: statuses[s.id] || { ...supervisor.getRuntime(s.id), status: s.status },
     }));
   });
 
-  // Get single station (with sources, playlist, destinations)
+  // Get single station (with sources, playlist, named playlists, destinations)
   app.get<{ Params: { id: string } }>('/api/stations/:id', async (req) => {
     const station = db.prepare('SELECT * FROM stations WHERE id = ?').get(req.params.id);
     if (!station) return { error: 'Station not found' };
     const sources = db.prepare('SELECT * FROM audio_sources WHERE station_id = ? ORDER BY priority ASC').all(req.params.id);
     const playlist = db.prepare('SELECT * FROM playlist_items WHERE station_id = ? ORDER BY sort_order ASC').all(req.params.id);
     const destinations = db.prepare('SELECT * FROM rtmp_destinations WHERE station_id = ? ORDER BY created_at ASC').all(req.params.id);
-    const status = supervisor.getStationStatus(req.params.id);
-    return { station, sources, playlist, destinations, runtime: status };
+    return {
+      station, sources, playlist, destinations,
+      playlists: listPlaylists(req.params.id),
+      runtime: supervisor.getRuntime(req.params.id),
+      metricsHistory: supervisor.getMetricsHistory(req.params.id),
+    };
   });
 
   // Create station
@@ -75,9 +155,39 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
   });
 
   // Update station settings
-  app.put<{ Params: { id: string }; Body: Record<string, any> }>('/api/stations/:id', async (req) => {
+  app.put<{ Params: { id: string }; Body: Record<string, any> }>('/api/stations/:id', async (req, reply) => {
     const station = db.prepare('SELECT * FROM stations WHERE id = ?').get(req.params.id) as any;
     if (!station) return { error: 'Station not found' };
+    if (req.body.playback_mode !== undefined && !PLAYBACK_MODES.includes(req.body.playback_mode)) {
+      return reply.code(400).send({ error: `Playback mode must be one of ${PLAYBACK_MODES.join(', ')}` });
+    }
+    if (req.body.no_repeat_window !== undefined && (!Number.isInteger(Number(req.body.no_repeat_window)) || req.body.no_repeat_window < 0)) {
+      return reply.code(400).send({ error: 'No-repeat window must be a whole number ≥ 0' });
+    }
+    if (req.body.timezone !== undefined && !isValidTimezone(req.body.timezone)) {
+      return reply.code(400).send({ error: `Unknown timezone "${req.body.timezone}"` });
+    }
+    const visualizerError = validateVisualizer(req.body);
+    if (visualizerError) return reply.code(400).send({ error: visualizerError });
+    if (req.body.slide_duration_sec !== undefined && (!Number.isInteger(Number(req.body.slide_duration_sec)) || req.body.slide_duration_sec < 1 || req.body.slide_duration_sec > 86400)) {
+      return reply.code(400).send({ error: 'Slide duration must be 1-86400 seconds' });
+    }
+    if (req.body.slide_crossfade_sec !== undefined && !(req.body.slide_crossfade_sec >= 0 && req.body.slide_crossfade_sec <= 10)) {
+      return reply.code(400).send({ error: 'Crossfade must be 0-10 seconds' });
+    }
+    const silenceError = validateSilence(req.body);
+    if (silenceError) return reply.code(400).send({ error: silenceError });
+    const loudnessError = validateLoudness(req.body);
+    if (loudnessError) return reply.code(400).send({ error: loudnessError });
+    if (req.body.fallback_np_text !== undefined && String(req.body.fallback_np_text).length > 200) {
+      return reply.code(400).send({ error: 'Fallback now-playing text must be at most 200 characters' });
+    }
+    if (req.body.run_priority !== undefined && (!Number.isInteger(Number(req.body.run_priority)) || req.body.run_priority < 0 || req.body.run_priority > 99)) {
+      return reply.code(400).send({ error: 'Priority must be 0-99 (0 = most important)' });
+    }
+    if (req.body.slate_text !== undefined && String(req.body.slate_text).length > SLATE_TEXT_MAX) {
+      return reply.code(400).send({ error: `Slate message must be at most ${SLATE_TEXT_MAX} characters` });
+    }
 
       const allowed = [
         'name', 'slug', 'overlay_enabled', 'overlay_font_size', 'overlay_font_color',
@@ -86,8 +196,16 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
         'overlay_margin_x', 'overlay_margin_y',
         'overlay_title', 'overlay_title_font_size', 'overlay_title_font_color',
         'np_mode', 'np_azuracast_url', 'np_azuracast_station', 'np_icecast_url', 'np_poll_interval',
-        'video_width', 'video_height', 'video_bitrate', 'video_fps', 'audio_bitrate',
-        'auto_restart', 'restart_delay_sec', 'max_restart_attempts',
+        'video_width', 'video_height', 'video_bitrate', 'video_fps', 'audio_bitrate', 'hls_enabled',
+        'archive_enabled', 'archive_format', 'archive_segment_min', 'archive_retention_days', 'archive_max_gb',
+        'playback_mode', 'no_repeat_window', 'timezone', 'run_schedule_enabled',
+        'video_mode', 'visualizer_style', 'visualizer_color', 'visualizer_bg_color', 'visualizer_placement', 'visualizer_size',
+        'slide_duration_sec', 'slide_crossfade_sec', 'slate_enabled', 'slate_text',
+        'silence_detect_enabled', 'silence_threshold_db', 'silence_duration_sec', 'silence_failover',
+        'loudnorm_enabled', 'loudnorm_target_lufs', 'loudnorm_true_peak',
+        'fallback_audio_enabled', 'fallback_np_text', 'run_priority',
+        'auto_restart', 'restart_delay_sec', 'max_restart_attempts', 'stall_timeout_sec',
+        'restart_stable_sec', 'breaker_failures', 'breaker_window_sec', 'breaker_retry_sec',
         'telegram_enabled', 'telegram_bot_token', 'telegram_chat_id',
       ];    const updates: string[] = [];
     const values: any[] = [];
@@ -102,6 +220,25 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
       values.push(req.params.id);
       db.prepare(`UPDATE stations SET ${updates.join(', ')}, updated_at = datetime('now') WHERE id = ?`).run(...values);
     }
+
+    // New resolution/fps/bitrate makes existing renditions stale
+    const videoKeys = ['video_width', 'video_height', 'video_fps', 'video_bitrate'];
+    if (videoKeys.some(k => req.body[k] !== undefined && String(req.body[k]) !== String(station[k]))) {
+      transcoder.resume(req.params.id);
+    }
+    if (req.body.hls_enabled !== undefined) {
+      supervisor.setHlsMonitor(req.params.id, !!req.body.hls_enabled);
+    }
+    const archiveKeys = ['archive_enabled', 'archive_format', 'archive_segment_min'];
+    if (archiveKeys.some(k => req.body[k] !== undefined && String(req.body[k]) !== String(station[k]))) {
+      supervisor.refreshArchiveRecorder(req.params.id);
+    }
+    if (req.body.archive_retention_days !== undefined || req.body.archive_max_gb !== undefined) {
+      supervisor.pruneArchives(req.params.id);
+    }
+    if (req.body.timezone !== undefined && req.body.timezone !== station.timezone) {
+      supervisor.checkSchedules(req.params.id);
+    }
     return db.prepare('SELECT * FROM stations WHERE id = ?').get(req.params.id);
   });
 
@@ -114,13 +251,23 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     if (fs.existsSync(uploadsDir)) {
       fs.rmSync(uploadsDir, { recursive: true, force: true });
     }
+    fs.rmSync(supervisor.archiveDir(req.params.id), { recursive: true, force: true });
     return { ok: true };
   });
 
   // ─── STATION CONTROLS ────────────────────────────────────
 
-  app.post<{ Params: { id: string } }>('/api/stations/:id/start', async (req) => {
-    await supervisor.startStation(req.params.id);
+  // 409 = refused by admission control (not enough CPU budget), or switching between dry run and live.
+  // dry_run replaces every destination with a local sink; capture keeps the last minute of each.
+  app.post<{ Params: { id: string }; Body: { dry_run?: boolean; capture?: boolean } | undefined }>('/api/stations/:id/start', async (req, reply) => {
+    const station = db.prepare('SELECT id FROM stations WHERE id = ?').get(req.params.id);
+    if (!station) return reply.code(404).send({ error: 'Station not found' });
+    const body = req.body || {};
+    try {
+      await supervisor.startStation(req.params.id, body.dry_run ? { dryRun: { capture: !!body.capture } } : {});
+    } catch (err: any) {
+      return reply.code(409).send({ error: err.message });
+    }
     return { ok: true, status: 'starting' };
   });
 
@@ -129,11 +276,35 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     return { ok: true, status: 'stopped' };
   });
 
-  app.post<{ Params: { id: string } }>('/api/stations/:id/restart', async (req) => {
-    await supervisor.restartStation(req.params.id);
+  app.post<{ Params: { id: string } }>('/api/stations/:id/restart', async (req, reply) => {
+    const station = db.prepare('SELECT id FROM stations WHERE id = ?').get(req.params.id);
+    if (!station) return reply.code(404).send({ error: 'Station not found' });
+    try {
+      await supervisor.restartStation(req.params.id);
+    } catch (err: any) {
+      return reply.code(409).send({ error: err.message });
+    }
     return { ok: true, status: 'restarting' };
   });
 
+  // Capture of one destination from the current / last dry run (MPEG-TS)
+  app.get<{ Params: { id: string; file: string } }>('/api/stations/:id/dry-run/:file', async (req, reply) => {
+    const filePath = supervisor.getDryRunFile(req.params.id, req.params.file);
+    if (!filePath) return reply.code(404).send({ error: 'Capture not found' });
+    reply.header('Content-Type', 'video/mp2t');
+    reply.header('Content-Length', fs.statSync(filePath).size);
+    reply.header('Content-Disposition', `attachment; filename="dry-run-${req.params.file}"`);
+    return reply.send(fs.createReadStream(filePath));
+  });
+
+  // CPU / memory / threads of the station's FFmpeg processes (last 10 minutes, oldest first)
+  app.get<{ Params: { id: string } }>('/api/stations/:id/resources', async (req) => {
+    return {
+      current: supervisor.getRuntime(req.params.id).resources,
+      history: supervisor.getResourceHistory(req.params.id),
+    };
+  });
+
   // ─── AUDIO SOURCES ───────────────────────────────────────
 
   app.post<{ Params: { id: string }; Body: { name: string; url: string; priority?: number } }>(
@@ -173,6 +344,56 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     }
   );
 
+  // ─── LOCAL FALLBACK AUDIO ────────────────────────────────
+
+  app.get<{ Params: { id: string } }>('/api/stations/:id/fallback-audio', async (req) => {
+    return db.prepare('SELECT * FROM fallback_audio WHERE station_id = ? ORDER BY sort_order ASC').all(req.params.id);
+  });
+
+  // Uploads are re-encoded to one format, so the encoder can loop them back to back (concat demuxer)
+  app.post<{ Params: { id: string } }>('/api/stations/:id/fallback-audio', async (req, reply) => {
+    const station = db.prepare('SELECT id FROM stations WHERE id = ?').get(req.params.id);
+    if (!station) return reply.code(404).send({ error: 'Station not found' });
+    const data = await req.file();
+    if (!data) return reply.code(400).send({ error: 'No file uploaded' });
+
+    const dir = path.join(__dirname, '..', '..', 'uploads', req.params.id, 'fallback-audio');
+    fs.mkdirSync(dir, { recursive: true });
+    const fileId = uuid();
+    const uploadPath = path.join(dir, `${fileId}.upload${path.extname(data.filename)}`);
+    const writeStream = fs.createWriteStream(uploadPath);
+    await data.file.pipe(writeStream);
+    await new Promise<void>((resolve, reject) => {
+      writeStream.on('finish', resolve);
+      writeStream.on('error', reject);
+    });
+
+    const filename = `${fileId}.aac`;
+    const filePath = path.join(dir, filename);
+    const ok = await normalizeFallbackAudio(uploadPath, filePath);
+    fs.rmSync(uploadPath, { force: true });
+    if (!ok) {
+      fs.rmSync(filePath, { force: true });
+      return reply.code(400).send({ error: `${data.filename} is not a readable audio file` });
+    }
+
+    const duration = await probeDuration(filePath);
+    const maxOrder = db.prepare('SELECT MAX(sort_order) as m FROM fallback_audio WHERE station_id = ?').get(req.params.id) as any;
+    db.prepare(
+      'INSERT INTO fallback_audio (id, station_id, filename, original_name, file_size, duration_sec, sort_order) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).run(fileId, req.params.id, filename, data.filename, fs.statSync(filePath).size, duration, (maxOrder?.m || 0) + 1);
+    return db.prepare('SELECT * FROM fallback_audio WHERE id = ?').get(fileId);
+  });
+
+  app.delete<{ Params: { id: string; fileId: string } }>('/api/stations/:id/fallback-audio/:fileId', async (req) => {
+    const file = db.prepare('SELECT filename FROM fallback_audio WHERE id = ? AND station_id = ?').get(req.params.fileId, req.params.id) as any;
+    if (file) {
+      fs.rmSync(path.join(__dirname, '..', '..', 'uploads', req.params.id, 'fallback-audio', file.filename), { force: true });
+      db.prepare('DELETE FROM fallback_audio WHERE id = ?').run(req.params.fileId);
+    }
+    return { ok: true };
+  });
+
   // ─── FONTS ──────────────────────────────────────────────
 
   // List all available fonts (system + Google + custom uploaded)
@@ -275,10 +496,30 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     return reply.code(404).send({ error: 'Font not found' });
   });
 
-  // ─── PLAYLIST (video upload + management) ─────────────
+  // ─── PLAYLIST (video/image upload + management) ────────
 
-  // Upload MP4 (legacy single-request upload — kept for small files)
-  app.post<{ Params: { id: string } }>('/api/stations/:id/playlist/upload', async (req, reply) => {
+  // Image items are validated before they are added; returns the slide duration for a new one
+  const checkImage = async (stationId: string, filePath: string): Promise<number | null> => {
+    if (!(await probeImage(filePath))) {
+      fs.rmSync(filePath, { force: true });
+      return null;
+    }
+    const station = db.prepare('SELECT slide_duration_sec FROM stations WHERE id = ?').get(stationId) as any;
+    return station?.slide_duration_sec || 10;
+  };
+
+  // Thumbnails are made in the background; the playlist shows an icon until then
+  const thumbnailItem = (itemId: string, filePath: string) => {
+    const thumbName = `${itemId}.thumb.jpg`;
+    createThumbnail(filePath, path.join(path.dirname(filePath), thumbName)).then((ok) => {
+      if (ok) db.prepare('UPDATE playlist_items SET thumbnail_filename = ? WHERE id = ?').run(thumbName, itemId);
+    });
+  };
+
+  // Upload MP4 or image (legacy single-request upload — kept for small files)
+  app.post<{ Params: { id: string }; Querystring: { playlist_id?: string } }>('/api/stations/:id/playlist/upload', async (req, reply) => {
+    const playlistId = stationPlaylistId(req.params.id, req.query.playlist_id);
+    if (playlistId === undefined) return reply.code(404).send({ error: 'Playlist not found' });
     const data = await req.file();
     if (!data) return reply.code(400).send({ error: 'No file' });
 
@@ -298,13 +539,29 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
       writeStream.on('error', reject);
     });
 
+    const mediaType = mediaTypeOf(filename);
+    const slideSec = mediaType === 'image' ? await checkImage(req.params.id, filePath) : null;
+    if (mediaType === 'image' && slideSec === null) {
+      return reply.code(400).send({ error: `${data.filename} is not a readable image` });
+    }
+
     const fileStats = fs.statSync(filePath);
     const maxOrder = db.prepare('SELECT MAX(sort_order) as m FROM playlist_items WHERE station_id = ?').get(req.params.id) as any;
     const sortOrder = (maxOrder?.m || 0) + 1;
 
     db.prepare(
-      'INSERT INTO playlist_items (id, station_id, filename, original_name, file_size, sort_order) VALUES (?, ?, ?, ?, ?, ?)'
-    ).run(itemId, req.params.id, filename, data.filename, fileStats.size, sortOrder);
+      'INSERT INTO playlist_items (id, station_id, playlist_id, filename, original_name, file_size, sort_order, media_type, duration_sec) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).run(itemId, req.params.id, playlistId, filename, data.filename, fileStats.size, sortOrder, mediaType, slideSec);
+
+    if (mediaType === 'image') {
+      thumbnailItem(itemId, filePath);
+    } else {
+      // Duration first, so the rendition job can report progress
+      probeDuration(filePath).then((duration) => {
+        if (duration) db.prepare('UPDATE playlist_items SET duration_sec = ? WHERE id = ?').run(duration, itemId);
+        transcoder.enqueue(itemId);
+      });
+    }
 
     return db.prepare('SELECT * FROM playlist_items WHERE id = ?').get(itemId);
   });
@@ -312,7 +569,7 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
   // ─── CHUNKED UPLOAD (for large files 500MB+) ─────────────
 
   // In-memory store for active upload sessions
-  const uploadSessions = new Map<string, { stationId: string; fileName: string; totalSize: number; chunkDir: string; receivedChunks: Set<number>; createdAt: number }>();
+  const uploadSessions = new Map<string, { stationId: string; playlistId: string | null; fileName: string; totalSize: number; chunkDir: string; receivedChunks: Set<number>; createdAt: number }>();
 
   // Clean stale sessions every 30 minutes
   setInterval(() => {
@@ -326,15 +583,18 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
   }, 30 * 60 * 1000);
 
   // 1) Init chunked upload session
-  app.post<{ Params: { id: string }; Body: { fileName: string; fileSize: number; chunkSize?: number } }>(
+  app.post<{ Params: { id: string }; Body: { fileName: string; fileSize: number; chunkSize?: number; playlistId?: string | null } }>(
     '/api/stations/:id/upload/init',
-    async (req) => {
+    async (req, reply) => {
+      const playlistId = stationPlaylistId(req.params.id, req.body.playlistId);
+      if (playlistId === undefined) return reply.code(404).send({ error: 'Playlist not found' });
       const sessionId = uuid();
       const chunksDir = path.join(__dirname, '..', '..', 'uploads', '_chunks', sessionId);
       fs.mkdirSync(chunksDir, { recursive: true });
 
       uploadSessions.set(sessionId, {
         stationId: req.params.id,
+        playlistId,
         fileName: req.body.fileName,
         totalSize: req.body.fileSize,
         chunkDir: chunksDir,
@@ -436,23 +696,34 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
       fs.rmSync(session.chunkDir, { recursive: true, force: true });
       uploadSessions.delete(req.params.sessionId);
 
+      const mediaType = mediaTypeOf(filename);
+      const slideSec = mediaType === 'image' ? await checkImage(req.params.id, finalPath) : null;
+      if (mediaType === 'image' && slideSec === null) {
+        return reply.code(400).send({ error: `${session.fileName} is not a readable image` });
+      }
+
       const fileStats = fs.statSync(finalPath);
       const maxOrder = db.prepare('SELECT MAX(sort_order) as m FROM playlist_items WHERE station_id = ?').get(req.params.id) as any;
       const sortOrder = (maxOrder?.m || 0) + 1;
 
       db.prepare(
-        'INSERT INTO playlist_items (id, station_id, filename, original_name, file_size, sort_order) VALUES (?, ?, ?, ?, ?, ?)'
-      ).run(itemId, req.params.id, filename, session.fileName, fileStats.size, sortOrder);
+        'INSERT INTO playlist_items (id, station_id, playlist_id, filename, original_name, file_size, sort_order, media_type, duration_sec) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).run(itemId, req.params.id, session.playlistId, filename, session.fileName, fileStats.size, sortOrder, mediaType, slideSec);
 
-      // Auto-detect duration with ffprobe (non-blocking — updates DB in background)
-      probeDuration(finalPath).then((duration) => {
-        if (duration) {
-          db.prepare('UPDATE playlist_items SET duration_sec = ? WHERE id = ?').run(duration, itemId);
-          console.log(`[FFPROBE] Detected duration=${duration}s for ${session.fileName} (item=${itemId})`);
-        } else {
-          console.warn(`[FFPROBE] Could not detect duration for ${session.fileName}`);
-        }
-      });
+      if (mediaType === 'image') {
+        thumbnailItem(itemId, finalPath);
+      } else {
+        // Auto-detect duration with ffprobe (non-blocking — updates DB in background)
+        probeDuration(finalPath).then((duration) => {
+          if (duration) {
+            db.prepare('UPDATE playlist_items SET duration_sec = ? WHERE id = ?').run(duration, itemId);
+            console.log(`[FFPROBE] Detected duration=${duration}s for ${session.fileName} (item=${itemId})`);
+          } else {
+            console.warn(`[FFPROBE] Could not detect duration for ${session.fileName}`);
+          }
+          transcoder.enqueue(itemId);
+        });
+      }
 
       return db.prepare('SELECT * FROM playlist_items WHERE id = ?').get(itemId);
     }
@@ -483,14 +754,49 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     }
   );
 
+  // Update one playlist item (weight for weighted playback mode, named playlist it belongs to, time on air of an image)
+  app.put<{ Params: { id: string; itemId: string }; Body: { weight?: number; playlist_id?: string | null; duration_sec?: number } }>(
+    '/api/stations/:id/playlist/:itemId',
+    async (req, reply) => {
+      const item = db.prepare('SELECT id, media_type FROM playlist_items WHERE id = ? AND station_id = ?').get(req.params.itemId, req.params.id) as any;
+      if (!item) return reply.code(404).send({ error: 'Playlist item not found' });
+      if (req.body.duration_sec !== undefined) {
+        if (item.media_type !== 'image') return reply.code(400).send({ error: 'Only image items have a set duration' });
+        const duration = Number(req.body.duration_sec);
+        if (!Number.isInteger(duration) || duration < 1 || duration > 86400) {
+          return reply.code(400).send({ error: 'Slide duration must be 1-86400 seconds' });
+        }
+        db.prepare('UPDATE playlist_items SET duration_sec = ? WHERE id = ?').run(duration, req.params.itemId);
+      }
+      if (req.body.weight !== undefined) {
+        const weight = Number(req.body.weight);
+        if (!isFinite(weight) || weight < 0 || weight > 100) {
+          return reply.code(400).send({ error: 'Weight must be between 0 and 100' });
+        }
+        db.prepare('UPDATE playlist_items SET weight = ? WHERE id = ?').run(weight, req.params.itemId);
+      }
+      if (req.body.playlist_id !== undefined) {
+        const playlistId = stationPlaylistId(req.params.id, req.body.playlist_id);
+        if (playlistId === undefined) return reply.code(404).send({ error: 'Playlist not found' });
+        db.prepare('UPDATE playlist_items SET playlist_id = ? WHERE id = ?').run(playlistId, req.params.itemId);
+      }
+      return db.prepare('SELECT * FROM playlist_items WHERE id = ?').get(req.params.itemId);
+    }
+  );
+
   // Delete playlist item
   app.delete<{ Params: { id: string; itemId: string } }>(
     '/api/stations/:id/playlist/:itemId',
     async (req) => {
-      const item = db.prepare('SELECT filename FROM playlist_items WHERE id = ? AND station_id = ?').get(req.params.itemId, req.params.id) as any;
+      const item = db.prepare('SELECT filename, rendition_filename, thumbnail_filename FROM playlist_items WHERE id = ? AND station_id = ?').get(req.params.itemId, req.params.id) as any;
       if (item) {
-        const filePath = path.join(__dirname, '..', '..', 'uploads', req.params.id, item.filename);
-        if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+        transcoder.cancel(req.params.itemId);
+        const uploadsDir = path.join(__dirname, '..', '..', 'uploads', req.params.id);
+        for (const file of [item.filename, item.rendition_filename, item.thumbnail_filename]) {
+          if (!file) continue;
+          const filePath = path.join(uploadsDir, file);
+          if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+        }
         db.prepare('DELETE FROM playlist_items WHERE id = ?').run(req.params.itemId);
       }
       // Update concat playlist
@@ -500,22 +806,36 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     }
   );
 
-  // Apply playlist changes (atomic update + restart only this station's FFmpeg)
+  // Apply playlist changes. A running station picks them up at the next item boundary — no restart.
   app.post<{ Params: { id: string } }>('/api/stations/:id/playlist/apply', async (req) => {
     const station = db.prepare('SELECT * FROM stations WHERE id = ?').get(req.params.id) as any;
     if (!station) return { error: 'Station not found' };
 
     supervisor.writeConcatPlaylist(req.params.id, station.slug);
 
-    // Restart only this station's pipeline
     const status = supervisor.getStationStatus(req.params.id);
     if (status.status === 'running') {
-      await supervisor.restartStation(req.params.id);
-      return { ok: true, action: 'playlist_updated_and_restarted' };
+      return { ok: true, action: 'playlist_updated_live' };
     }
     return { ok: true, action: 'playlist_updated' };
   });
 
+  // Re-run the rendition job for one item (e.g. after a failure)
+  app.post<{ Params: { id: string; itemId: string } }>('/api/stations/:id/playlist/:itemId/rendition', async (req, reply) => {
+    const item = db.prepare('SELECT id, media_type FROM playlist_items WHERE id = ? AND station_id = ?').get(req.params.itemId, req.params.id) as any;
+    if (!item) return reply.code(404).send({ error: 'Playlist item not found' });
+    if (item.media_type === 'image') return reply.code(400).send({ error: 'Images are rendered live and have no rendition' });
+    transcoder.enqueue(req.params.itemId);
+    return { ok: true };
+  });
+
+  app.get<{ Params: { id: string; itemId: string } }>('/api/stations/:id/playlist/:itemId/thumbnail', async (req, reply) => {
+    const item = db.prepare('SELECT thumbnail_filename FROM playlist_items WHERE id = ? AND station_id = ?').get(req.params.itemId, req.params.id) as any;
+    const thumbPath = item?.thumbnail_filename ? path.join(__dirname, '..', '..', 'uploads', req.params.id, item.thumbnail_filename) : '';
+    if (!thumbPath || !fs.existsSync(thumbPath)) return reply.code(404).send({ error: 'No thumbnail' });
+    return reply.type('image/jpeg').send(fs.readFileSync(thumbPath));
+  });
+
   // Scan all playlist items and auto-detect missing durations with ffprobe
   app.post<{ Params: { id: string } }>('/api/stations/:id/playlist/probe-durations', async (req) => {
     const items = db.prepare(
@@ -540,32 +860,245 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     return { ok: true, scanned: items.length, updated };
   });
 
+  // ─── NAMED PLAYLISTS & DAYPART SCHEDULE ──────────────────
+
+  app.get<{ Params: { id: string } }>('/api/stations/:id/playlists', async (req) => {
+    return listPlaylists(req.params.id);
+  });
+
+  app.post<{ Params: { id: string }; Body: { name: string } }>('/api/stations/:id/playlists', async (req, reply) => {
+    const station = db.prepare('SELECT id FROM stations WHERE id = ?').get(req.params.id);
+    if (!station) return reply.code(404).send({ error: 'Station not found' });
+    const name = (req.body.name || '').trim();
+    if (!name) return reply.code(400).send({ error: 'Name is required' });
+    const id = uuid();
+    db.prepare('INSERT INTO playlists (id, station_id, name) VALUES (?, ?, ?)').run(id, req.params.id, name);
+    return db.prepare('SELECT * FROM playlists WHERE id = ?').get(id);
+  });
+
+  app.put<{ Params: { id: string; playlistId: string }; Body: { name: string } }>(
+    '/api/stations/:id/playlists/:playlistId',
+    async (req, reply) => {
+      const name = (req.body.name || '').trim();
+      if (!name) return reply.code(400).send({ error: 'Name is required' });
+      const result = db.prepare('UPDATE playlists SET name = ? WHERE id = ? AND station_id = ?').run(name, req.params.playlistId, req.params.id);
+      if (result.changes === 0) return reply.code(404).send({ error: 'Playlist not found' });
+      return db.prepare('SELECT * FROM playlists WHERE id = ?').get(req.params.playlistId);
+    }
+  );
+
+  // Items go back to the default playlist; schedule slots/overrides using it are removed
+  app.delete<{ Params: { id: string; playlistId: string } }>(
+    '/api/stations/:id/playlists/:playlistId',
+    async (req) => {
+      db.prepare('DELETE FROM playlists WHERE id = ? AND station_id = ?').run(req.params.playlistId, req.params.id);
+      supervisor.checkSchedules(req.params.id);
+      return { ok: true };
+    }
+  );
+
+  // Weekly slots + date overrides, and what the schedule selects right now
+  app.get<{ Params: { id: string } }>('/api/stations/:id/schedule', async (req, reply) => {
+    const station = db.prepare('SELECT timezone FROM stations WHERE id = ?').get(req.params.id) as any;
+    if (!station) return reply.code(404).send({ error: 'Station not found' });
+    return {
+      timezone: station.timezone,
+      clock: zonedClock(isValidTimezone(station.timezone) ? station.timezone : 'UTC'),
+      active: supervisor.resolvePlaylist(req.params.id),
+      slots: db.prepare('SELECT * FROM schedule_slots WHERE station_id = ? ORDER BY start_time ASC').all(req.params.id),
+      overrides: db.prepare('SELECT * FROM schedule_overrides WHERE station_id = ? ORDER BY date ASC').all(req.params.id),
+    };
+  });
+
+  app.post<{ Params: { id: string }; Body: { playlist_id?: string | null; days: number[] | string; start_time: string; end_time: string } }>(
+    '/api/stations/:id/schedule/slots',
+    async (req, reply) => {
+      const playlistId = stationPlaylistId(req.params.id, req.body.playlist_id);
+      if (playlistId === undefined) return reply.code(404).send({ error: 'Playlist not found' });
+      const days = [...new Set(parseDays(String(req.body.days ?? '')))].sort().join(',');
+      const error = validateSlot({ ...req.body, days });
+      if (error) return reply.code(400).send({ error });
+
+      const id = uuid();
+      db.prepare(
+        'INSERT INTO schedule_slots (id, station_id, playlist_id, days, start_time, end_time) VALUES (?, ?, ?, ?, ?, ?)'
+      ).run(id, req.params.id, playlistId, days, req.body.start_time, req.body.end_time);
+      supervisor.checkSchedules(req.params.id);
+      return db.prepare('SELECT * FROM schedule_slots WHERE id = ?').get(id);
+    }
+  );
+
+  app.put<{ Params: { id: string; slotId: string }; Body: { playlist_id?: string | null; days?: number[] | string; start_time?: string; end_time?: string } }>(
+    '/api/stations/:id/schedule/slots/:slotId',
+    async (req, reply) => {
+      const slot = db.prepare('SELECT * FROM schedule_slots WHERE id = ? AND station_id = ?').get(req.params.slotId, req.params.id) as any;
+      if (!slot) return reply.code(404).send({ error: 'Schedule slot not found' });
+      const playlistId = req.body.playlist_id !== undefined ? stationPlaylistId(req.params.id, req.body.playlist_id) : slot.playlist_id;
+      if (playlistId === undefined) return reply.code(404).send({ error: 'Playlist not found' });
+      const merged = {
+        days: req.body.days !== undefined ? [...new Set(parseDays(String(req.body.days)))].sort().join(',') : slot.days,
+        start_time: req.body.start_time ?? slot.start_time,
+        end_time: req.body.end_time ?? slot.end_time,
+      };
+      const error = validateSlot(merged);
+      if (error) return reply.code(400).send({ error });
+
+      db.prepare('UPDATE schedule_slots SET playlist_id = ?, days = ?, start_time = ?, end_time = ? WHERE id = ?')
+        .run(playlistId, merged.days, merged.start_time, merged.end_time, req.params.slotId);
+      supervisor.checkSchedules(req.params.id);
+      return db.prepare('SELECT * FROM schedule_slots WHERE id = ?').get(req.params.slotId);
+    }
+  );
+
+  app.delete<{ Params: { id: string; slotId: string } }>(
+    '/api/stations/:id/schedule/slots/:slotId',
+    async (req) => {
+      db.prepare('DELETE FROM schedule_slots WHERE id = ? AND station_id = ?').run(req.params.slotId, req.params.id);
+      supervisor.checkSchedules(req.params.id);
+      return { ok: true };
+    }
+  );
+
+  app.post<{ Params: { id: string }; Body: { playlist_id?: string | null; date: string; label?: string } }>(
+    '/api/stations/:id/schedule/overrides',
+    async (req, reply) => {
+      const playlistId = stationPlaylistId(req.params.id, req.body.playlist_id);
+      if (playlistId === undefined) return reply.code(404).send({ error: 'Playlist not found' });
+      const error = validateOverrideDate(req.body.date);
+      if (error) return reply.code(400).send({ error });
+
+      const id = uuid();
+      db.prepare('INSERT INTO schedule_overrides (id, station_id, playlist_id, date, label) VALUES (?, ?, ?, ?, ?)')
+        .run(id, req.params.id, playlistId, req.body.date, (req.body.label || '').trim());
+      supervisor.checkSchedules(req.params.id);
+      return db.prepare('SELECT * FROM schedule_overrides WHERE id = ?').get(id);
+    }
+  );
+
+  app.delete<{ Params: { id: string; overrideId: string } }>(
+    '/api/stations/:id/schedule/overrides/:overrideId',
+    async (req) => {
+      db.prepare('DELETE FROM schedule_overrides WHERE id = ? AND station_id = ?').run(req.params.overrideId, req.params.id);
+      supervisor.checkSchedules(req.params.id);
+      return { ok: true };
+    }
+  );
+
+  // ─── RUN SCHEDULE (automatic start/stop) ─────────────────
+
+  app.get<{ Params: { id: string }; Querystring: { limit?: string } }>('/api/stations/:id/run-schedule', async (req, reply) => {
+    const station = db.prepare('SELECT timezone, run_schedule_enabled FROM stations WHERE id = ?').get(req.params.id) as any;
+    if (!station) return reply.code(404).send({ error: 'Station not found' });
+    const rules = db.prepare('SELECT * FROM run_schedule_rules WHERE station_id = ? ORDER BY created_at ASC').all(req.params.id) as RunScheduleRule[];
+    return {
+      enabled: !!station.run_schedule_enabled,
+      timezone: station.timezone,
+      clock: zonedClock(isValidTimezone(station.timezone) ? station.timezone : 'UTC'),
+      rules,
+      // Also computed while disabled, as a preview of what enabling would do
+      upcoming: upcomingActions(rules, station.timezone, Math.min(parseInt(req.query.limit || '50') || 50, 200)),
+    };
+  });
+
+  // Normalized rule fields from a request body (missing fields keep `base`)
+  const ruleFields = (body: Record<string, any>, base: Partial<RunScheduleRule> = {}) => ({
+    kind: body.kind ?? base.kind ?? 'window',
+    days: body.days !== undefined ? [...new Set(parseDays(String(body.days)))].sort().join(',') : base.days ?? '',
+    start_time: body.start_time ?? base.start_time ?? '',
+    end_time: body.end_time ?? base.end_time ?? '',
+    cron: (body.cron ?? base.cron ?? '').trim(),
+    action: body.action ?? base.action ?? 'start',
+    label: (body.label ?? base.label ?? '').trim(),
+    is_enabled: body.is_enabled !== undefined ? (body.is_enabled ? 1 : 0) : base.is_enabled ?? 1,
+  });
+
+  app.post<{ Params: { id: string }; Body: Record<string, any> }>('/api/stations/:id/run-schedule/rules', async (req, reply) => {
+    const station = db.prepare('SELECT id FROM stations WHERE id = ?').get(req.params.id);
+    if (!station) return reply.code(404).send({ error: 'Station not found' });
+    const rule = ruleFields(req.body);
+    const error = validateRule(rule);
+    if (error) return reply.code(400).send({ error });
+
+    const id = uuid();
+    db.prepare(
+      'INSERT INTO run_schedule_rules (id, station_id, kind, days, start_time, end_time, cron, action, label, is_enabled) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).run(id, req.params.id, rule.kind, rule.days, rule.start_time, rule.end_time, rule.cron, rule.action, rule.label, rule.is_enabled);
+    return db.prepare('SELECT * FROM run_schedule_rules WHERE id = ?').get(id);
+  });
+
+  app.put<{ Params: { id: string; ruleId: string }; Body: Record<string, any> }>(
+    '/api/stations/:id/run-schedule/rules/:ruleId',
+    async (req, reply) => {
+      const existing = db.prepare('SELECT * FROM run_schedule_rules WHERE id = ? AND station_id = ?').get(req.params.ruleId, req.params.id) as any;
+      if (!existing) return reply.code(404).send({ error: 'Schedule rule not found' });
+      const rule = ruleFields(req.body, existing);
+      const error = validateRule(rule);
+      if (error) return reply.code(400).send({ error });
+
+      db.prepare(
+        'UPDATE run_schedule_rules SET kind = ?, days = ?, start_time = ?, end_time = ?, cron = ?, action = ?, label = ?, is_enabled = ? WHERE id = ?'
+      ).run(rule.kind, rule.days, rule.start_time, rule.end_time, rule.cron, rule.action, rule.label, rule.is_enabled, req.params.ruleId);
+      return db.prepare('SELECT * FROM run_schedule_rules WHERE id = ?').get(req.params.ruleId);
+    }
+  );
+
+  app.delete<{ Params: { id: string; ruleId: string } }>(
+    '/api/stations/:id/run-schedule/rules/:ruleId',
+    async (req) => {
+      db.prepare('DELETE FROM run_schedule_rules WHERE id = ? AND station_id = ?').run(req.params.ruleId, req.params.id);
+      return { ok: true };
+    }
+  );
+
   // ─── RTMP DESTINATIONS ───────────────────────────────────
 
-  app.post<{ Params: { id: string }; Body: { name: string; platform: string; rtmp_url: string; stream_key?: string } }>(
+  app.post<{
+    Params: { id: string };
+    Body: {
+      name: string; platform: string; protocol?: string; rtmp_url: string; stream_key?: string; srt_latency_ms?: number; srt_passphrase?: string;
+      [profileColumn: string]: any;
+    };
+  }>(
     '/api/stations/:id/destinations',
-    async (req) => {
+    async (req, reply) => {
       const destId = uuid();
-      const { name, platform, rtmp_url, stream_key } = req.body;
-      db.prepare('INSERT INTO rtmp_destinations (id, station_id, name, platform, rtmp_url, stream_key) VALUES (?, ?, ?, ?, ?, ?)')
-        .run(destId, req.params.id, name.trim(), platform, (rtmp_url || '').trim(), (stream_key || '').trim());
+      const { name, platform } = req.body;
+      const target = normalizeTarget(req.body);
+      const invalid = validateTarget(target) || validateProfileOverrides(req.body);
+      if (invalid) return reply.code(400).send({ error: invalid });
+      db.prepare(
+        'INSERT INTO rtmp_destinations (id, station_id, name, platform, protocol, rtmp_url, stream_key, srt_latency_ms, srt_passphrase) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).run(destId, req.params.id, name.trim(), platform, target.protocol, target.rtmp_url, target.stream_key, target.srt_latency_ms, target.srt_passphrase);
+
+      const profileKeys = PROFILE_COLUMNS.filter(k => req.body[k] !== undefined && req.body[k] !== '');
+      if (profileKeys.length > 0) {
+        db.prepare(`UPDATE rtmp_destinations SET ${profileKeys.map(k => `${k} = ?`).join(', ')} WHERE id = ?`)
+          .run(...profileKeys.map(k => req.body[k]), destId);
+      }
       return db.prepare('SELECT * FROM rtmp_destinations WHERE id = ?').get(destId);
     }
   );
 
   app.put<{ Params: { id: string; destId: string }; Body: Record<string, any> }>(
     '/api/stations/:id/destinations/:destId',
-    async (req) => {
-      const allowed = ['name', 'platform', 'rtmp_url', 'stream_key', 'is_enabled'];
+    async (req, reply) => {
+      const existing = db.prepare('SELECT * FROM rtmp_destinations WHERE id = ?').get(req.params.destId) as any;
+      if (!existing) return reply.code(404).send({ error: 'Destination not found' });
+      // Validate the destination as it will be after the update
+      const merged = { ...existing, ...req.body };
+      const invalid = validateTarget(normalizeTarget(merged)) || validateProfileOverrides(merged);
+      if (invalid) return reply.code(400).send({ error: invalid });
+
+      const allowed = ['name', 'platform', 'protocol', 'rtmp_url', 'stream_key', 'srt_latency_ms', 'srt_passphrase', 'is_enabled', ...PROFILE_COLUMNS];
       const updates: string[] = [];
       const values: any[] = [];
       for (const key of allowed) {
         if (req.body[key] !== undefined) {
           updates.push(`${key} = ?`);
-          // Trim whitespace from URL fields
+          // Trim whitespace from URL fields; an empty profile field means "use the station setting"
           const val = (key === 'rtmp_url' || key === 'stream_key') && typeof req.body[key] === 'string'
             ? req.body[key].trim()
-            : req.body[key];
+            : PROFILE_COLUMNS.includes(key) && req.body[key] === '' ? null : req.body[key];
           values.push(val);
         }
       }
@@ -608,10 +1141,13 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     }
   );
 
-  // Test RTMP destination (10s test stream)
-  app.post<{ Body: { rtmp_url: string; stream_key?: string } }>('/api/test/rtmp', async (req) => {
-    return await testRtmpDestination(req.body.rtmp_url, req.body.stream_key || '');
-  });
+  // Test RTMP/RTMPS/SRT destination (10s test stream)
+  app.post<{ Body: { protocol?: string; rtmp_url: string; stream_key?: string; srt_latency_ms?: number; srt_passphrase?: string } }>(
+    '/api/test/rtmp',
+    async (req) => {
+      return await testRtmpDestination(normalizeTarget(req.body));
+    }
+  );
 
   // Run health checks for station
   app.post<{ Params: { id: string } }>('/api/stations/:id/healthcheck', async (req) => {
@@ -629,6 +1165,72 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     return result;
   });
 
+  // FFmpeg commands (encoder, feeder, relays) for the saved settings vs. the running pipeline, credentials masked
+  app.get<{ Params: { id: string } }>('/api/stations/:id/command', async (req, reply) => {
+    try {
+      const inspection = await supervisor.inspectCommand(req.params.id);
+      if (!inspection) return reply.code(404).send({ error: 'Station not found' });
+      return inspection;
+    } catch (err: any) {
+      return reply.code(500).send({ error: `Could not build the command: ${err.message}` });
+    }
+  });
+
+  // ─── STATION IMAGES (visualizer background, fallback slate) ──
+
+  // Saves the uploaded image as uploads/<station id>/<basename><ext> and stores the filename in `column`
+  const saveStationImage = async (req: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply,
+    column: 'visualizer_bg_image' | 'slate_image', basename: string, exts: string[]) => {
+    const station = db.prepare(`SELECT ${column} FROM stations WHERE id = ?`).get(req.params.id) as any;
+    if (!station) return reply.code(404).send({ error: 'Station not found' });
+    const data = await req.file();
+    if (!data) return reply.code(400).send({ error: 'No file uploaded' });
+
+    const ext = path.extname(data.filename).toLowerCase();
+    if (!exts.includes(ext)) {
+      return reply.code(400).send({ error: `Only ${exts.join(', ')} images are allowed` });
+    }
+
+    const uploadsDir = path.join(__dirname, '..', '..', 'uploads', req.params.id);
+    fs.mkdirSync(uploadsDir, { recursive: true });
+    const filename = `${basename}${ext}`;
+    const writeStream = fs.createWriteStream(path.join(uploadsDir, filename));
+    await data.file.pipe(writeStream);
+    await new Promise<void>((resolve, reject) => {
+      writeStream.on('finish', resolve);
+      writeStream.on('error', reject);
+    });
+
+    // A previous image with another extension is replaced
+    if (station[column] && station[column] !== filename) {
+      fs.rmSync(path.join(uploadsDir, station[column]), { force: true });
+    }
+    db.prepare(`UPDATE stations SET ${column} = ?, updated_at = datetime('now') WHERE id = ?`).run(filename, req.params.id);
+    return { ok: true, filename };
+  };
+
+  const removeStationImage = (stationId: string, column: 'visualizer_bg_image' | 'slate_image') => {
+    const station = db.prepare(`SELECT ${column} FROM stations WHERE id = ?`).get(stationId) as any;
+    if (station?.[column]) {
+      fs.rmSync(path.join(__dirname, '..', '..', 'uploads', stationId, station[column]), { force: true });
+      db.prepare(`UPDATE stations SET ${column} = '', updated_at = datetime('now') WHERE id = ?`).run(stationId);
+    }
+    return { ok: true };
+  };
+
+  app.post<{ Params: { id: string } }>('/api/stations/:id/visualizer/background', async (req, reply) =>
+    saveStationImage(req, reply, 'visualizer_bg_image', 'visualizer-bg', VISUALIZER_IMAGE_EXTS));
+
+  app.delete<{ Params: { id: string } }>('/api/stations/:id/visualizer/background', async (req) =>
+    removeStationImage(req.params.id, 'visualizer_bg_image'));
+
+  // The slate is read at every clip, so a new image shows without a restart
+  app.post<{ Params: { id: string } }>('/api/stations/:id/slate/image', async (req, reply) =>
+    saveStationImage(req, reply, 'slate_image', 'slate', SLATE_IMAGE_EXTS));
+
+  app.delete<{ Params: { id: string } }>('/api/stations/:id/slate/image', async (req) =>
+    removeStationImage(req.params.id, 'slate_image'));
+
   // ─── PREVIEW ─────────────────────────────────────────────
 
   app.get<{ Params: { id: string } }>('/api/stations/:id/preview', async (req, reply) => {
@@ -639,13 +1241,67 @@ export function registerStationRoutes(app: FastifyInstance, supervisor: FFmpegSu
     return reply.code(404).send({ error: 'Preview generation failed' });
   });
 
+  // ─── PROGRAM ARCHIVE ─────────────────────────────────────
+
+  app.get<{ Params: { id: string } }>('/api/stations/:id/archive', async (req) => {
+    const files = listArchive(supervisor.archiveDir(req.params.id));
+    return { files, totalSize: files.reduce((sum, f) => sum + f.size, 0) };
+  });
+
+  app.get<{ Params: { id: string; file: string } }>('/api/stations/:id/archive/:file', async (req, reply) => {
+    if (!ARCHIVE_FILE_RE.test(req.params.file)) return reply.code(400).send({ error: 'Invalid archive file name' });
+    const filePath = path.join(supervisor.archiveDir(req.params.id), req.params.file);
+    if (!fs.existsSync(filePath)) return reply.code(404).send({ error: 'Archive file not found' });
+
+    const station = db.prepare('SELECT slug FROM stations WHERE id = ?').get(req.params.id) as any;
+    reply.header('Content-Type', req.params.file.endsWith('.mp4') ? 'video/mp4' : 'video/mp2t');
+    reply.header('Content-Length', fs.statSync(filePath).size);
+    reply.header('Content-Disposition', `attachment; filename="${station?.slug || req.params.id}-${req.params.file}"`);
+    return reply.send(fs.createReadStream(filePath));
+  });
+
+  app.delete<{ Params: { id: string; file: string } }>('/api/stations/:id/archive/:file', async (req, reply) => {
+    if (!ARCHIVE_FILE_RE.test(req.params.file)) return reply.code(400).send({ error: 'Invalid archive file name' });
+    const filePath = path.join(supervisor.archiveDir(req.params.id), req.params.file);
+    if (!fs.existsSync(filePath)) return reply.code(404).send({ error: 'Archive file not found' });
+    fs.unlinkSync(filePath);
+    return { ok: true };
+  });
+
+  // Live HLS monitor (playlist + segments of the encoder output), see services/hls-monitor
+  app.get<{ Params: { id: string; file: string } }>('/api/stations/:id/hls/:file', async (req, reply) => {
+    const filePath = supervisor.getHlsFile(req.params.id, req.params.file);
+    if (!filePath) return reply.code(404).send({ error: 'HLS monitor is not running' });
+    const isPlaylist = filePath.endsWith('.m3u8');
+    return reply
+      .type(isPlaylist ? 'application/vnd.apple.mpegurl' : 'video/mp2t')
+      .header('Cache-Control', isPlaylist ? 'no-cache' : 'max-age=60')
+      .send(fs.readFileSync(filePath));
+  });
+
+  // ─── PLAYOUT HISTORY ─────────────────────────────────────
+
+  // Order in which items actually aired (newest first)
+  app.get<{ Params: { id: string }; Querystring: { limit?: string } }>(
+    '/api/stations/:id/playout/history',
+    async (req) => {
+      const limit = Math.min(parseInt(req.query.limit || '50') || 50, 1000);
+      return db.prepare('SELECT * FROM playout_history WHERE station_id = ? ORDER BY id DESC LIMIT ?')
+        .all(req.params.id, limit);
+    }
+  );
+
   // ─── LOGS ────────────────────────────────────────────────
 
-  app.get<{ Params: { id: string }; Querystring: { limit?: string; level?: string } }>(
+  app.get<{ Params: { id: string }; Querystring: { limit?: string; level?: string; source?: string } }>(
     '/api/stations/:id/logs',
     async (req) => {
       const limit = parseInt(req.query.limit || '100');
       const level = req.query.level;
+      if (req.query.source) {
+        return db.prepare('SELECT * FROM station_logs WHERE station_id = ? AND source = ? ORDER BY created_at DESC LIMIT ?')
+          .all(req.params.id, req.query.source, limit);
+      }
       if (level) {
         return db.prepare('SELECT * FROM station_logs WHERE station_id = ? AND level = ? ORDER BY created_at DESC LIMIT ?')
           .all(req.params.id, level, limit);
@@ -55,7 +55,7 @@ function timeAgo(ms: number): string {
   return `${days}d ago`;
 }
 
-export function registerStorageRoutes(app: FastifyInstance) {
+export function registerStorageRoutes(app: FastifyInstance, archiveRoot: string) {
 
   // GET /api/admin/storage — overview of disk usage
   app.get('/api/admin/storage', async () => {
@@ -104,6 +104,19 @@ export function registerStorageRoutes(app: FastifyInstance) {
       }
     }
 
+    // Program archives (per station)
+    const archiveSize = getDirSize(archiveRoot);
+    const archiveDirs: { id: string; size: number; fileCount: number }[] = [];
+    if (fs.existsSync(archiveRoot)) {
+      for (const entry of fs.readdirSync(archiveRoot, { withFileTypes: true })) {
+        if (!entry.isDirectory()) continue;
+        const dir = path.join(archiveRoot, entry.name);
+        let fileCount = 0;
+        try { fileCount = fs.readdirSync(dir).length; } catch {}
+        archiveDirs.push({ id: entry.name, size: getDirSize(dir), fileCount });
+      }
+    }
+
     // Per-station uploads size
     const stationDirs: { id: string; size: number; fileCount: number }[] = [];
     if (fs.existsSync(UPLOADS_DIR)) {
@@ -132,6 +145,14 @@ export function registerStorageRoutes(app: FastifyInstance) {
         totalSize: uploadsSize,
         totalFormatted: formatSize(uploadsSize),
       },
+      archive: {
+        totalSize: archiveSize,
+        totalFormatted: formatSize(archiveSize),
+        stations: archiveDirs.map(s => ({
+          ...s,
+          sizeFormatted: formatSize(s.size),
+        })),
+      },
       chunks: {
         totalSize: chunksSize,
         totalFormatted: formatSize(chunksSize),
@@ -0,0 +1,176 @@
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { trackChild } from './process-registry';
+
+export type ArchiveFormat = 'ts' | 'mp4';
+
+export interface ArchiveFile {
+  name: string;
+  size: number;
+  startedAt: string;     // from the file name (segment start, server local time)
+  modifiedAt: string;
+  recording: boolean;    // segment still being written
+}
+
+interface ArchiveConfig {
+  dir: string;
+  segmentSec: number;
+  format: ArchiveFormat;
+}
+
+// Segment names are strftime patterns: 2024-05-01_13-00-00.ts
+export const ARCHIVE_FILE_RE = /^(\d{4})-(\d{2})-(\d{2})_(\d{2})-(\d{2})-(\d{2})\.(ts|mp4)$/;
+// A segment written to within this window is considered the one being recorded
+const RECORDING_WINDOW_MS = 15000;
+const RESPAWN_DELAY_MS = 5000;
+
+/** Archive segments of a station, newest first. */
+export function listArchive(dir: string): ArchiveFile[] {
+  if (!fs.existsSync(dir)) return [];
+  const files: ArchiveFile[] = [];
+  for (const name of fs.readdirSync(dir)) {
+    const m = name.match(ARCHIVE_FILE_RE);
+    if (!m) continue;
+    try {
+      const stat = fs.statSync(path.join(dir, name));
+      const startedAt = new Date(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]);
+      files.push({
+        name,
+        size: stat.size,
+        startedAt: startedAt.toISOString(),
+        modifiedAt: stat.mtime.toISOString(),
+        recording: Date.now() - stat.mtimeMs < RECORDING_WINDOW_MS,
+      });
+    } catch {}
+  }
+  return files.sort((a, b) => b.name.localeCompare(a.name));
+}
+
+/**
+ * Retention: delete segments older than maxAgeDays, then the oldest ones until the
+ * archive fits in maxBytes (0 = no limit for either). The segment being recorded is kept.
+ */
+export function pruneArchive(dir: string, maxAgeDays: number, maxBytes: number): { deleted: string[]; freedBytes: number } {
+  const files = listArchive(dir).reverse();   // oldest first
+  let total = files.reduce((sum, f) => sum + f.size, 0);
+  const deleted: string[] = [];
+  let freedBytes = 0;
+
+  for (const file of files) {
+    if (file.recording) continue;
+    const tooOld = maxAgeDays > 0 && Date.now() - new Date(file.startedAt).getTime() > maxAgeDays * 86400_000;
+    const overSize = maxBytes > 0 && total > maxBytes;
+    if (!tooOld && !overSize) continue;
+    try {
+      fs.unlinkSync(path.join(dir, file.name));
+      deleted.push(file.name);
+      freedBytes += file.size;
+      total -= file.size;
+    } catch {}
+  }
+  return { deleted, freedBytes };
+}
+
+/**
+ * Records the station's encoded program (MPEG-TS on stdin) into clock-aligned
+ * segments (e.g. one file per hour, starting at :00). Stream copy only.
+ *
+ * MP4 segments are fragmented so a segment cut short by a crash is still playable.
+ * Like a destination relay it never applies backpressure to the encoder.
+ */
+export class ArchiveRecorder extends EventEmitter {
+  private config: ArchiveConfig;
+  private proc: ChildProcess | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private stopped = true;
+
+  constructor(config: ArchiveConfig) {
+    super();
+    this.config = config;
+  }
+
+  get pid(): number | null {
+    return this.proc?.pid || null;
+  }
+
+  start() {
+    this.stopped = false;
+    this.spawnRecorder();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.proc && this.proc.exitCode === null) {
+      const proc = this.proc;
+      // Closing stdin lets the segment muxer finalize the current file
+      proc.stdin?.end();
+      setTimeout(() => { if (proc.exitCode === null) proc.kill('SIGTERM'); }, 3000);
+      setTimeout(() => { if (proc.exitCode === null) proc.kill('SIGKILL'); }, 8000);
+    }
+    this.proc = null;
+  }
+
+  /** Forward a chunk of the program stream; dropped while the recorder is down or busy. */
+  write(chunk: Buffer) {
+    const stdin = this.proc?.stdin;
+    if (!stdin || !stdin.writable || stdin.writableNeedDrain) return;
+    stdin.write(chunk);
+  }
+
+  private spawnRecorder() {
+    if (this.stopped) return;
+    fs.mkdirSync(this.config.dir, { recursive: true });
+
+    const { format, segmentSec } = this.config;
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      '-fflags', '+genpts+discardcorrupt',
+      '-f', 'mpegts',
+      '-i', 'pipe:0',
+      '-map', '0',
+      '-c', 'copy',
+      ...(format === 'mp4' ? ['-bsf:a', 'aac_adtstoasc'] : []),
+      '-f', 'segment',
+      '-segment_time', String(segmentSec),
+      '-segment_atclocktime', '1',
+      '-reset_timestamps', '1',
+      '-strftime', '1',
+      '-segment_format', format === 'mp4' ? 'mp4' : 'mpegts',
+      ...(format === 'mp4' ? ['-segment_format_options', 'movflags=+frag_keyframe+empty_moov+default_base_moof'] : []),
+      path.join(this.config.dir, `%Y-%m-%d_%H-%M-%S.${format}`),
+    ];
+
+    const proc = spawn('ffmpeg', args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    trackChild(proc);
+    this.proc = proc;
+
+    proc.stdin?.on('error', () => {});
+
+    let lastError = '';
+    proc.stderr?.on('data', (data: Buffer) => {
+      const line = data.toString().trim();
+      if (line) lastError = line.split('\n').pop()!.slice(0, 500);
+    });
+
+    proc.on('close', (code) => {
+      if (this.proc !== proc) return;  // stopped
+      this.proc = null;
+      if (this.stopped) return;
+      this.emit('log', 'error', `Archive recorder exited (${lastError || `code ${code}`}) — restarting`);
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.spawnRecorder();
+      }, RESPAWN_DELAY_MS);
+    });
+
+    proc.on('error', (err) => {
+      this.emit('log', 'error', `Archive recorder process error: ${err.message}`);
+    });
+  }
+}
@@ -0,0 +1,106 @@
+import os from 'os';
+import { EncodingProfile } from './encoding-profile';
+import { getSetting, setSetting } from './ssl';
+
+/**
+ * Admission control: what a station costs the host in CPU, and how much the host
+ * may spend on stations. All figures are % of one core (400 = four full cores).
+ */
+
+export type AdmissionMode = 'off' | 'warn' | 'refuse';
+export const ADMISSION_MODES: AdmissionMode[] = ['off', 'warn', 'refuse'];
+
+export interface CapacitySettings {
+  mode: AdmissionMode;       // what startStation does when the projected load is over budget
+  budgetPercent: number;     // share of the host's cores stations may use (e.g. 85)
+  shed: boolean;             // stop lower-priority stations to make room / under sustained pressure
+}
+
+export interface StationLoad {
+  stationId: string;
+  name: string;
+  priority: number;          // stations.run_priority — lower = more important
+  running: boolean;
+  estimatedPercent: number;  // from the station's settings (calibrated by its last run)
+  measuredPercent: number | null;  // average of the recent resource samples while running
+  costPercent: number;       // measured when available, else estimated
+}
+
+export interface CapacityReport {
+  settings: CapacitySettings;
+  cores: number;
+  budgetPercent: number;     // cores × 100 × settings.budgetPercent / 100
+  usedPercent: number;       // cost of the running stations
+  stations: StationLoad[];
+}
+
+const DEFAULT_SETTINGS: CapacitySettings = { mode: 'warn', budgetPercent: 85, shed: false };
+
+// x264 cost per megapixel/second of output at preset veryfast (~70% of a core for 720p30)
+const X264_PERCENT_PER_MPX = 2.5;
+const PRESET_FACTOR: Record<string, number> = {
+  ultrafast: 0.35, superfast: 0.55, veryfast: 1, faster: 1.4, fast: 1.8, medium: 2.2, slow: 3.5,
+};
+const COPY_PERCENT = 2;          // main encoder without overlay: stream copy + audio
+const VISUALIZER_PERCENT = 15;   // scope rendering on top of the encode
+const FEEDER_PERCENT = 8;        // playout decoder (renditions are copied, other items transcoded)
+const AUDIO_PERCENT = 3;         // AAC encode + silencedetect/ebur128
+const LOUDNORM_PERCENT = 3;
+const RELAY_PERCENT = 1;         // remux to FLV / SRT, per destination
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function x264Percent(width: number, height: number, fps: number, preset: string): number {
+  return (width * height * fps / 1e6) * X264_PERCENT_PER_MPX * (PRESET_FACTOR[preset] || 1);
+}
+
+/**
+ * Model cost of a station from its settings: the program encode (overlay / visualizer),
+ * the playout feeder, audio, one x264 encode per extra destination profile and the relays.
+ */
+export function estimateStationCost(station: any, extraProfiles: EncodingProfile[], destinationCount: number): number {
+  const visualizer = station.video_mode === 'visualizer';
+  let cost = visualizer || station.overlay_enabled
+    ? x264Percent(station.video_width, station.video_height, station.video_fps, 'veryfast')
+    : COPY_PERCENT;
+  cost += visualizer ? VISUALIZER_PERCENT : FEEDER_PERCENT;
+  cost += AUDIO_PERCENT + (station.loudnorm_enabled ? LOUDNORM_PERCENT : 0);
+  for (const p of extraProfiles) cost += x264Percent(p.width, p.height, p.fps, p.preset);
+  cost += destinationCount * RELAY_PERCENT;
+  // The last run's measured/estimated ratio corrects the model for this host and content
+  if (station.cpu_calibration) cost *= station.cpu_calibration;
+  return round1(cost);
+}
+
+export function getCapacitySettings(): CapacitySettings {
+  const mode = getSetting('capacity_mode') as AdmissionMode;
+  const budget = Number(getSetting('capacity_budget_percent'));
+  const shed = getSetting('capacity_shed');
+  return {
+    mode: ADMISSION_MODES.includes(mode) ? mode : DEFAULT_SETTINGS.mode,
+    budgetPercent: budget > 0 ? budget : DEFAULT_SETTINGS.budgetPercent,
+    shed: shed ? shed === '1' : DEFAULT_SETTINGS.shed,
+  };
+}
+
+export function saveCapacitySettings(values: Partial<CapacitySettings>): void {
+  if (values.mode !== undefined) setSetting('capacity_mode', values.mode);
+  if (values.budgetPercent !== undefined) setSetting('capacity_budget_percent', String(values.budgetPercent));
+  if (values.shed !== undefined) setSetting('capacity_shed', values.shed ? '1' : '0');
+}
+
+/** Returns an error message for invalid capacity settings, or null. */
+export function validateCapacity(values: Record<string, any>): string | null {
+  if (values.mode !== undefined && !ADMISSION_MODES.includes(values.mode)) {
+    return `Mode must be one of ${ADMISSION_MODES.join(', ')}`;
+  }
+  if (values.budgetPercent !== undefined && !(values.budgetPercent >= 10 && values.budgetPercent <= 100)) {
+    return 'Budget must be 10-100 % of the host CPU';
+  }
+  return null;
+}
+
+/** Total station budget of this host, % of one core. */
+export function hostBudgetPercent(settings: CapacitySettings): number {
+  return round1(os.cpus().length * settings.budgetPercent);
+}
@@ -0,0 +1,114 @@
+/**
+ * Command inspector: the FFmpeg argument lists a station would be launched with, next to those
+ * of its running processes, with credentials masked and a per-option diff between the two.
+ */
+
+export interface ArgDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;              // one option with its value, shell-quoted
+}
+
+export interface CommandSection {
+  name: string;              // encoder | feeder | relay: <destination>
+  generated: string[] | null;  // from the saved settings (null = no longer part of the pipeline)
+  running: string[] | null;    // of the running process (null = not running, or added since)
+  diff: ArgDiffLine[];       // running → generated; empty unless both exist
+  changed: boolean;          // added, removed or different since the start
+}
+
+export interface CommandInspection {
+  running: boolean;
+  restartNeeded: boolean;    // a restart would launch something different from what is running
+  drawtext: string[];        // overlay filters of the generated encoder command, in chain order
+  onAirFeeder: string[] | null;  // decoder of the item on air right now, with its input file
+  sections: CommandSection[];
+}
+
+const MASK = '****';
+// Query parameters that carry credentials (SRT passphrase/streamid, tokens in source URLs)
+const SENSITIVE_PARAM_RE = /key|token|secret|pass|auth|sig|streamid/i;
+// '-1' is a value (e.g. -stream_loop -1), not an option
+const OPTION_RE = /^-[a-z]/i;
+
+function maskUrl(arg: string): string {
+  if (!/^[a-z][\w+.-]*:\/\//i.test(arg)) return arg;
+  let masked = arg
+    .replace(/^([^:]+:\/\/[^/@:]*:)[^/@]*@/, `$1${MASK}@`)
+    .replace(/([?&])([^=&]+)=([^&]*)/g, (m, sep, key) => SENSITIVE_PARAM_RE.test(key) ? `${sep}${key}=${MASK}` : m);
+  // RTMP(S): the last path segment of rtmp://host/app/<key> is the stream key
+  masked = masked.replace(/^(rtmps?:\/\/[^/]+\/[^?]+\/)[^/?]+/i, `$1${MASK}`);
+  return masked;
+}
+
+/** Masks credentials in URLs, plus every occurrence of the given secrets (stream keys, passphrases). */
+export function maskArgs(args: string[], secrets: string[]): string[] {
+  const known = secrets.filter(s => s && s.length >= 4);
+  return args.map(arg => known.reduce((a, secret) => a.split(secret).join(MASK), maskUrl(arg)));
+}
+
+function quoteArg(arg: string): string {
+  return /^[\w@%+=:,./*-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/** One line per option with its value (and one per bare input/output). */
+export function argLines(args: string[]): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const next = args[i + 1];
+    if (OPTION_RE.test(args[i]) && next !== undefined && !OPTION_RE.test(next)) {
+      lines.push(`${args[i]} ${quoteArg(next)}`);
+      i++;
+    } else {
+      lines.push(quoteArg(args[i]));
+    }
+  }
+  return lines;
+}
+
+/**
+ * Line diff (longest common subsequence) of two argument lists. Lines are compared unmasked
+ * (a new stream key shows as a changed line) and returned masked.
+ */
+export function diffArgs(from: string[], to: string[], secrets: string[] = []): ArgDiffLine[] {
+  const a = argLines(from);
+  const b = argLines(to);
+  const aText = argLines(maskArgs(from, secrets));
+  const bText = argLines(maskArgs(to, secrets));
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: ArgDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'same', text: bText[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ type: 'removed', text: aText[i++] });
+    } else {
+      diff.push({ type: 'added', text: bText[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ type: 'removed', text: aText[i++] });
+  while (j < b.length) diff.push({ type: 'added', text: bText[j++] });
+  return diff;
+}
+
+export function inspectSection(name: string, generated: string[] | null, running: string[] | null, secrets: string[]): CommandSection {
+  const diff = generated && running ? diffArgs(running, generated, secrets) : [];
+  return {
+    name,
+    generated: generated && maskArgs(generated, secrets),
+    running: running && maskArgs(running, secrets),
+    diff,
+    // Only meaningful while the station runs (otherwise nothing is running to differ from)
+    changed: !!generated !== !!running || diff.some(line => line.type !== 'same'),
+  };
+}
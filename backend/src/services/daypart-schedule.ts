@@ -0,0 +1,121 @@
+/** A weekly time window mapped to a playlist (schedule_slots row). */
+export interface ScheduleSlot {
+  id: string;
+  playlist_id: string | null;   // NULL = the station's default playlist
+  days: string;                 // weekdays the window starts on, '1,2,3,4,5' (0 = Sunday)
+  start_time: string;           // 'HH:MM'
+  end_time: string;             // 'HH:MM'; at or before start_time = runs past midnight
+}
+
+/** A date on which one playlist plays all day, ahead of the weekly schedule (schedule_overrides row). */
+export interface ScheduleOverride {
+  id: string;
+  playlist_id: string | null;
+  date: string;                 // 'YYYY-MM-DD' in the station's timezone
+  label: string;
+}
+
+export interface ActivePlaylist {
+  playlistId: string | null;
+  source: 'override' | 'schedule' | 'default';
+  ruleId: string | null;        // slot or override that selected it
+}
+
+/** Wall clock in the station's timezone. */
+export interface ZonedClock {
+  date: string;                 // 'YYYY-MM-DD'
+  weekday: number;              // 0 = Sunday
+  minutes: number;              // minutes since local midnight
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// One formatter per timezone — building them is far slower than formatting
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function zonedClock(timezone: string, at: Date = new Date()): ZonedClock {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone, hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit', weekday: 'short', hour: '2-digit', minute: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts = formatter.formatToParts(at);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+/** 'HH:MM' → minutes since midnight, or null. */
+export function parseTime(value: string): number | null {
+  const m = TIME_RE.exec(value || '');
+  return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+}
+
+export function parseDays(days: string): number[] {
+  return (days || '').split(',').map(Number).filter(d => Number.isInteger(d) && d >= 0 && d <= 6);
+}
+
+/**
+ * Minutes since the slot's current window started, or null when it isn't running at `clock`.
+ * A window whose end is at or before its start runs past midnight into the next day.
+ */
+function minutesIntoSlot(slot: ScheduleSlot, clock: ZonedClock): number | null {
+  const start = parseTime(slot.start_time);
+  const end = parseTime(slot.end_time);
+  if (start === null || end === null) return null;
+  const days = parseDays(slot.days);
+
+  if (end > start) {
+    return days.includes(clock.weekday) && clock.minutes >= start && clock.minutes < end ? clock.minutes - start : null;
+  }
+  if (days.includes(clock.weekday) && clock.minutes >= start) return clock.minutes - start;
+  const yesterday = (clock.weekday + 6) % 7;
+  if (days.includes(yesterday) && clock.minutes < end) return clock.minutes + 1440 - start;
+  return null;
+}
+
+/**
+ * Playlist that should be on air at `clock`: a date override first, then the weekly
+ * slot that started most recently (so a short show inside a long block wins), else the default playlist.
+ */
+export function resolveActivePlaylist(slots: ScheduleSlot[], overrides: ScheduleOverride[], clock: ZonedClock): ActivePlaylist {
+  const override = overrides.filter(o => o.date === clock.date).pop();
+  if (override) return { playlistId: override.playlist_id, source: 'override', ruleId: override.id };
+
+  let best: { slot: ScheduleSlot; since: number } | null = null;
+  for (const slot of slots) {
+    const since = minutesIntoSlot(slot, clock);
+    if (since !== null && (!best || since < best.since)) best = { slot, since };
+  }
+  if (best) return { playlistId: best.slot.playlist_id, source: 'schedule', ruleId: best.slot.id };
+  return { playlistId: null, source: 'default', ruleId: null };
+}
+
+/** Returns an error message, or null when the slot can be saved. */
+export function validateSlot(slot: { days?: any; start_time?: any; end_time?: any }): string | null {
+  if (parseDays(String(slot.days ?? '')).length === 0) return 'Pick at least one day';
+  if (parseTime(slot.start_time) === null || parseTime(slot.end_time) === null) return 'Times must be HH:MM (24h)';
+  return null;
+}
+
+export function validateOverrideDate(date: string): string | null {
+  if (!DATE_RE.test(date || '') || isNaN(new Date(`${date}T00:00:00Z`).getTime())) return 'Date must be YYYY-MM-DD';
+  return null;
+}
@@ -0,0 +1,178 @@
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { trackChild } from './process-registry';
+
+export type RelayStatus = 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'disconnected';
+
+interface RelayConfig {
+  destinationId: string;
+  name: string;
+  url: string;           // full output URL, see outputUrl()
+  muxerArgs: string[];   // protocol-specific muxer + options, see outputMuxerArgs()
+  baseDelayMs: number;   // first reconnect delay, doubled on every consecutive failure
+  maxDelayMs: number;
+  failedAfter: number;   // consecutive failures before the destination is reported as failed
+}
+
+// A connection that stayed up this long is considered healthy again (backoff starts over)
+const STABLE_CONNECTION_MS = 60_000;
+
+/** Relay command: the program from stdin, stream-copied to the destination. */
+export function relayArgs(muxerArgs: string[], url: string): string[] {
+  return [
+    '-hide_banner', '-loglevel', 'warning', '-stats',
+    '-fflags', '+genpts+discardcorrupt',
+    '-f', 'mpegts',
+    '-i', 'pipe:0',
+    '-map', '0',
+    '-c', 'copy',
+    ...muxerArgs,
+    url,
+  ];
+}
+
+/**
+ * Pushes the station's encoded program (MPEG-TS on stdin) to a single destination
+ * (FLV over RTMP/RTMPS, or MPEG-TS over SRT).
+ * Each destination gets its own FFmpeg process, so one platform refusing the
+ * connection never takes down the encoder or the other destinations.
+ */
+export class DestinationRelay extends EventEmitter {
+  private config: RelayConfig;
+  private proc: ChildProcess | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private stopped = true;
+  private failures = 0;
+  private connectedAt: number | null = null;
+  private status: RelayStatus = 'disconnected';
+  private lastError = '';
+
+  constructor(config: RelayConfig) {
+    super();
+    this.config = config;
+  }
+
+  get destinationId(): string {
+    return this.config.destinationId;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  get pid(): number | null {
+    return this.proc?.pid || null;
+  }
+
+  /** Arguments of the relay process (including the output URL with its credentials) */
+  get args(): string[] {
+    return relayArgs(this.config.muxerArgs, this.config.url);
+  }
+
+  getStatus(): { status: RelayStatus; error: string; failures: number } {
+    return { status: this.status, error: this.lastError, failures: this.failures };
+  }
+
+  start() {
+    this.stopped = false;
+    this.failures = 0;
+    this.spawnRelay();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.proc && this.proc.exitCode === null) {
+      const proc = this.proc;
+      proc.kill('SIGTERM');
+      setTimeout(() => { if (proc.exitCode === null) proc.kill('SIGKILL'); }, 3000);
+    }
+    this.proc = null;
+    this.lastError = '';
+    this.setStatus('disconnected');
+  }
+
+  /**
+   * Forward a chunk of the program stream. Chunks are dropped while the relay is
+   * down or applying backpressure — a slow destination must never stall the encoder.
+   */
+  write(chunk: Buffer) {
+    const stdin = this.proc?.stdin;
+    if (!stdin || !stdin.writable || stdin.writableNeedDrain) return;
+    stdin.write(chunk);
+  }
+
+  private spawnRelay() {
+    if (this.stopped) return;
+
+    const args = relayArgs(this.config.muxerArgs, this.config.url);
+
+    this.setStatus(this.failures === 0 ? 'connecting' : this.failures >= this.config.failedAfter ? 'failed' : 'reconnecting');
+
+    const proc = spawn('ffmpeg', args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    trackChild(proc);
+    this.proc = proc;
+    this.connectedAt = null;
+
+    // Relay died mid-write — the close handler takes care of reconnecting
+    proc.stdin?.on('error', () => {});
+
+    proc.stderr?.on('data', (data: Buffer) => {
+      for (const raw of data.toString().split(/[\r\n]+/)) {
+        const line = raw.trim();
+        if (!line) continue;
+        if (/^(frame|size)=/.test(line)) {
+          // First progress line means the handshake succeeded and packets are flowing
+          if (this.connectedAt === null) {
+            this.connectedAt = Date.now();
+            this.lastError = '';
+            this.setStatus('connected');
+            this.emit('log', 'info', `Connected to ${this.config.name}`);
+          }
+          continue;
+        }
+        this.lastError = line.slice(0, 500);
+        if (/error|failed|refused|denied|timed out|broken pipe/i.test(line)) {
+          this.emit('log', 'warn', `${this.config.name}: ${line}`);
+        }
+      }
+    });
+
+    proc.on('close', (code) => {
+      if (this.proc !== proc) return;  // replaced or stopped
+      this.proc = null;
+      if (this.stopped) return;
+
+      if (this.connectedAt !== null && Date.now() - this.connectedAt >= STABLE_CONNECTION_MS) {
+        this.failures = 0;
+      }
+      this.failures++;
+      if (!this.lastError) this.lastError = `Relay exited with code ${code}`;
+
+      const delay = Math.min(this.config.baseDelayMs * Math.pow(2, this.failures - 1), this.config.maxDelayMs);
+      const failed = this.failures >= this.config.failedAfter;
+      this.setStatus(failed ? 'failed' : 'reconnecting', true);
+      this.emit('log', failed ? 'error' : 'warn',
+        `${this.config.name} disconnected (${this.lastError}) — retry ${this.failures} in ${Math.round(delay / 1000)}s`);
+
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.spawnRelay();
+      }, delay);
+    });
+
+    proc.on('error', (err) => {
+      this.lastError = err.message;
+      this.emit('log', 'error', `${this.config.name}: relay process error: ${err.message}`);
+    });
+  }
+
+  private setStatus(status: RelayStatus, force = false) {
+    if (status === this.status && !force) return;
+    this.status = status;
+    this.emit('status', status, this.lastError);
+  }
+}
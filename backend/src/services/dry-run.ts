@@ -0,0 +1,40 @@
+import path from 'path';
+import { OutputProtocol, outputMuxerArgs } from './output-protocol';
+
+/**
+ * Dry run: the whole pipeline runs (feeder, encoder, profile encodes, one relay per destination),
+ * but every relay writes to a local sink instead of its platform. Relays report status, logs
+ * and metrics exactly as on a real run, so a configuration can be checked without going live.
+ * The program archive is not recorded (it holds only what actually went on air).
+ */
+
+export interface DryRunOptions {
+  capture: boolean;          // keep the last minutes of each destination's output instead of discarding it
+}
+
+export interface DryRunInfo extends DryRunOptions {
+  startedAt: string;
+  captures: string[];        // capture files written so far (see DRY_RUN_CAPTURE_RE)
+}
+
+// Capture mode: each destination writes DRY_RUN_CAPTURE_SEC segments into a ring of two files
+export const DRY_RUN_CAPTURE_SEC = 30;
+export const DRY_RUN_CAPTURE_RE = /^[\w-]+-[01]\.ts$/;
+
+/**
+ * URL + muxer for a destination's relay in a dry run. Discarding keeps the destination's own
+ * muxer (FLV for RTMP, MPEG-TS for SRT) and writes to the null device; capturing writes
+ * playable MPEG-TS segments of the stream the destination would have received.
+ */
+export function dryRunSink(protocol: OutputProtocol, destinationId: string, captureDir: string | null): { url: string; muxerArgs: string[] } {
+  if (!captureDir) {
+    return { url: '/dev/null', muxerArgs: outputMuxerArgs(protocol) };
+  }
+  return {
+    url: path.join(captureDir, `${destinationId}-%d.ts`),
+    muxerArgs: [
+      '-f', 'segment', '-segment_format', 'mpegts', '-segment_time', String(DRY_RUN_CAPTURE_SEC),
+      '-segment_wrap', '2', '-reset_timestamps', '1',
+    ],
+  };
+}
@@ -0,0 +1,115 @@
+export type ProfileFit = 'pad' | 'crop';
+
+export const X264_PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow'];
+
+/** How a destination's stream is encoded. */
+export interface EncodingProfile {
+  width: number;
+  height: number;
+  fps: number;
+  bitrate: string;       // e.g. '4000k'
+  keyintSec: number;     // keyframe interval
+  preset: string;        // x264 preset
+  audioBitrate: string;
+  fit: ProfileFit;       // other aspect ratio than the program: letterbox (pad) or fill (crop)
+}
+
+// Columns of rtmp_destinations that override the station's settings (NULL = inherit)
+export const PROFILE_COLUMNS = [
+  'profile_width', 'profile_height', 'profile_fps', 'profile_bitrate',
+  'profile_keyint_sec', 'profile_preset', 'profile_audio_bitrate', 'profile_fit',
+];
+
+// The program encode (main encoder / playout renditions) always uses 2s GOPs and veryfast
+const PROGRAM_KEYINT_SEC = 2;
+const PROGRAM_PRESET = 'veryfast';
+
+/** The program stream as the main encoder produces it from the station settings. */
+export function programProfile(station: any): EncodingProfile {
+  return {
+    width: station.video_width,
+    height: station.video_height,
+    fps: station.video_fps,
+    bitrate: station.video_bitrate,
+    keyintSec: PROGRAM_KEYINT_SEC,
+    preset: PROGRAM_PRESET,
+    audioBitrate: station.audio_bitrate,
+    fit: 'pad',
+  };
+}
+
+/** A destination's profile: its overrides on top of the program profile. */
+export function destinationProfile(station: any, dest: any): EncodingProfile {
+  const program = programProfile(station);
+  const width = dest.profile_width || program.width;
+  const height = dest.profile_height || program.height;
+  // Fit only matters when the aspect ratio differs from the program
+  const sameAspect = width * program.height === height * program.width;
+  return {
+    width,
+    height,
+    fps: dest.profile_fps || program.fps,
+    bitrate: dest.profile_bitrate || program.bitrate,
+    keyintSec: dest.profile_keyint_sec || program.keyintSec,
+    preset: dest.profile_preset || program.preset,
+    audioBitrate: dest.profile_audio_bitrate || program.audioBitrate,
+    fit: sameAspect ? program.fit : (dest.profile_fit === 'pad' ? 'pad' : 'crop'),
+  };
+}
+
+/** Destinations with equal keys share one encode. */
+export function profileKey(p: EncodingProfile): string {
+  return `${p.width}x${p.height}@${p.fps}:${p.bitrate}:g${p.keyintSec}:${p.preset}:a${p.audioBitrate}:${p.fit}`;
+}
+
+export function profileLabel(p: EncodingProfile): string {
+  return `${p.width}x${p.height} ${p.fps}fps ${p.bitrate}${p.fit === 'crop' ? ' (crop)' : ''}`;
+}
+
+/** Returns an error message for invalid override values, or null. NULL/'' means inherit. */
+export function validateProfileOverrides(values: Record<string, any>): string | null {
+  const set = (key: string) => values[key] !== undefined && values[key] !== null && values[key] !== '';
+  for (const key of ['profile_width', 'profile_height']) {
+    if (set(key) && (!Number.isInteger(Number(values[key])) || values[key] < 16 || values[key] > 4096 || values[key] % 2 !== 0)) {
+      return 'Resolution must be an even number of pixels (16-4096)';
+    }
+  }
+  if (set('profile_width') !== set('profile_height')) return 'Set both width and height, or neither';
+  if (set('profile_fps') && (!Number.isInteger(Number(values.profile_fps)) || values.profile_fps < 1 || values.profile_fps > 60)) {
+    return 'FPS must be 1-60';
+  }
+  if (set('profile_keyint_sec') && (values.profile_keyint_sec < 1 || values.profile_keyint_sec > 10)) {
+    return 'Keyframe interval must be 1-10 seconds';
+  }
+  for (const key of ['profile_bitrate', 'profile_audio_bitrate']) {
+    if (set(key) && !/^\d+k$/.test(String(values[key]))) return 'Bitrates must look like 2500k';
+  }
+  if (set('profile_preset') && !X264_PRESETS.includes(values.profile_preset)) {
+    return `Preset must be one of ${X264_PRESETS.join(', ')}`;
+  }
+  if (set('profile_fit') && !['pad', 'crop'].includes(values.profile_fit)) return 'Fit must be pad or crop';
+  return null;
+}
+
+/** FFmpeg args that re-encode the program (MPEG-TS on stdin) to the profile (MPEG-TS on stdout). */
+export function profileEncodeArgs(p: EncodingProfile): string[] {
+  const fit = p.fit === 'crop'
+    ? `scale=${p.width}:${p.height}:force_original_aspect_ratio=increase,crop=${p.width}:${p.height}`
+    : `scale=${p.width}:${p.height}:force_original_aspect_ratio=decrease,pad=${p.width}:${p.height}:(ow-iw)/2:(oh-ih)/2`;
+  const gop = String(p.fps * p.keyintSec);
+  return [
+    '-hide_banner', '-loglevel', 'warning',
+    '-fflags', '+genpts+discardcorrupt',
+    '-f', 'mpegts',
+    '-i', 'pipe:0',
+    '-map', '0:v', '-map', '0:a?',
+    '-vf', `fps=${p.fps},${fit},setsar=1`,
+    '-c:v', 'libx264', '-preset', p.preset, '-tune', 'zerolatency',
+    '-b:v', p.bitrate, '-maxrate', p.bitrate, '-bufsize', `${parseInt(p.bitrate) * 2}k`,
+    '-g', gop, '-keyint_min', gop, '-sc_threshold', '0',
+    '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac', '-b:a', p.audioBitrate, '-ar', '44100',
+    '-f', 'mpegts', '-muxdelay', '0', '-muxpreload', '0',
+    'pipe:1',
+  ];
+}
@@ -0,0 +1,68 @@
+/**
+ * Parser for FFmpeg's periodic stderr progress line:
+ *   frame= 1234 fps= 30 q=28.0 size=   12345kB time=00:00:41.13 bitrate=2458.1kbits/s dup=0 drop=3 speed=1.00x
+ */
+
+export interface EncoderMetrics {
+  frame: number;
+  fps: number;
+  bitrateKbps: number | null;  // output bitrate; null while FFmpeg reports N/A
+  speed: number | null;        // 1.0 = real time
+  dropFrames: number;
+  dupFrames: number;
+  totalBytes: number;          // bytes written to the output so far
+  outTimeSec: number;
+  updatedAt: string;
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024, kib: 1024,
+  mb: 1024 * 1024, mib: 1024 * 1024,
+  gb: 1024 * 1024 * 1024, gib: 1024 * 1024 * 1024,
+};
+
+export function isProgressLine(line: string): boolean {
+  return /^\s*(frame|size)=/.test(line) && /time=/.test(line);
+}
+
+/** Parse one progress line; returns null for anything that isn't one. */
+export function parseProgressLine(line: string): EncoderMetrics | null {
+  if (!isProgressLine(line)) return null;
+
+  // Values may be padded ("fps= 30") so collapse "key=  value" first
+  const fields: Record<string, string> = {};
+  for (const m of line.replace(/=\s+/g, '=').matchAll(/(\w+)=(\S+)/g)) {
+    fields[m[1]] = m[2];
+  }
+
+  const num = (v: string | undefined): number | null => {
+    if (!v || v === 'N/A') return null;
+    const n = parseFloat(v);
+    return isFinite(n) ? n : null;
+  };
+
+  let totalBytes = 0;
+  const sizeMatch = (fields.size || fields.Lsize || '').match(/^([\d.]+)([a-zA-Z]*)$/);
+  if (sizeMatch) {
+    totalBytes = Math.round(parseFloat(sizeMatch[1]) * (SIZE_UNITS[sizeMatch[2].toLowerCase()] || 1));
+  }
+
+  let outTimeSec = 0;
+  const timeMatch = (fields.time || '').match(/^(-?\d+):(\d+):([\d.]+)$/);
+  if (timeMatch) {
+    outTimeSec = Math.max(0, parseInt(timeMatch[1]) * 3600 + parseInt(timeMatch[2]) * 60 + parseFloat(timeMatch[3]));
+  }
+
+  return {
+    frame: num(fields.frame) ?? 0,
+    fps: num(fields.fps) ?? 0,
+    bitrateKbps: num((fields.bitrate || '').replace(/kbits\/s$/, '')),
+    speed: num((fields.speed || '').replace(/x$/, '')),
+    dropFrames: num(fields.drop) ?? 0,
+    dupFrames: num(fields.dup) ?? 0,
+    totalBytes,
+    outTimeSec,
+    updatedAt: new Date().toISOString(),
+  };
+}
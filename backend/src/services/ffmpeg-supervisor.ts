@@ -1,69 +1,283 @@
 import { ChildProcess, spawn, execSync } from 'child_process';
 import { EventEmitter } from 'events';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { getDb } from '../db/schema';
 import { NowPlayingService } from './now-playing';
+import { runAudioHealthChecks } from './health-check';
+import { DestinationRelay, RelayStatus, relayArgs } from './destination-relay';
+import { HLS_PLAYLIST, HlsMonitor } from './hls-monitor';
+import { ArchiveFormat, ArchiveRecorder, pruneArchive } from './archive-recorder';
+import { normalizeTarget, outputMuxerArgs, outputUrl } from './output-protocol';
+import { destinationProfile, EncodingProfile, profileKey, programProfile } from './encoding-profile';
+import { ProfileEncoder } from './profile-encoder';
+import { EncoderMetrics, isProgressLine, parseProgressLine } from './ffmpeg-progress';
+import { OnAirItem, PlayoutEngine, transcodeArgs } from './playout-engine';
+import { visualizerBackgroundArgs, visualizerGraph } from './visualizer';
+import { renditionProfile } from './rendition-transcoder';
+import { trackChild } from './process-registry';
+import { RestartPolicy, RestartPolicySnapshot, restartPolicyConfig } from './restart-policy';
+import { ActivePlaylist, resolveActivePlaylist, zonedClock } from './daypart-schedule';
+import { parseSilenceLine, SilenceEvent, silenceDetectFilter } from './silence-detect';
+import { EBUR128_FILTER, LoudnessReading, loudnormFilter, parseLoudnessLine } from './loudness';
+import { ProcessSampler, ResourceSample } from './process-stats';
+import { CapacityReport, estimateStationCost, getCapacitySettings, hostBudgetPercent, StationLoad } from './capacity';
+import { CommandInspection, CommandSection, inspectSection, maskArgs } from './command-inspect';
+import { DRY_RUN_CAPTURE_RE, DRY_RUN_CAPTURE_SEC, DryRunInfo, DryRunOptions, dryRunSink } from './dry-run';
 
 interface StationProcess {
   ffmpeg: ChildProcess | null;
-  feeder: ChildProcess | null;  // Video feeder process (bash loop)
+  playout: PlayoutEngine | null;  // Feeds playlist items into the encoder's stdin
   status: 'stopped' | 'starting' | 'running' | 'restarting' | 'error';
-  restartCount: number;
   lastError: string;
   startedAt: Date | null;
   pid: number | null;
+  activeSourceId: string | null;  // audio_sources row currently fed to the encoder
+  audioFallback: boolean;         // every source down: looping the station's local fallback audio instead
+  expectedExit: boolean;          // set when the supervisor kills the pipeline on purpose (e.g. source switch)
+  relays: DestinationRelay[];     // one output process per RTMP destination, fed from the encoder's stdout
+  encodes: ProfileEncoder[];      // one extra encode per distinct destination profile; feeds its destinations' relays
+  hls: HlsMonitor | null;         // local HLS monitor output (stations.hls_enabled), fed from the same stdout
+  archive: ArchiveRecorder | null; // segmented program recording (stations.archive_enabled), fed from the same stdout
+  daypart: DaypartPlaylist | null; // playlist the daypart schedule put on air
+  metrics: EncoderMetrics | null; // latest parsed progress line of the encoder
+  loudness: LoudnessReading | null; // latest EBU R128 reading of the program audio
+  resources: ResourceSample | null; // latest CPU / memory sample of the station's processes
+  outputBytes: number;            // bytes the encoder has written to stdout
+  lastOutputAt: number;           // ms timestamp of the last stdout chunk (watchdog)
+  lastProgressAt: number;         // ms timestamp of the last progress line that advanced
+}
+
+export interface DaypartPlaylist extends ActivePlaylist {
+  name: string;
+}
+
+export interface StationRuntime {
+  status: StationProcess['status'];
+  pid: number | null;
+  restartCount: number;
+  restartPolicy: RestartPolicySnapshot;
+  uptime: number | null;
+  lastError: string;
+  activeSourceId: string | null;
+  audioFallback: boolean;
+  dryRun: DryRunInfo | null;    // destinations replaced by local sinks (services/dry-run.ts)
+  destinations: { destinationId: string; status: RelayStatus; error: string; failures: number }[];
+  encodes: { key: string; label: string; destinationIds: string[]; pid: number | null }[];
+  metrics: EncoderMetrics | null;
+  loudness: LoudnessReading | null;
+  resources: ResourceSample | null;
+  onAir: OnAirItem | null;
+  outputBytes: number;
+  lastOutputAt: string | null;
+  hlsActive: boolean;
+  recording: boolean;
+  activePlaylist: DaypartPlaylist | null;
+  silentSince: string | null;   // dead air on the audio input since (silence detection)
+}
+
+export interface SilenceInfo {
+  state: 'silent' | 'recovered';
+  sourceId: string | null;
+  sourceName: string;
+  silentForSec: number;
+  message: string;
 }
 
+// Encoder metrics: one sample every METRICS_INTERVAL_MS goes to SSE and the sparkline history
+const METRICS_INTERVAL_MS = 2000;
+const METRICS_HISTORY_SIZE = 90;
+// ebur128 reads every 100 ms; the loudness meter is updated this often
+const LOUDNESS_INTERVAL_MS = 1000;
+
+// Per-station CPU / memory samples, taken on the watchdog tick
+const RESOURCE_HISTORY_SIZE = 120;   // 10 minutes at WATCHDOG_INTERVAL_MS
+
+// Admission control (services/capacity.ts)
+const MEASURED_COST_SAMPLES = 12;    // a running station's cost = its average CPU over the last minute
+const PRESSURE_TICKS = 6;            // stations over budget for 30 s = shed the lowest-priority one
+
+// Audio failover tuning
+const SOURCE_CHECK_INTERVAL_MS = 15000;   // how often all enabled sources are probed while running
+const SOURCE_ERROR_WINDOW_MS = 30000;     // encoder input errors are counted within this window...
+const SOURCE_ERROR_THRESHOLD = 3;         // ...and this many of them mark the active source as failed
+const SOURCE_RECOVERY_CHECKS = 2;         // consecutive healthy checks before switching back to a higher-priority source
+const SILENT_SOURCE_HOLD_MS = 10 * 60 * 1000;   // a source that went silent is not switched back to for this long
+
+// Encoder stderr lines that point at the network audio input (the video input is a local pipe)
+const AUDIO_INPUT_ERROR_RE = /^\[(https?|tcp|tls) @|Will reconnect at|Input\/output error|Connection timed out|Server returned [45]\d\d/i;
+
+// Desired-state reconciliation: how often actual process state is compared with stations.desired_state
+const RECONCILE_INTERVAL_MS = 30000;
+const RECONCILE_START_GAP_MS = 2000;   // stagger starts so a full restart doesn't spike CPU
+
+// Stall watchdog: a live encoder with no output for stations.stall_timeout_sec gets relaunched
+const WATCHDOG_INTERVAL_MS = 5000;
+
+// Archive retention (age / total size) is enforced this often, for running and stopped stations
+const ARCHIVE_PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+// Daypart schedules are evaluated this often, so playlists switch within this long of a boundary
+const SCHEDULE_CHECK_INTERVAL_MS = 15000;
+
+// Per-destination reconnect backoff
+const RELAY_BASE_DELAY_MS = 2000;
+const RELAY_MAX_DELAY_MS = 60000;
+const RELAY_FAILED_AFTER = 5;   // consecutive failures before a destination shows as failed
+
 export class FFmpegSupervisor extends EventEmitter {
   private processes: Map<string, StationProcess> = new Map();
   private nowPlayingServices: Map<string, NowPlayingService> = new Map();
   private restartTimers: Map<string, NodeJS.Timeout> = new Map();
+  private restartPolicies: Map<string, RestartPolicy> = new Map();
+  private sourceMonitors: Map<string, NodeJS.Timeout> = new Map();
+  private sourceErrors: Map<string, number[]> = new Map();
+  private recoveryStreaks: Map<string, number> = new Map();
+  private sourceChecksInFlight: Set<string> = new Set();
+  private silences: Map<string, { since: number; sourceId: string | null; recoveryTimer: NodeJS.Timeout | null }> = new Map();
+  private silentSources: Map<string, number> = new Map();   // source id → when it went silent
+  private relaunching: Set<string> = new Set();   // stations whose pipeline is being killed + relaunched on purpose
+  private watchdogTimer: NodeJS.Timeout;
+  private archivePruneTimer: NodeJS.Timeout;
+  private scheduleTimer: NodeJS.Timeout;
+  private metricsHistory: Map<string, EncoderMetrics[]> = new Map();
+  private lastMetricsEmit: Map<string, number> = new Map();
+  private lastLoudnessEmit: Map<string, number> = new Map();
+  private resourceSamplers: Map<string, ProcessSampler> = new Map();
+  private resourceHistory: Map<string, ResourceSample[]> = new Map();
+  private dryRuns: Map<string, DryRunOptions & { startedAt: Date }> = new Map();   // kept across relaunches until stopStation
+  private pressureTicks = 0;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private reconciling = false;
   private dataDir: string;
 
   constructor(dataDir: string) {
     super();
     this.dataDir = dataDir;
+    this.watchdogTimer = setInterval(() => {
+      this.checkStalls();
+      this.checkStability();
+      this.sampleResources();
+    }, WATCHDOG_INTERVAL_MS);
+    this.archivePruneTimer = setInterval(() => this.pruneArchives(), ARCHIVE_PRUNE_INTERVAL_MS);
+    this.scheduleTimer = setInterval(() => this.checkSchedules(), SCHEDULE_CHECK_INTERVAL_MS);
   }
 
   getStationStatus(stationId: string): StationProcess {
     return this.processes.get(stationId) || {
       ffmpeg: null,
-      feeder: null,
+      playout: null,
       status: 'stopped',
-      restartCount: 0,
       lastError: '',
       startedAt: null,
       pid: null,
+      activeSourceId: null,
+      audioFallback: false,
+      expectedExit: false,
+      relays: [],
+      encodes: [],
+      hls: null,
+      archive: null,
+      daypart: null,
+      metrics: null,
+      loudness: null,
+      resources: null,
+      outputBytes: 0,
+      lastOutputAt: 0,
+      lastProgressAt: 0,
     };
   }
 
-  getAllStatuses(): Record<string, { status: string; pid: number | null; restartCount: number; uptime: number | null }> {
-    const result: Record<string, any> = {};
-    for (const [id, proc] of this.processes) {
-      result[id] = {
-        status: proc.status,
-        pid: proc.pid,
-        restartCount: proc.restartCount,
-        uptime: proc.startedAt ? Math.floor((Date.now() - proc.startedAt.getTime()) / 1000) : null,
-      };
+  /** Serializable runtime snapshot for the API (no process handles). */
+  getRuntime(stationId: string): StationRuntime {
+    const proc = this.getStationStatus(stationId);
+    return {
+      status: proc.status,
+      pid: proc.pid,
+      restartCount: this.restartPolicies.get(stationId)?.restarts || 0,
+      restartPolicy: this.restartPolicies.get(stationId)?.snapshot()
+        || { breaker: 'closed', restartCount: 0, recentFailures: 0, nextAttemptAt: null },
+      uptime: proc.startedAt ? Math.floor((Date.now() - proc.startedAt.getTime()) / 1000) : null,
+      lastError: proc.lastError,
+      activeSourceId: proc.activeSourceId,
+      audioFallback: proc.status !== 'stopped' && proc.audioFallback,
+      dryRun: proc.status === 'stopped' ? null : this.getDryRun(stationId),
+      destinations: proc.relays.map(r => ({ destinationId: r.destinationId, ...r.getStatus() })),
+      encodes: proc.encodes.map(e => ({ key: e.key, label: e.label, destinationIds: e.destinationIds, pid: e.pid })),
+      metrics: proc.status === 'stopped' ? null : proc.metrics,
+      loudness: proc.status === 'stopped' ? null : proc.loudness,
+      resources: proc.status === 'stopped' ? null : proc.resources,
+      onAir: proc.playout?.getOnAir() || null,
+      outputBytes: proc.outputBytes,
+      lastOutputAt: proc.lastOutputAt ? new Date(proc.lastOutputAt).toISOString() : null,
+      hlsActive: !!proc.hls,
+      recording: !!proc.archive,
+      activePlaylist: proc.status === 'stopped' ? null : proc.daypart,
+      silentSince: this.silences.has(stationId) ? new Date(this.silences.get(stationId)!.since).toISOString() : null,
+    };
+  }
+
+  /** Recent encoder metric samples (oldest first) for sparklines. */
+  getMetricsHistory(stationId: string): EncoderMetrics[] {
+    return this.metricsHistory.get(stationId) || [];
+  }
+
+  /** Recent resource samples (oldest first). */
+  getResourceHistory(stationId: string): ResourceSample[] {
+    return this.resourceHistory.get(stationId) || [];
+  }
+
+  getAllStatuses(): Record<string, StationRuntime> {
+    const result: Record<string, StationRuntime> = {};
+    for (const id of this.processes.keys()) {
+      result[id] = this.getRuntime(id);
     }
     return result;
   }
 
-  async startStation(stationId: string): Promise<void> {
+  /**
+   * Start a station; admission control may refuse it (throws) unless it is a restart of one already admitted.
+   * A dry run sends every destination to a local sink and leaves desired_state alone, so the
+   * reconciler never brings it back as a real run.
+   */
+  async startStation(stationId: string, options: { admitted?: boolean; dryRun?: DryRunOptions } = {}): Promise<void> {
     const existing = this.processes.get(stationId);
     if (existing && (existing.status === 'running' || existing.status === 'starting')) {
+      // Switching between a dry run and a real run needs a stop first
+      if (this.dryRuns.has(stationId) && !options.dryRun) throw new Error('Station is in a dry run — stop it before going live');
+      if (!this.dryRuns.has(stationId) && options.dryRun) throw new Error('Station is already live');
       return;
     }
+    // Pipeline is being relaunched on purpose (stall, source switch) — it comes back by itself
+    if (this.relaunching.has(stationId)) return;
 
     const db = getDb();
     const station = db.prepare('SELECT * FROM stations WHERE id = ?').get(stationId) as any;
     if (!station) throw new Error(`Station ${stationId} not found`);
+    if (!options.admitted) await this.admitStation(station);
+
+    // This start replaces a pending auto-restart (status 'error', e.g. during a breaker cooldown);
+    // left armed, the timer would launch a second pipeline on top of this one
+    const pending = this.restartTimers.get(stationId);
+    if (pending) {
+      clearTimeout(pending);
+      this.restartTimers.delete(stationId);
+    }
 
     const stationDir = path.join(this.dataDir, 'stations', station.slug);
     fs.mkdirSync(stationDir, { recursive: true });
 
+    if (options.dryRun) {
+      this.dryRuns.set(stationId, { ...options.dryRun, startedAt: new Date() });
+      // Captures of the previous dry run are replaced
+      fs.rmSync(this.dryRunDir(station.slug), { recursive: true, force: true });
+      if (options.dryRun.capture) fs.mkdirSync(this.dryRunDir(station.slug), { recursive: true });
+    } else {
+      this.dryRuns.delete(stationId);
+      this.setDesiredState(stationId, 'running');
+    }
+
     // Build concat playlist file
     this.writeConcatPlaylist(stationId, station.slug);
 
@@ -71,20 +285,22 @@ export class FFmpegSupervisor extends EventEmitter {
     this.startNowPlaying(stationId, station);
 
     // Build and launch FFmpeg
-    this.launchFFmpeg(stationId, station, stationDir);
+    this.launchFFmpeg(stationId, station, stationDir).catch((err) => {
+      this.emit('log', stationId, 'error', 'app', `Launch failed: ${err.message}`);
+      this.setProcessStatus(stationId, 'error', err.message);
+    });
+
+    // Watch audio sources for runtime failover
+    this.startSourceMonitor(stationId);
   }
 
   async stopStation(stationId: string): Promise<void> {
+    this.setDesiredState(stationId, 'stopped');
     const proc = this.processes.get(stationId);
     if (proc) {
       proc.status = 'stopped';
-      // Kill feeder first
-      if (proc.feeder && !proc.feeder.killed) {
-        proc.feeder.kill('SIGTERM');
-        setTimeout(() => {
-          if (proc.feeder && !proc.feeder.killed) proc.feeder.kill('SIGKILL');
-        }, 3000);
-      }
+      // Stop feeding first
+      proc.playout?.stop();
       // Kill FFmpeg
       if (proc.ffmpeg && !proc.ffmpeg.killed) {
         proc.ffmpeg.kill('SIGTERM');
@@ -92,6 +308,7 @@ export class FFmpegSupervisor extends EventEmitter {
           if (proc.ffmpeg && !proc.ffmpeg.killed) proc.ffmpeg.kill('SIGKILL');
         }, 5000);
       }
+      this.stopOutputs(proc);
     }
 
     // Stop now playing
@@ -101,12 +318,23 @@ export class FFmpegSupervisor extends EventEmitter {
       this.nowPlayingServices.delete(stationId);
     }
 
-    // Clear restart timer
+    // Clear restart timer; a manual stop also forgets the failure history
     const timer = this.restartTimers.get(stationId);
     if (timer) {
       clearTimeout(timer);
       this.restartTimers.delete(stationId);
     }
+    this.restartPolicies.delete(stationId);
+
+    this.stopSourceMonitor(stationId);
+    if (proc) proc.activeSourceId = null;
+    this.metricsHistory.delete(stationId);
+    this.lastMetricsEmit.delete(stationId);
+    this.lastLoudnessEmit.delete(stationId);
+    this.recordCalibration(stationId);
+    this.resourceSamplers.delete(stationId);
+    this.resourceHistory.delete(stationId);
+    this.dryRuns.delete(stationId);
 
     this.updateDbStatus(stationId, 'stopped');
     this.emit('status', stationId, 'stopped');
@@ -115,12 +343,14 @@ export class FFmpegSupervisor extends EventEmitter {
   async restartStation(stationId: string): Promise<void> {
     this.emit('status', stationId, 'restarting');
     this.emit('log', stationId, 'info', 'app', 'Restarting station...');
+    // A station that was on air keeps its place — admission only applies to stations coming on air
+    const admitted = (this.processes.get(stationId)?.status || 'stopped') !== 'stopped';
+    // ...and a dry run stays a dry run
+    const dryRun = this.dryRuns.get(stationId);
     await this.stopStation(stationId);
     // Small delay to let FFmpeg die
     await new Promise(r => setTimeout(r, 1500));
-    const proc = this.processes.get(stationId);
-    if (proc) proc.restartCount = 0;
-    await this.startStation(stationId);
+    await this.startStation(stationId, { admitted, dryRun: dryRun && { capture: dryRun.capture } });
   }
 
   writeConcatPlaylist(stationId: string, slug?: string): void {
@@ -139,30 +369,16 @@ export class FFmpegSupervisor extends EventEmitter {
 
     const uploadsDir = path.join(__dirname, '..', '..', 'uploads', stationId);
 
-    // Calculate how many repeats needed for 24h of content
-    const totalDurationSec = items.reduce((sum: number, i: any) => sum + (i.duration_sec || 300), 0);
-    const hoursTarget = 24;
-    const repeats = Math.max(2, Math.ceil((hoursTarget * 3600) / totalDurationSec));
-
-    // Write file list (one file path per line, used by feeder script)
-    const fileList = items.map(i => path.join(uploadsDir, i.filename));
-    const fileListPath = path.join(stationDir, 'filelist.txt');
-    const tempPath = fileListPath + '.tmp';
-    fs.writeFileSync(tempPath, fileList.join('\n') + '\n');
-    fs.renameSync(tempPath, fileListPath);
-
-    // Also write repeats count
-    const repeatsPath = path.join(stationDir, 'repeats.txt');
-    fs.writeFileSync(repeatsPath, String(repeats));
-
-    // Still write concat playlist for preview generation
+    // Concat playlist is only used for preview generation — the playout engine
+    // reads playlist_items directly at every item boundary
     const lines = items.map(i => `file '${path.join(uploadsDir, i.filename)}'`);
     const playlistPath = path.join(stationDir, 'playlist.txt');
     const pTmp = playlistPath + '.tmp';
     fs.writeFileSync(pTmp, lines.join('\n') + '\n');
     fs.renameSync(pTmp, playlistPath);
 
-    this.emit('log', stationId, 'info', 'app', `Playlist updated: ${items.length} items × ${repeats} repeats (${Math.round(totalDurationSec * repeats / 3600)}h)`);
+    const totalDurationSec = items.reduce((sum: number, i: any) => sum + (i.duration_sec || 0), 0);
+    this.emit('log', stationId, 'info', 'app', `Playlist updated: ${items.length} items (${Math.round(totalDurationSec / 60)} min per cycle)`);
   }
 
   private startNowPlaying(stationId: string, station: any): void {
@@ -203,17 +419,20 @@ export class FFmpegSupervisor extends EventEmitter {
   private async launchFFmpeg(stationId: string, station: any, stationDir: string): Promise<void> {
     const db = getDb();
 
-    // Get active audio source (highest priority enabled source)
-    const audioSource = db.prepare(
-      'SELECT url FROM audio_sources WHERE station_id = ? AND is_enabled = 1 ORDER BY priority ASC LIMIT 1'
-    ).get(stationId) as any;
+    // Keep the source chosen by failover; otherwise pick the best enabled source by priority
+    const audioSource = this.resolveAudioSource(stationId, this.processes.get(stationId)?.activeSourceId || null);
+    // With every source down, loop the station's local fallback audio instead (when it has any)
+    const fallbackList = !audioSource || audioSource.status === 'unreachable'
+      ? this.writeFallbackAudioList(stationId, station, stationDir)
+      : null;
+    const audioName = fallbackList ? 'local fallback audio' : audioSource?.name;
 
     // Get RTMP destinations
     const destinations = db.prepare(
-      'SELECT rtmp_url, stream_key FROM rtmp_destinations WHERE station_id = ? AND is_enabled = 1'
+      'SELECT * FROM rtmp_destinations WHERE station_id = ? AND is_enabled = 1'
     ).all(stationId) as any[];
 
-    if (!audioSource) {
+    if (!audioSource && !fallbackList) {
       this.emit('log', stationId, 'error', 'app', 'No enabled audio source found');
       this.setProcessStatus(stationId, 'error', 'No audio source');
       return;
@@ -225,19 +444,221 @@ export class FFmpegSupervisor extends EventEmitter {
       return;
     }
 
-    const fileListPath = path.join(stationDir, 'filelist.txt');
-    const repeatsPath = path.join(stationDir, 'repeats.txt');
+    // Visualizer mode draws the picture from the audio — no playlist needed
+    const visualizer = station.video_mode === 'visualizer';
+    const itemCount = (db.prepare(
+      'SELECT COUNT(*) as c FROM playlist_items WHERE station_id = ? AND is_enabled = 1'
+    ).get(stationId) as any).c;
+    if (itemCount === 0 && !visualizer) {
+      if (!station.slate_enabled) {
+        this.emit('log', stationId, 'error', 'app', 'Playlist has no enabled items');
+        this.setProcessStatus(stationId, 'error', 'No playlist');
+        return;
+      }
+      this.emit('log', stationId, 'warn', 'app', 'Playlist has no enabled items — starting on the fallback slate');
+    }
+
+    const hasDrawtext = await this.checkDrawtextSupport();
+    const { args } = await this.buildEncoderArgs(stationId, station, stationDir,
+      fallbackList ? { url: fallbackList, fallback: true } : { url: audioSource!.url, fallback: false });
+
+    const mode = visualizer ? `visualizer: ${station.visualizer_style}` : 'pipe-feeder mode';
+    const dryRun = this.dryRuns.get(stationId);
+    const captureDir = dryRun?.capture ? this.dryRunDir(station.slug) : null;
+    this.emit('log', stationId, 'info', 'app', `Launching FFmpeg (${mode}) with ${destinations.length} destination(s), audio source "${audioName}"`);
+    if (dryRun) {
+      this.emit('log', stationId, 'warn', 'app', `DRY RUN — destinations replaced by local sinks (${captureDir ? `capturing the last ${2 * DRY_RUN_CAPTURE_SEC}s of each` : 'output discarded'})${station.archive_enabled ? ', program archive not recorded' : ''}`);
+    }
+    console.log(`[FFMPEG] Launching ${visualizer ? 'visualizer' : 'pipe-feeder'} for station=${stationId}`);
+    this.setProcessStatus(stationId, 'starting', '');
+
+    // 1) Start the main FFmpeg encoder (reads MPEGTS from stdin)
+    const ffmpeg = spawn('ffmpeg', args, {
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    // 2) Playout engine feeds it one playlist item after another, forever (not in visualizer mode)
+    const daypart = this.resolvePlaylist(stationId);
+    const playout = visualizer ? null : new PlayoutEngine({
+      stationId,
+      uploadsDir: path.join(__dirname, '..', '..', 'uploads', stationId),
+      width: station.video_width,
+      height: station.video_height,
+      fps: station.video_fps,
+      bitrate: station.video_bitrate,
+      profile: renditionProfile(station),
+      playlistId: daypart.playlistId,
+      drawtext: hasDrawtext,
+    });
+
+    trackChild(ffmpeg);
+
+    const proc: StationProcess = {
+      ffmpeg,
+      playout,
+      status: 'running',
+      lastError: '',
+      startedAt: new Date(),
+      pid: ffmpeg.pid || null,
+      activeSourceId: fallbackList ? null : audioSource!.id,
+      audioFallback: !!fallbackList,
+      expectedExit: false,
+      relays: destinations.map(d => this.createRelay(stationId, d, dryRun ? { captureDir } : null)),
+      encodes: this.createProfileEncoders(stationId, station, destinations),
+      hls: station.hls_enabled ? this.createHlsMonitor(stationId, station.slug) : null,
+      // The archive holds only what went on air — and its retention would prune real recordings for test output
+      archive: station.archive_enabled && !dryRun ? this.createArchiveRecorder(stationId, station) : null,
+      daypart,
+      metrics: null,
+      loudness: null,
+      resources: null,
+      outputBytes: 0,
+      lastOutputAt: Date.now(),   // startup (audio connect) counts against the stall period
+      lastProgressAt: Date.now(),
+    };
+    this.processes.set(stationId, proc);
+    this.sourceErrors.delete(stationId);
+    this.updateDbStatus(stationId, 'running');
+    this.emit('status', stationId, 'running');
+    console.log(`[FFMPEG] Started: encoder PID=${ffmpeg.pid} for station=${stationId}`);
+    if (playout && daypart.source !== 'default') {
+      this.emit('log', stationId, 'info', 'schedule', `Playing "${daypart.name}" (${daypart.source})`);
+    }
+    if (fallbackList) {
+      this.emit('log', stationId, 'warn', 'failover', 'No audio source reachable — playing local fallback audio');
+    }
+    // The overlay shows the fallback text instead of the (unreachable) station's now playing
+    this.nowPlayingServices.get(stationId)?.setOverride(fallbackList ? (station.fallback_np_text || station.name) : null);
+    // Silence carried over from the previous pipeline (source failover): the audio counts as back
+    // once the new encoder has run a full detection period without reporting silence
+    const carried = this.silences.get(stationId);
+    if (carried && !station.silence_detect_enabled) {
+      this.silences.delete(stationId);
+    } else if (carried) {
+      carried.recoveryTimer = setTimeout(() => {
+        carried.recoveryTimer = null;
+        if (this.processes.get(stationId) === proc && proc.status === 'running') this.endSilence(stationId, audioName!);
+      }, (station.silence_duration_sec + 5) * 1000);
+    }
+    if (proc.encodes.length > 0) {
+      this.emit('log', stationId, 'info', 'encode',
+        `${proc.encodes.length} extra encode(s) for destination profiles: ${proc.encodes.map(e => `${e.label} → ${e.destinationIds.length} destination(s)`).join(', ')}`);
+    }
+
+    if (playout) {
+      playout.on('item', (item: OnAirItem) => {
+        this.emit('log', stationId, 'info', 'playout', `On air: ${item.name}`);
+        this.emit('playout', stationId, item);
+      });
+      // Per-video decode warnings/errors
+      playout.on('log', (level: string, message: string) => {
+        console.error(`[FEEDER-STDERR] station=${stationId}: ${message}`);
+        this.emit('log', stationId, level, 'feeder', message);
+      });
+      playout.start(ffmpeg.stdin!);
+    }
+
+    // Main FFmpeg stderr
+    ffmpeg.stderr?.on('data', (data: Buffer) => {
+      // Progress lines end with \r, so one chunk can hold several of them plus regular log lines
+      for (const raw of data.toString().split(/[\r\n]+/)) {
+        const line = raw.trim();
+        if (!line) continue;
+        if (isProgressLine(line)) {
+          const metrics = parseProgressLine(line);
+          if (metrics) this.recordMetrics(stationId, proc, metrics);
+          continue;
+        }
+        const loudness = parseLoudnessLine(line);
+        if (loudness) {
+          this.recordLoudness(stationId, proc, loudness);
+          continue;
+        }
+        const silence = parseSilenceLine(line);
+        if (silence) {
+          this.handleSilence(stationId, proc, station, silence);
+          continue;
+        }
+        const isError = /error|failed|invalid|corrupt|broken|fault/i.test(line);
+        if (AUDIO_INPUT_ERROR_RE.test(line)) {
+          this.recordSourceError(stationId, line);
+        }
+        if (isError) {
+          console.error(`[FFMPEG-STDERR] station=${stationId}: ${line}`);
+          this.emit('log', stationId, 'error', 'ffmpeg', line);
+        } else {
+          this.emit('log', stationId, 'debug', 'ffmpeg', line);
+        }
+      }
+    });
+
+    // Destinations with their own profile get the output of the encode they share; the rest get the program
+    const encodedIds = new Set(proc.encodes.flatMap(e => e.destinationIds));
+    const programRelays = proc.relays.filter(r => !encodedIds.has(r.destinationId));
+    for (const encode of proc.encodes) {
+      const encodeRelays = proc.relays.filter(r => encode.destinationIds.includes(r.destinationId));
+      encode.on('output', (chunk: Buffer) => {
+        for (const relay of encodeRelays) relay.write(chunk);
+      });
+    }
+
+    // Fan the encoded program out to the relays and profile encodes (plus HLS monitor and archive)
+    ffmpeg.stdout?.on('data', (chunk: Buffer) => {
+      proc.outputBytes += chunk.length;
+      proc.lastOutputAt = Date.now();
+      for (const relay of programRelays) relay.write(chunk);
+      for (const encode of proc.encodes) encode.write(chunk);
+      proc.hls?.write(chunk);
+      proc.archive?.write(chunk);
+    });
+    for (const relay of proc.relays) relay.start();
+    for (const encode of proc.encodes) encode.start();
+    proc.hls?.start();
+    proc.archive?.start();
+
+    // When main FFmpeg exits, handle restart
+    ffmpeg.on('close', (code) => {
+      playout?.stop();
+      this.stopOutputs(proc);
+      console.log(`[FFMPEG] Exited with code ${code} for station=${stationId}`);
+      this.emit('log', stationId, 'info', 'app', `FFmpeg exited with code ${code}`);
+      if (proc.expectedExit) return;  // pipeline is being relaunched by the supervisor
+      if (proc.status !== 'stopped') {
+        proc.status = 'error';
+        proc.lastError = `FFmpeg exited with code ${code}`;
+        this.emit('status', stationId, 'error');
+
+        // A crash preceded by audio input errors counts against the active source, so the restart can pick a fallback
+        if (proc.activeSourceId && (this.sourceErrors.get(stationId) || []).length > 0) {
+          this.markSourceUnreachable(proc.activeSourceId);
+        }
+
+        this.scheduleRestart(stationId, proc);
+      }
+    });
+
+    ffmpeg.on('error', (err) => {
+      console.error(`[FFMPEG] Process error for station=${stationId}: ${err.message}`);
+      proc.status = 'error';
+      proc.lastError = err.message;
+      this.emit('log', stationId, 'error', 'app', `FFmpeg error: ${err.message}`);
+      this.emit('status', stationId, 'error');
+    });
+  }
+
+  /**
+   * Main encoder arguments for the station's current settings, plus the overlay drawtext chain
+   * (also used by the command inspector). `audio` is the source URL, or the concat list of the
+   * local fallback audio.
+   */
+  private async buildEncoderArgs(
+    stationId: string, station: any, stationDir: string, audio: { url: string; fallback: boolean },
+  ): Promise<{ args: string[]; drawtext: string[] }> {
     const textFilePath = path.join(stationDir, 'nowplaying.txt');
     const artistFilePath = path.join(stationDir, 'artist.txt');
     const titleFilePath = path.join(stationDir, 'songtitle.txt');
 
-    if (!fs.existsSync(fileListPath)) {
-      this.emit('log', stationId, 'error', 'app', 'File list not found');
-      this.setProcessStatus(stationId, 'error', 'No playlist');
-      return;
-    }
-
-    const repeats = parseInt(fs.readFileSync(repeatsPath, 'utf-8').trim()) || 5;
+    const visualizer = station.video_mode === 'visualizer';
 
     // Build overlay drawtext filter (only if FFmpeg supports it)
     const overlayParts: string[] = [];
@@ -356,44 +777,10 @@ export class FFmpegSupervisor extends EventEmitter {
 
     // ─── VIDEO FEEDER APPROACH ─────────────────────────────
     // Instead of using concat demuxer (which CANNOT handle codec transitions like HEVC→H.264),
-    // we use a bash feeder script that decodes each video individually and pipes normalized
-    // MPEGTS (all H.264, same resolution/fps) to the main FFmpeg encoder via stdin.
+    // the playout engine plays each video individually (its pre-normalized rendition, or decoded
+    // on the fly) and pipes uniform MPEGTS (all H.264, same resolution/fps) to the main encoder via stdin.
     // This completely eliminates codec mismatch errors at file transitions.
 
-    const feederScriptPath = path.join(stationDir, 'feeder.sh');
-    const feederScript = `#!/bin/sh
-# Video feeder: decodes each video individually, outputs uniform MPEGTS to stdout
-# This avoids concat demuxer codec mismatch issues (HEVC↔H.264 transitions)
-# IMPORTANT: stderr goes to fd2 (captured by Node), stdout is the video pipe
-FILELIST="${fileListPath}"
-REPEATS=${repeats}
-WIDTH=${station.video_width}
-HEIGHT=${station.video_height}
-FPS=${station.video_fps}
-
-for rep in $(seq 1 $REPEATS); do
-  while IFS= read -r videofile || [ -n "$videofile" ]; do
-    [ -z "$videofile" ] && continue
-    [ ! -f "$videofile" ] && continue
-    echo "FEEDER: Playing $videofile (repeat $rep)" >&2
-    # Decode any codec → re-encode to H.264 MPEGTS, normalized resolution/fps
-    # -re flag ensures real-time playback speed
-    # stdout = video pipe, stderr = logs (kept separate!)
-    ffmpeg -hide_banner -loglevel warning \\
-      -re -i "$videofile" \\
-      -vf "fps=$FPS,scale=\${WIDTH}:\${HEIGHT}:force_original_aspect_ratio=decrease,pad=\${WIDTH}:\${HEIGHT}:(ow-iw)/2:(oh-ih)/2" \\
-      -c:v libx264 -preset veryfast -tune zerolatency \\
-      -b:v 4500k -maxrate 4500k -bufsize 9000k \\
-      -pix_fmt yuv420p -an \\
-      -f mpegts \\
-      -muxdelay 0 -muxpreload 0 \\
-      pipe:1
-  done < "$FILELIST"
-done
-echo "FEEDER: All repeats finished" >&2
-`;
-    fs.writeFileSync(feederScriptPath, feederScript, { mode: 0o755 });
-
     // Build overlay filter for the main encoder (applied to the uniform MPEGTS input)
     const mainOverlayFilter = overlayParts.length > 0 ? overlayParts.join(',') : '';
 
@@ -402,166 +789,1092 @@ echo "FEEDER: All repeats finished" >&2
     // If no overlay: copy video stream directly → RTMP (zero video CPU)
     const hasOverlay = mainOverlayFilter.length > 0;
 
-    const args: string[] = [
-      '-fflags', '+genpts+discardcorrupt',
-      '-f', 'mpegts',                              // Input from feeder pipe (uniform H.264 MPEGTS)
-      '-i', 'pipe:0',                              // Read video from stdin
+    const audioInput = audio.fallback ? [
+      '-thread_queue_size', '4096',
+      '-re', '-stream_loop', '-1',                  // Local files: read in real time, looped until a source is back
+      '-f', 'concat', '-safe', '0',
+      '-i', audio.url,
+    ] : [
       '-thread_queue_size', '4096',
       '-reconnect', '1',
       '-reconnect_streamed', '1',
       '-reconnect_delay_max', '5',
-      '-i', audioSource.url,                        // Audio source (Icecast/AzuraCast)
-      '-map', '0:v', '-map', '1:a',
+      '-rw_timeout', '10000000',                    // 10s without data = input error (lets failover notice silence)
+      '-i', audio.url,                              // Audio source (Icecast/AzuraCast)
+    ];
+    const videoEncode = [
+      '-c:v', 'libx264', '-preset', 'veryfast', '-tune', 'zerolatency',
+      '-b:v', station.video_bitrate,
+      '-maxrate', station.video_bitrate,
+      '-bufsize', `${parseInt(station.video_bitrate) * 2}k`,
+      '-r', String(station.video_fps),
+      '-g', String(station.video_fps * 2),
+      '-keyint_min', String(station.video_fps),
+      '-pix_fmt', 'yuv420p',
     ];
 
-    if (hasOverlay) {
-      // With overlay: need to decode, apply filter, re-encode
+    const args: string[] = [];
+    if (visualizer) {
+      // Visualizer: audio (input 0) drawn over the background (input 1), overlay on top, always encoded
       args.push(
-        '-c:v', 'libx264', '-preset', 'veryfast', '-tune', 'zerolatency',
-        '-b:v', station.video_bitrate,
-        '-maxrate', station.video_bitrate,
-        '-bufsize', `${parseInt(station.video_bitrate) * 2}k`,
-        '-r', String(station.video_fps),
-        '-g', String(station.video_fps * 2),
-        '-keyint_min', String(station.video_fps),
-        '-pix_fmt', 'yuv420p',
-        '-vf', mainOverlayFilter,
+        ...audioInput,
+        ...visualizerBackgroundArgs(station, this.visualizerImage(stationId, station)),
+        '-filter_complex', `${visualizerGraph(station, '0:a', '1:v')};[vis]${mainOverlayFilter || 'null'}[v]`,
+        '-map', '[v]', '-map', '0:a',
+        ...videoEncode,
       );
     } else {
-      // No overlay: copy the already-encoded H.264 from feeder (zero CPU)
       args.push(
-        '-c:v', 'copy',
+        '-fflags', '+genpts+discardcorrupt',
+        '-f', 'mpegts',                              // Input from feeder pipe (uniform H.264 MPEGTS)
+        '-i', 'pipe:0',                              // Read video from stdin
+        ...audioInput,
+        '-map', '0:v', '-map', '1:a',
       );
+      if (hasOverlay) {
+        // With overlay: need to decode, apply filter, re-encode
+        args.push(...videoEncode, '-vf', mainOverlayFilter);
+      } else {
+        // No overlay: copy the already-encoded H.264 from feeder (zero CPU)
+        args.push(
+          '-c:v', 'copy',
+        );
+      }
     }
 
     args.push(
       '-max_muxing_queue_size', '4096',
       '-c:a', 'aac', '-b:a', station.audio_bitrate, '-ar', '44100',
       '-strict', 'experimental',
-      '-flags', '+global_header',
     );
+    // Audio chain: dead-air detection on the source level (see handleSilence), optional
+    // loudness normalization, then the EBU R128 meter on what actually goes out
+    const audioFilters: string[] = [];
+    if (station.silence_detect_enabled) {
+      audioFilters.push(silenceDetectFilter({ thresholdDb: station.silence_threshold_db, durationSec: station.silence_duration_sec }));
+    }
+    if (station.loudnorm_enabled) {
+      audioFilters.push(loudnormFilter({ targetLufs: station.loudnorm_target_lufs, truePeakDb: station.loudnorm_true_peak }));
+    }
+    audioFilters.push(EBUR128_FILTER);
+    args.push('-af', audioFilters.join(','));
+
+    // Output: program as MPEG-TS on stdout. Node fans it out to one relay process per
+    // destination, so a platform refusing the connection only affects its own relay.
+    // (No +global_header: relays need SPS/PPS in-band to remux to FLV.)
+    args.push('-f', 'mpegts', '-muxdelay', '0', '-muxpreload', '0', 'pipe:1');
+
+    return { args, drawtext: overlayParts };
+  }
+
+  // ─── DESIRED STATE / RECONCILIATION ──────────────────────
+
+  private setDesiredState(stationId: string, state: 'running' | 'stopped'): void {
+    const db = getDb();
+    db.prepare('UPDATE stations SET desired_state = ? WHERE id = ?').run(state, stationId);
+  }
+
+  /** Reconcile now (backend startup) and then every RECONCILE_INTERVAL_MS. */
+  startReconciler(): void {
+    this.stopReconciler();
+    const run = () => {
+      this.reconcile().catch((err) => console.error(`[RECONCILE] ${err.message}`));
+    };
+    run();
+    this.reconcileTimer = setInterval(run, RECONCILE_INTERVAL_MS);
+  }
+
+  stopReconciler(): void {
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+  }
+
+  /**
+   * Bring actual process state in line with stations.desired_state: start stations that
+   * should be running but have no pipeline (backend restarted, auto-restart gave up),
+   * and correct stale DB status for stations that should be stopped.
+   */
+  async reconcile(): Promise<void> {
+    if (this.reconciling) return;
+    this.reconciling = true;
+    try {
+      const db = getDb();
+      // Most important stations first, so admission control turns away the least important ones
+      const stations = db.prepare('SELECT id, name, status, desired_state, auto_restart FROM stations ORDER BY run_priority ASC').all() as any[];
+      for (const station of stations) {
+        const proc = this.processes.get(station.id);
+        const actual = proc?.status || 'stopped';
+
+        if (station.desired_state === 'running') {
+          // Crashed stations are only picked up when auto-restart is on (the restart policy owns them then)
+          const idle = actual === 'stopped' || (actual === 'error' && !!station.auto_restart);
+          if (!idle || this.restartTimers.has(station.id) || this.relaunching.has(station.id)) continue;
+          console.log(`[RECONCILE] Starting station=${station.id} (desired=running, actual=${actual})`);
+          this.emit('log', station.id, 'warn', 'reconcile', `Station should be running (was ${actual}) — starting`);
+          try {
+            await this.startStation(station.id, { admitted: actual === 'error' });
+          } catch (err: any) {
+            this.emit('log', station.id, 'error', 'reconcile', `Reconcile start failed: ${err.message}`);
+          }
+          await new Promise(r => setTimeout(r, RECONCILE_START_GAP_MS));
+        } else if (!proc && station.status !== 'stopped') {
+          // Status left over from a previous run — nothing is actually running
+          this.updateDbStatus(station.id, 'stopped');
+          this.emit('status', station.id, 'stopped');
+        }
+      }
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  /**
+   * Backend is going down: stop every pipeline without touching desired_state,
+   * so the next start brings the same stations back. Resolves once encoders have exited.
+   */
+  async shutdown(): Promise<void> {
+    this.stopReconciler();
+    clearInterval(this.watchdogTimer);
+    clearInterval(this.archivePruneTimer);
+    clearInterval(this.scheduleTimer);
+    for (const timer of this.restartTimers.values()) clearTimeout(timer);
+    this.restartTimers.clear();
+    for (const stationId of [...this.sourceMonitors.keys()]) this.stopSourceMonitor(stationId);
+    for (const np of this.nowPlayingServices.values()) np.stop();
+    this.nowPlayingServices.clear();
+
+    const pending: Promise<void>[] = [];
+    for (const [stationId, proc] of this.processes) {
+      if (proc.status === 'stopped') continue;
+      proc.status = 'stopped';
+      pending.push(this.terminatePipeline(proc));
+      this.updateDbStatus(stationId, 'stopped');
+    }
+    await Promise.all(pending);
+  }
+
+  // ─── STALL WATCHDOG ──────────────────────────────────────
+
+  /**
+   * A frozen encoder (input reconnect hanging, feeder pipe blocked) stays alive, so the
+   * close handler never fires. Kill + relaunch any pipeline that produced neither output
+   * bytes nor advancing progress within the station's stall period.
+   */
+  private checkStalls(): void {
+    const now = Date.now();
+    const db = getDb();
+    for (const [stationId, proc] of this.processes) {
+      if (proc.status !== 'running' || proc.expectedExit || this.relaunching.has(stationId)) continue;
+
+      const station = db.prepare('SELECT stall_timeout_sec FROM stations WHERE id = ?').get(stationId) as any;
+      const timeoutMs = (station?.stall_timeout_sec || 0) * 1000;
+      if (timeoutMs <= 0) continue;
+
+      const lastActivity = Math.max(proc.lastOutputAt, proc.lastProgressAt);
+      if (now - lastActivity < timeoutMs) continue;
+
+      const stalledForSec = Math.round((now - lastActivity) / 1000);
+      const lastProgressSec = Math.round((now - proc.lastProgressAt) / 1000);
+      const reason = `No encoder output for ${stalledForSec}s (last progress ${lastProgressSec}s ago, ${proc.outputBytes} bytes written) — restarting pipeline`;
+      console.error(`[WATCHDOG] station=${stationId}: ${reason}`);
+      this.emit('log', stationId, 'warn', 'watchdog', `Stall detected: ${reason}`);
+      this.emit('stall', stationId, { stalledForSec, outputBytes: proc.outputBytes, reason });
+
+      // A stall is a failure like a crash: restart through the restart policy
+      proc.status = 'error';
+      proc.lastError = `Encoder stalled (${stalledForSec}s without output)`;
+      this.emit('status', stationId, 'error');
+      this.relaunching.add(stationId);  // keeps the reconciler away until the restart is scheduled
+      this.terminatePipeline(proc).then(() => {
+        this.relaunching.delete(stationId);
+        if (this.processes.get(stationId) === proc && proc.status === 'error') this.scheduleRestart(stationId, proc);
+      });
+    }
+  }
+
+  // ─── RESTART POLICY ──────────────────────────────────────
+
+  private getRestartPolicy(stationId: string, station: any): RestartPolicy {
+    let policy = this.restartPolicies.get(stationId);
+    if (!policy) {
+      policy = new RestartPolicy(restartPolicyConfig(station));
+      this.restartPolicies.set(stationId, policy);
+    } else {
+      policy.configure(restartPolicyConfig(station));
+    }
+    return policy;
+  }
+
+  /** Crash or stall: ask the restart policy when (and whether) to launch again. */
+  private scheduleRestart(stationId: string, proc: StationProcess): void {
+    const db = getDb();
+    const station = db.prepare('SELECT * FROM stations WHERE id = ?').get(stationId) as any;
+    if (!station?.auto_restart) return;
 
-    // Output: single destination = simple FLV, multiple = tee muxer
-    if (destinations.length === 1) {
-      const dest = destinations[0];
-      const url = (dest.stream_key ? `${dest.rtmp_url.trim()}/${dest.stream_key.trim()}` : dest.rtmp_url.trim());
-      args.push('-f', 'flv', '-flvflags', 'no_duration_filesize', url);
+    const policy = this.getRestartPolicy(stationId, station);
+    const uptimeMs = proc.startedAt ? Date.now() - proc.startedAt.getTime() : 0;
+    const decision = policy.recordFailure(uptimeMs);
+
+    if (decision.action === 'restart') {
+      console.log(`[FFMPEG] Auto-restart attempt ${decision.attempt}/${station.max_restart_attempts} in ${Math.round(decision.delayMs / 1000)}s for station=${stationId}`);
+      this.emit('log', stationId, 'info', 'app', `Auto-restart attempt ${decision.attempt} in ${Math.round(decision.delayMs / 1000)}s`);
     } else {
-      const teeOutputs = destinations.map(d => {
-        const url = (d.stream_key ? `${d.rtmp_url.trim()}/${d.stream_key.trim()}` : d.rtmp_url.trim());
-        return `[f=flv:flvflags=no_duration_filesize]${url}`;
+      const message = `Circuit breaker open after ${decision.failures} failure(s) — next trial restart in ${Math.round(decision.delayMs / 60000)} min`;
+      console.error(`[FFMPEG] ${message} for station=${stationId}`);
+      this.emit('log', stationId, 'error', 'restart-policy', message);
+      this.emit('breaker', stationId, policy.snapshot(), message);
+    }
+
+    const timer = setTimeout(() => {
+      this.restartTimers.delete(stationId);
+      if (this.processes.get(stationId)?.status === 'stopped') return;
+      const wasOpen = policy.breaker === 'open';
+      policy.recordAttempt();
+      if (wasOpen) {
+        const message = 'Circuit breaker half-open — trial restart';
+        this.emit('log', stationId, 'warn', 'restart-policy', message);
+        this.emit('breaker', stationId, policy.snapshot(), message);
+      }
+      // Fresh settings: they may have been fixed while we were waiting
+      const fresh = db.prepare('SELECT * FROM stations WHERE id = ?').get(stationId) as any;
+      if (!fresh) return;
+      this.launchFFmpeg(stationId, fresh, path.join(this.dataDir, 'stations', fresh.slug)).catch((err) => {
+        this.emit('log', stationId, 'error', 'app', `Auto-restart launch failed: ${err.message}`);
+        this.setProcessStatus(stationId, 'error', err.message);
       });
-      args.push('-f', 'tee', teeOutputs.join('|'));
+    }, decision.delayMs);
+    this.restartTimers.set(stationId, timer);
+  }
+
+  /** Credit long healthy runs: reset the restart counter and close a half-open breaker. */
+  private checkStability(): void {
+    for (const [stationId, proc] of this.processes) {
+      const policy = this.restartPolicies.get(stationId);
+      if (!policy || proc.status !== 'running' || !proc.startedAt) continue;
+      const before = policy.restarts;
+      if (policy.recordUptime(Date.now() - proc.startedAt.getTime())) {
+        const message = 'Circuit breaker closed — pipeline stable again';
+        this.emit('log', stationId, 'info', 'restart-policy', message);
+        this.emit('breaker', stationId, policy.snapshot(), message);
+      } else if (before > 0 && policy.restarts === 0) {
+        this.emit('log', stationId, 'info', 'restart-policy', 'Pipeline stable — restart counter reset');
+      }
     }
+  }
 
-    this.emit('log', stationId, 'info', 'app', `Launching FFmpeg (pipe-feeder mode) with ${destinations.length} destination(s)`);
-    console.log(`[FFMPEG] Launching pipe-feeder for station=${stationId}`);
-    this.setProcessStatus(stationId, 'starting', '');
+  // ─── ENCODER METRICS ─────────────────────────────────────
 
-    // 1) Start the feeder script (decodes videos → MPEGTS pipe)
-    const feeder = spawn('sh', [feederScriptPath], {
-      stdio: ['ignore', 'pipe', 'pipe'],
-    });
+  private recordMetrics(stationId: string, proc: StationProcess, metrics: EncoderMetrics): void {
+    // FFmpeg can keep printing the same progress line while frozen — only movement counts
+    if (!proc.metrics || metrics.frame !== proc.metrics.frame || metrics.totalBytes !== proc.metrics.totalBytes) {
+      proc.lastProgressAt = Date.now();
+    }
+    proc.metrics = metrics;
 
-    // 2) Start the main FFmpeg encoder (reads MPEGTS from stdin → RTMP)
-    const ffmpeg = spawn('ffmpeg', args, {
-      stdio: [feeder.stdout!, 'pipe', 'pipe'],  // stdin = feeder stdout
-    });
+    const now = Date.now();
+    if (now - (this.lastMetricsEmit.get(stationId) || 0) < METRICS_INTERVAL_MS) return;
+    this.lastMetricsEmit.set(stationId, now);
 
-    const proc: StationProcess = {
-      ffmpeg,
-      feeder,
-      status: 'running',
-      restartCount: this.processes.get(stationId)?.restartCount || 0,
-      lastError: '',
-      startedAt: new Date(),
-      pid: ffmpeg.pid || null,
+    const history = this.metricsHistory.get(stationId) || [];
+    history.push(metrics);
+    if (history.length > METRICS_HISTORY_SIZE) history.splice(0, history.length - METRICS_HISTORY_SIZE);
+    this.metricsHistory.set(stationId, history);
+
+    this.emit('metrics', stationId, metrics);
+  }
+
+  private recordLoudness(stationId: string, proc: StationProcess, reading: LoudnessReading): void {
+    proc.loudness = reading;
+    const now = Date.now();
+    if (now - (this.lastLoudnessEmit.get(stationId) || 0) < LOUDNESS_INTERVAL_MS) return;
+    this.lastLoudnessEmit.set(stationId, now);
+    this.emit('loudness', stationId, reading);
+  }
+
+  // ─── RESOURCE ACCOUNTING ─────────────────────────────────
+
+  /** CPU, memory and threads of each running station's encoder, feeder, extra encodes and relays. */
+  private sampleResources(): void {
+    for (const [stationId, proc] of this.processes) {
+      if (proc.status !== 'running') {
+        proc.resources = null;
+        continue;
+      }
+      const targets = [
+        { pid: proc.pid, role: 'encoder' },
+        { pid: proc.playout?.pid || null, role: 'feeder' },
+        ...proc.encodes.map(e => ({ pid: e.pid, role: `encode:${e.label}` })),
+        ...proc.relays.map(r => ({ pid: r.pid, role: `relay:${r.name}` })),
+      ].filter((t): t is { pid: number; role: string } => t.pid !== null);
+
+      let sampler = this.resourceSamplers.get(stationId);
+      if (!sampler) {
+        sampler = new ProcessSampler();
+        this.resourceSamplers.set(stationId, sampler);
+      }
+      proc.resources = sampler.sample(targets);
+
+      const history = this.resourceHistory.get(stationId) || [];
+      history.push(proc.resources);
+      if (history.length > RESOURCE_HISTORY_SIZE) history.splice(0, history.length - RESOURCE_HISTORY_SIZE);
+      this.resourceHistory.set(stationId, history);
+    }
+    this.checkPressure();
+  }
+
+  // ─── ADMISSION CONTROL ───────────────────────────────────
+
+  /** Average CPU of a running station over the last minute; null until enough samples exist. */
+  private measuredCost(stationId: string): number | null {
+    const recent = (this.resourceHistory.get(stationId) || []).slice(-MEASURED_COST_SAMPLES);
+    if (recent.length < 3) return null;
+    return Math.round(recent.reduce((sum, r) => sum + r.cpuPercent, 0) / recent.length * 10) / 10;
+  }
+
+  private stationLoad(station: any): StationLoad {
+    const destinations = getDb().prepare(
+      'SELECT * FROM rtmp_destinations WHERE station_id = ? AND is_enabled = 1'
+    ).all(station.id) as any[];
+    const extraProfiles = this.profileGroups(station, destinations).map(g => g.profile);
+    const proc = this.processes.get(station.id);
+    const running = !!proc && proc.status !== 'stopped';
+    const estimatedPercent = estimateStationCost(station, extraProfiles, destinations.length);
+    const measuredPercent = running ? this.measuredCost(station.id) : null;
+    return {
+      stationId: station.id,
+      name: station.name,
+      priority: station.run_priority,
+      running,
+      estimatedPercent,
+      measuredPercent,
+      costPercent: measuredPercent ?? estimatedPercent,
     };
-    this.processes.set(stationId, proc);
-    this.updateDbStatus(stationId, 'running');
-    this.emit('status', stationId, 'running');
-    console.log(`[FFMPEG] Started: feeder PID=${feeder.pid}, encoder PID=${ffmpeg.pid} for station=${stationId}`);
+  }
 
-    // Feeder stderr (per-video decode warnings/errors)
-    feeder.stderr?.on('data', (data: Buffer) => {
-      const line = data.toString().trim();
-      if (line) {
-        const isError = /error|failed|invalid|corrupt|broken|fault/i.test(line);
-        if (isError) {
-          console.error(`[FEEDER-STDERR] station=${stationId}: ${line}`);
-          this.emit('log', stationId, 'warn', 'feeder', line);
-        }
-        // Don't log non-error feeder lines (too verbose)
+  /** Budget, current station load and the cost of every station (running or not). */
+  getCapacityReport(): CapacityReport {
+    const settings = getCapacitySettings();
+    const stations = (getDb().prepare('SELECT * FROM stations ORDER BY run_priority ASC, name ASC').all() as any[])
+      .map(s => this.stationLoad(s));
+    return {
+      settings,
+      cores: os.cpus().length,
+      budgetPercent: hostBudgetPercent(settings),
+      usedPercent: Math.round(stations.filter(s => s.running).reduce((sum, s) => sum + s.costPercent, 0) * 10) / 10,
+      stations,
+    };
+  }
+
+  /**
+   * Project the host load with this station on air. Over budget, less important stations
+   * are stopped to make room when shedding is on and that is enough; otherwise the start
+   * is logged as a warning or refused (throws), depending on the admission mode.
+   */
+  private async admitStation(station: any): Promise<void> {
+    const report = this.getCapacityReport();
+    if (report.settings.mode === 'off') return;
+    const cost = report.stations.find(s => s.stationId === station.id)!.costPercent;
+    const projected = Math.round((report.usedPercent + cost) * 10) / 10;
+    if (projected <= report.budgetPercent) return;
+
+    if (report.settings.shed) {
+      // Lowest priority (highest number) first, and only stations less important than this one
+      const candidates = report.stations
+        .filter(s => s.running && s.priority > station.run_priority)
+        .sort((a, b) => b.priority - a.priority || b.costPercent - a.costPercent);
+      const victims: StationLoad[] = [];
+      let freed = 0;
+      for (const c of candidates) {
+        if (projected - freed <= report.budgetPercent) break;
+        victims.push(c);
+        freed += c.costPercent;
+      }
+      if (projected - freed <= report.budgetPercent) {
+        for (const v of victims) await this.shedStation(v.stationId, `making room for ${station.name} (priority ${station.run_priority})`);
+        return;
       }
+    }
+
+    const message = `Projected station load ${projected}% CPU is over the ${report.budgetPercent}% budget `
+      + `(${report.cores} cores × ${report.settings.budgetPercent}%); this station needs ~${cost}%`;
+    if (report.settings.mode === 'refuse') {
+      this.emit('log', station.id, 'error', 'capacity', `Start refused — ${message}`);
+      this.emit('admission', station.id, { action: 'refused', message });
+      throw new Error(`Not enough capacity: ${message}`);
+    }
+    this.emit('log', station.id, 'warn', 'capacity', `Starting over budget — ${message}`);
+    this.emit('admission', station.id, { action: 'warned', message });
+  }
+
+  /**
+   * Stations measured over budget for PRESSURE_TICKS samples in a row: stop the least
+   * important one (only when priorities differ — equal stations are never shed for each other).
+   */
+  private checkPressure(): void {
+    const settings = getCapacitySettings();
+    const running = [...this.processes.entries()].filter(([, p]) => p.status === 'running' && p.resources);
+    const used = running.reduce((sum, [, p]) => sum + p.resources!.cpuPercent, 0);
+    if (settings.mode === 'off' || !settings.shed || used <= hostBudgetPercent(settings)) {
+      this.pressureTicks = 0;
+      return;
+    }
+    if (++this.pressureTicks < PRESSURE_TICKS) return;
+    this.pressureTicks = 0;
+
+    const db = getDb();
+    const ranked = running
+      .map(([id]) => db.prepare('SELECT id, run_priority FROM stations WHERE id = ?').get(id) as any)
+      .filter(Boolean)
+      .sort((a, b) => b.run_priority - a.run_priority);
+    if (ranked.length < 2 || ranked[0].run_priority === ranked[ranked.length - 1].run_priority) return;
+    const reason = `stations used ${Math.round(used)}% CPU for 30 s, budget ${hostBudgetPercent(settings)}%`;
+    this.shedStation(ranked[0].id, reason).catch(() => {});
+  }
+
+  /** Stop a station to free CPU (desired state becomes stopped, so the reconciler leaves it off). */
+  private async shedStation(stationId: string, reason: string): Promise<void> {
+    const message = `Stopped by admission control — ${reason}`;
+    console.log(`[CAPACITY] Shedding station=${stationId}: ${reason}`);
+    this.emit('log', stationId, 'warn', 'capacity', message);
+    this.emit('admission', stationId, { action: 'shed', message });
+    await this.stopStation(stationId);
+  }
+
+  /**
+   * Store how far the model was off for this station (measured / estimated CPU of the run that
+   * is ending), so its next estimate — used to admit it — starts from real usage.
+   */
+  private recordCalibration(stationId: string): void {
+    const measured = this.measuredCost(stationId);
+    if (measured === null || (this.resourceHistory.get(stationId) || []).length < MEASURED_COST_SAMPLES) return;
+    const db = getDb();
+    const station = db.prepare('SELECT * FROM stations WHERE id = ?').get(stationId) as any;
+    if (!station) return;
+    const destinations = db.prepare('SELECT * FROM rtmp_destinations WHERE station_id = ? AND is_enabled = 1').all(stationId) as any[];
+    const model = estimateStationCost(
+      { ...station, cpu_calibration: null },
+      this.profileGroups(station, destinations).map(g => g.profile),
+      destinations.length,
+    );
+    if (model <= 0) return;
+    const ratio = Math.min(5, Math.max(0.2, measured / model));
+    db.prepare('UPDATE stations SET cpu_calibration = ? WHERE id = ?').run(Math.round(ratio * 100) / 100, stationId);
+  }
+
+  // ─── DESTINATION RELAYS ──────────────────────────────────
+
+  /** Where a destination's relay writes: the platform, or its local sink in a dry run. */
+  private relayOutput(dest: any, dryRun: { captureDir: string | null } | null): { url: string; muxerArgs: string[] } {
+    const target = normalizeTarget(dest);
+    if (dryRun) return dryRunSink(target.protocol, dest.id, dryRun.captureDir);
+    return { url: outputUrl(target), muxerArgs: outputMuxerArgs(target.protocol) };
+  }
+
+  private createRelay(stationId: string, dest: any, dryRun: { captureDir: string | null } | null): DestinationRelay {
+    const relay = new DestinationRelay({
+      destinationId: dest.id,
+      name: dryRun ? `${dest.name} (dry run)` : dest.name,
+      ...this.relayOutput(dest, dryRun),
+      baseDelayMs: RELAY_BASE_DELAY_MS,
+      maxDelayMs: RELAY_MAX_DELAY_MS,
+      failedAfter: RELAY_FAILED_AFTER,
     });
 
-    // Main FFmpeg stderr
-    ffmpeg.stderr?.on('data', (data: Buffer) => {
-      const line = data.toString().trim();
-      if (line) {
-        const isProgress = /^(frame|size|bitrate|speed|fps)\s*=/.test(line) || /^\s*(frame|size)=/.test(line);
-        if (!isProgress) {
-          const isError = /error|failed|invalid|corrupt|broken|fault/i.test(line);
-          if (isError) {
-            console.error(`[FFMPEG-STDERR] station=${stationId}: ${line}`);
-            this.emit('log', stationId, 'error', 'ffmpeg', line);
-          } else {
-            this.emit('log', stationId, 'debug', 'ffmpeg', line);
-          }
-        } else {
-          this.emit('log', stationId, 'debug', 'ffmpeg', line);
-        }
-      }
+    relay.on('status', (status: RelayStatus, error: string) => {
+      this.updateDestinationStatus(stationId, dest.id, status, error);
+    });
+    relay.on('log', (level: string, message: string) => {
+      this.emit('log', stationId, level, 'destination', message);
     });
+    return relay;
+  }
 
-    ffmpeg.stdout?.on('data', (data: Buffer) => {
-      const line = data.toString().trim();
-      if (line) {
-        this.emit('log', stationId, 'info', 'ffmpeg', line);
-      }
+  /** Destinations whose profile differs from the program, grouped by profile (one extra encode each). */
+  private profileGroups(station: any, destinations: any[]): { profile: EncodingProfile; destinationIds: string[] }[] {
+    const programKey = profileKey(programProfile(station));
+    const groups: Map<string, { profile: EncodingProfile; destinationIds: string[] }> = new Map();
+    for (const dest of destinations) {
+      const profile = destinationProfile(station, dest);
+      const key = profileKey(profile);
+      if (key === programKey) continue;
+      if (!groups.has(key)) groups.set(key, { profile, destinationIds: [] });
+      groups.get(key)!.destinationIds.push(dest.id);
+    }
+    return [...groups.values()];
+  }
+
+  /**
+   * Group destinations by encoding profile. Destinations matching the program are fed the
+   * program directly; every other distinct profile gets exactly one shared encode.
+   */
+  private createProfileEncoders(stationId: string, station: any, destinations: any[]): ProfileEncoder[] {
+    return this.profileGroups(station, destinations).map(({ profile, destinationIds }) => {
+      const encode = new ProfileEncoder(profile, destinationIds);
+      encode.on('log', (level: string, message: string) => {
+        this.emit('log', stationId, level, 'encode', message);
+      });
+      return encode;
     });
+  }
+
+  /** Stop every consumer of the encoder output (destination relays, profile encodes, HLS monitor, archive). */
+  private stopOutputs(proc: StationProcess): void {
+    for (const relay of proc.relays) relay.stop();
+    for (const encode of proc.encodes) encode.stop();
+    proc.encodes = [];
+    proc.hls?.stop();
+    proc.hls = null;
+    proc.archive?.stop();
+    proc.archive = null;
+  }
+
+  private updateDestinationStatus(stationId: string, destinationId: string, status: RelayStatus, error: string) {
+    const db = getDb();
+    const errorMessage = status === 'connected' || status === 'disconnected' ? null : (error || null);
+    db.prepare('UPDATE rtmp_destinations SET status = ?, error_message = ? WHERE id = ?').run(status, errorMessage, destinationId);
+    this.emit('destination', stationId, { destinationId, status, error: errorMessage });
+  }
+
+  // ─── HLS MONITOR ─────────────────────────────────────────
 
-    // When feeder exits (all videos played), log it
-    feeder.on('close', (code) => {
-      console.log(`[FEEDER] Exited with code ${code} for station=${stationId}`);
-      this.emit('log', stationId, 'info', 'app', `Video feeder finished (code ${code})`);
+  private hlsDir(slug: string): string {
+    return path.join(this.dataDir, 'stations', slug, 'hls');
+  }
+
+  private createHlsMonitor(stationId: string, slug: string): HlsMonitor {
+    const monitor = new HlsMonitor(this.hlsDir(slug));
+    monitor.on('log', (level: string, message: string) => {
+      this.emit('log', stationId, level, 'hls', message);
     });
+    return monitor;
+  }
 
-    // When main FFmpeg exits, handle restart
-    ffmpeg.on('close', (code) => {
-      // Kill feeder if still running
-      if (feeder && !feeder.killed) {
-        feeder.kill('SIGTERM');
+  /** Apply stations.hls_enabled to a running pipeline — the monitor taps the encoder output, no relaunch needed. */
+  setHlsMonitor(stationId: string, enabled: boolean): void {
+    const proc = this.processes.get(stationId);
+    if (!proc || !proc.ffmpeg || proc.status === 'stopped' || proc.status === 'error') return;
+    if (enabled && !proc.hls) {
+      const db = getDb();
+      const station = db.prepare('SELECT slug FROM stations WHERE id = ?').get(stationId) as any;
+      if (!station) return;
+      proc.hls = this.createHlsMonitor(stationId, station.slug);
+      proc.hls.start();
+      this.emit('log', stationId, 'info', 'hls', 'HLS monitor started');
+    } else if (!enabled && proc.hls) {
+      proc.hls.stop();
+      proc.hls = null;
+      this.emit('log', stationId, 'info', 'hls', 'HLS monitor stopped');
+    }
+  }
+
+  /** Path of a file of the station's HLS monitor output, or null if it doesn't exist. */
+  getHlsFile(stationId: string, file: string): string | null {
+    // Only the playlist and its segments — never anything outside the hls dir
+    if (file !== HLS_PLAYLIST && !/^seg_\d+\.ts$/.test(file)) return null;
+    const db = getDb();
+    const station = db.prepare('SELECT slug FROM stations WHERE id = ?').get(stationId) as any;
+    if (!station) return null;
+    const filePath = path.join(this.hlsDir(station.slug), file);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  // ─── COMMAND INSPECTOR ───────────────────────────────────
+
+  /**
+   * The commands a (re)start would launch with the saved settings, next to those of the running
+   * pipeline (see services/command-inspect). Feeders are compared by their template for an item
+   * without a rendition, since the actual command changes with every item.
+   */
+  async inspectCommand(stationId: string): Promise<CommandInspection | null> {
+    const db = getDb();
+    const station = db.prepare('SELECT * FROM stations WHERE id = ?').get(stationId) as any;
+    if (!station) return null;
+    const stationDir = path.join(this.dataDir, 'stations', station.slug);
+    const proc = this.processes.get(stationId);
+    const live = !!proc && proc.status !== 'stopped' && !!proc.ffmpeg;
+
+    // Audio input as a relaunch would pick it (read-only: the list file itself is written by launchFFmpeg)
+    const audioSource = this.resolveAudioSource(stationId, proc?.activeSourceId || null);
+    const fallbackList = (!audioSource || audioSource.status === 'unreachable') && this.fallbackAudioFiles(stationId, station).length > 0
+      ? this.fallbackAudioListPath(stationDir)
+      : null;
+    const { args, drawtext } = await this.buildEncoderArgs(stationId, station, stationDir,
+      fallbackList ? { url: fallbackList, fallback: true } : { url: audioSource?.url || '(no audio source)', fallback: false });
+
+    const allDestinations = db.prepare('SELECT * FROM rtmp_destinations WHERE station_id = ?').all(stationId) as any[];
+    const secrets = allDestinations.flatMap(d => [d.stream_key, d.srt_passphrase]);
+    const ITEM = '<playlist item>';
+
+    const sections: CommandSection[] = [
+      inspectSection('encoder', args, live ? proc!.ffmpeg!.spawnargs.slice(1) : null, secrets),
+      inspectSection('feeder',
+        station.video_mode === 'visualizer' ? null : transcodeArgs({
+          width: station.video_width, height: station.video_height, fps: station.video_fps, bitrate: station.video_bitrate,
+        }, ITEM),
+        live && proc!.playout ? transcodeArgs(proc!.playout.frame, ITEM) : null,
+        secrets),
+    ];
+
+    const dryRun = this.dryRuns.get(stationId);
+    const sink = dryRun ? { captureDir: dryRun.capture ? this.dryRunDir(station.slug) : null } : null;
+    const relays = live ? proc!.relays : [];
+    for (const dest of allDestinations.filter(d => d.is_enabled)) {
+      const output = this.relayOutput(dest, sink);
+      const relay = relays.find(r => r.destinationId === dest.id);
+      sections.push(inspectSection(`relay: ${dest.name}`, relayArgs(output.muxerArgs, output.url), relay ? relay.args : null, secrets));
+    }
+    // Relays of destinations disabled or deleted since the start
+    for (const relay of relays.filter(r => !allDestinations.some(d => d.id === r.destinationId && d.is_enabled))) {
+      sections.push(inspectSection(`relay: ${relay.name}`, null, relay.args, secrets));
+    }
+
+    return {
+      running: live,
+      restartNeeded: live && sections.some(s => s.changed),
+      drawtext,
+      onAirFeeder: live && proc!.playout?.feederArgs ? maskArgs(proc!.playout.feederArgs, secrets) : null,
+      sections,
+    };
+  }
+
+  // ─── DRY RUN ─────────────────────────────────────────────
+
+  private dryRunDir(slug: string): string {
+    return path.join(this.dataDir, 'stations', slug, 'dry-run');
+  }
+
+  getDryRun(stationId: string): DryRunInfo | null {
+    const dryRun = this.dryRuns.get(stationId);
+    if (!dryRun) return null;
+    const station = getDb().prepare('SELECT slug FROM stations WHERE id = ?').get(stationId) as any;
+    const dir = station ? this.dryRunDir(station.slug) : null;
+    return {
+      capture: dryRun.capture,
+      startedAt: dryRun.startedAt.toISOString(),
+      captures: dir && fs.existsSync(dir) ? fs.readdirSync(dir).filter(f => DRY_RUN_CAPTURE_RE.test(f)).sort() : [],
+    };
+  }
+
+  /** Path of a capture file of the station's last dry run, or null. */
+  getDryRunFile(stationId: string, file: string): string | null {
+    if (!DRY_RUN_CAPTURE_RE.test(file)) return null;
+    const station = getDb().prepare('SELECT slug FROM stations WHERE id = ?').get(stationId) as any;
+    if (!station) return null;
+    const filePath = path.join(this.dryRunDir(station.slug), file);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  // ─── PROGRAM ARCHIVE ─────────────────────────────────────
+
+  archiveDir(stationId: string): string {
+    return path.join(this.dataDir, 'archive', stationId);
+  }
+
+  private createArchiveRecorder(stationId: string, station: any): ArchiveRecorder {
+    const recorder = new ArchiveRecorder({
+      dir: this.archiveDir(stationId),
+      segmentSec: Math.max(1, station.archive_segment_min) * 60,
+      format: (station.archive_format === 'mp4' ? 'mp4' : 'ts') as ArchiveFormat,
+    });
+    recorder.on('log', (level: string, message: string) => {
+      this.emit('log', stationId, level, 'archive', message);
+    });
+    return recorder;
+  }
+
+  /**
+   * Apply changed archive settings to a running pipeline: the current segment is closed
+   * and recording continues (or stops) with the new settings. No relaunch needed.
+   */
+  refreshArchiveRecorder(stationId: string): void {
+    const proc = this.processes.get(stationId);
+    if (!proc || !proc.ffmpeg || proc.status === 'stopped' || proc.status === 'error') return;
+    const db = getDb();
+    const station = db.prepare('SELECT * FROM stations WHERE id = ?').get(stationId) as any;
+    if (!station) return;
+
+    const wasRecording = !!proc.archive;
+    proc.archive?.stop();
+    proc.archive = null;
+    if (station.archive_enabled) {
+      proc.archive = this.createArchiveRecorder(stationId, station);
+      proc.archive.start();
+    }
+    if (wasRecording !== !!proc.archive) {
+      this.emit('log', stationId, 'info', 'archive', proc.archive ? 'Archive recording started' : 'Archive recording stopped');
+    }
+  }
+
+  /** Enforce retention for one station (or all) — runs every ARCHIVE_PRUNE_INTERVAL_MS. */
+  pruneArchives(stationId?: string): void {
+    const db = getDb();
+    const stations = db.prepare(
+      `SELECT id, archive_retention_days, archive_max_gb FROM stations${stationId ? ' WHERE id = ?' : ''}`
+    ).all(...(stationId ? [stationId] : [])) as any[];
+
+    for (const station of stations) {
+      const maxBytes = Math.round((station.archive_max_gb || 0) * 1024 * 1024 * 1024);
+      const { deleted, freedBytes } = pruneArchive(this.archiveDir(station.id), station.archive_retention_days, maxBytes);
+      if (deleted.length > 0) {
+        this.emit('log', station.id, 'info', 'archive',
+          `Retention removed ${deleted.length} archive segment(s), ${(freedBytes / 1024 / 1024).toFixed(0)} MB`);
       }
-      console.log(`[FFMPEG] Exited with code ${code} for station=${stationId}, restartCount=${proc.restartCount}`);
-      this.emit('log', stationId, 'info', 'app', `FFmpeg exited with code ${code}`);
-      if (proc.status !== 'stopped') {
-        proc.status = 'error';
-        proc.lastError = `FFmpeg exited with code ${code}`;
-        this.emit('status', stationId, 'error');
+    }
+  }
 
-        // Auto-restart logic
-        if (station.auto_restart && proc.restartCount < station.max_restart_attempts) {
-          const delay = Math.min(station.restart_delay_sec * 1000 * Math.pow(1.5, proc.restartCount), 60000);
-          proc.restartCount++;
-          console.log(`[FFMPEG] Auto-restart attempt ${proc.restartCount}/${station.max_restart_attempts} in ${Math.round(delay / 1000)}s for station=${stationId}`);
-          this.emit('log', stationId, 'info', 'app', `Auto-restart attempt ${proc.restartCount} in ${Math.round(delay / 1000)}s`);
-
-          const timer = setTimeout(() => {
-            this.launchFFmpeg(stationId, station, stationDir);
-          }, delay);
-          this.restartTimers.set(stationId, timer);
-        }
+  // ─── DAYPART SCHEDULE ────────────────────────────────────
+
+  /** Playlist the station's schedule selects right now, in the station's timezone. */
+  resolvePlaylist(stationId: string): DaypartPlaylist {
+    const db = getDb();
+    const station = db.prepare('SELECT timezone FROM stations WHERE id = ?').get(stationId) as any;
+    let clock;
+    try {
+      clock = zonedClock(station?.timezone || 'UTC');
+    } catch {
+      clock = zonedClock('UTC');
+    }
+    const slots = db.prepare('SELECT * FROM schedule_slots WHERE station_id = ? ORDER BY created_at ASC').all(stationId) as any[];
+    const overrides = db.prepare('SELECT * FROM schedule_overrides WHERE station_id = ? AND date = ? ORDER BY created_at ASC').all(stationId, clock.date) as any[];
+    const active = resolveActivePlaylist(slots, overrides, clock);
+    const playlist = active.playlistId
+      ? db.prepare('SELECT name FROM playlists WHERE id = ?').get(active.playlistId) as any
+      : null;
+    return { ...active, name: playlist?.name || 'Default' };
+  }
+
+  /**
+   * Switch running stations to the playlist their schedule selects now. Runs every
+   * SCHEDULE_CHECK_INTERVAL_MS, and right away (for one station) after schedule edits.
+   */
+  checkSchedules(stationId?: string): void {
+    for (const [id, proc] of this.processes) {
+      if (stationId && id !== stationId) continue;
+      if (proc.status !== 'running' || !proc.playout) continue;
+
+      const daypart = this.resolvePlaylist(id);
+      const previous = proc.daypart;
+      proc.daypart = daypart;
+      if (daypart.playlistId === proc.playout.getPlaylistId()) continue;
+
+      this.emit('log', id, 'info', 'schedule',
+        `Switching playlist: "${previous?.name || 'Default'}" → "${daypart.name}" (${daypart.source})`);
+      this.emit('schedule', id, daypart);
+      proc.playout.switchPlaylist(daypart.playlistId);
+    }
+  }
+
+  // ─── AUDIO SOURCE FAILOVER ───────────────────────────────
+
+  /**
+   * Pick the audio source to feed the encoder.
+   * Keeps the currently active source while it is enabled and not known to be down,
+   * otherwise falls back to the highest-priority enabled source that isn't marked unreachable.
+   */
+  private resolveAudioSource(stationId: string, preferredId: string | null): any | null {
+    const db = getDb();
+    const sources = db.prepare(
+      'SELECT id, name, url, priority, status FROM audio_sources WHERE station_id = ? AND is_enabled = 1 ORDER BY priority ASC'
+    ).all(stationId) as any[];
+
+    const preferred = sources.find(s => s.id === preferredId);
+    if (preferred && preferred.status !== 'unreachable') return preferred;
+    return sources.find(s => s.status !== 'unreachable') || sources[0] || null;
+  }
+
+  private startSourceMonitor(stationId: string): void {
+    this.stopSourceMonitor(stationId);
+    const timer = setInterval(() => {
+      this.checkSources(stationId).catch((err) => {
+        this.emit('log', stationId, 'warn', 'failover', `Source check failed: ${err.message}`);
+      });
+    }, SOURCE_CHECK_INTERVAL_MS);
+    this.sourceMonitors.set(stationId, timer);
+  }
+
+  private stopSourceMonitor(stationId: string): void {
+    const timer = this.sourceMonitors.get(stationId);
+    if (timer) {
+      clearInterval(timer);
+      this.sourceMonitors.delete(stationId);
+    }
+    this.sourceErrors.delete(stationId);
+    this.recoveryStreaks.delete(stationId);
+    const silence = this.silences.get(stationId);
+    if (silence?.recoveryTimer) clearTimeout(silence.recoveryTimer);
+    this.silences.delete(stationId);
+  }
+
+  /**
+   * Probe every enabled source, move off the active one if it is down,
+   * and move back to a higher-priority source once it has stayed healthy.
+   */
+  private async checkSources(stationId: string): Promise<void> {
+    const proc = this.processes.get(stationId);
+    if (!proc || proc.status !== 'running' || this.sourceChecksInFlight.has(stationId)) return;
+
+    this.sourceChecksInFlight.add(stationId);
+    let results;
+    try {
+      results = await runAudioHealthChecks(stationId);
+    } finally {
+      this.sourceChecksInFlight.delete(stationId);
+    }
+    if (proc.status !== 'running' || this.processes.get(stationId) !== proc) return;
+
+    const db = getDb();
+    const sources = db.prepare(
+      'SELECT id, name, url, priority FROM audio_sources WHERE station_id = ? AND is_enabled = 1 ORDER BY priority ASC'
+    ).all(stationId) as any[];
+    const healthy = new Set(results.filter(r => r.reachable).map(r => r.sourceId));
+    const active = sources.find(s => s.id === proc.activeSourceId);
+
+    if (!active || !healthy.has(active.id)) {
+      this.recoveryStreaks.delete(stationId);
+      const next = sources.find(s => s.id !== proc.activeSourceId && healthy.has(s.id) && !this.isSilentSource(s.id));
+      if (next) {
+        const reason = active ? `${active.name} unreachable`
+          : proc.audioFallback ? `${next.name} recovered`
+          : 'active source disabled or removed';
+        await this.switchAudioSource(stationId, next, reason);
+      } else if (!proc.audioFallback && this.hasFallbackAudio(stationId)) {
+        await this.switchToFallbackAudio(stationId, active ? `${active.name} unreachable` : 'no audio source available');
       }
+      return;
+    }
+
+    // A reachable source can still be playing dead air — don't go back to one that just went silent
+    const preferred = sources.find(s => healthy.has(s.id) && !this.isSilentSource(s.id));
+    if (preferred && preferred.id !== active.id && preferred.priority < active.priority) {
+      const streak = (this.recoveryStreaks.get(stationId) || 0) + 1;
+      if (streak >= SOURCE_RECOVERY_CHECKS) {
+        this.recoveryStreaks.delete(stationId);
+        await this.switchAudioSource(stationId, preferred, `${preferred.name} recovered`);
+      } else {
+        this.recoveryStreaks.set(stationId, streak);
+      }
+    } else {
+      this.recoveryStreaks.delete(stationId);
+    }
+  }
+
+  /**
+   * Count audio input errors reported by the encoder. Enough of them in a short window
+   * means the source dropped or went silent, so fail over without waiting for the next probe.
+   */
+  private recordSourceError(stationId: string, line: string): void {
+    const proc = this.processes.get(stationId);
+    if (!proc?.activeSourceId || proc.status !== 'running') return;
+
+    const now = Date.now();
+    const recent = (this.sourceErrors.get(stationId) || []).filter(t => now - t < SOURCE_ERROR_WINDOW_MS);
+    recent.push(now);
+    this.sourceErrors.set(stationId, recent);
+    if (recent.length < SOURCE_ERROR_THRESHOLD) return;
+
+    this.sourceErrors.delete(stationId);
+    const failedId = proc.activeSourceId;
+    this.markSourceUnreachable(failedId);
+
+    const next = this.resolveAudioSource(stationId, null);
+    const db = getDb();
+    const failed = db.prepare('SELECT name FROM audio_sources WHERE id = ?').get(failedId) as any;
+    if ((!next || next.id === failedId) && this.hasFallbackAudio(stationId)) {
+      this.switchToFallbackAudio(stationId, `${failed?.name || 'active source'} input errors`).catch(() => {});
+      return;
+    }
+    if (!next || next.id === failedId) {
+      this.emit('log', stationId, 'warn', 'failover', `Audio input failing (${line.slice(0, 120)}) — no healthy fallback source available`);
+      return;
+    }
+    this.switchAudioSource(stationId, next, `${failed?.name || 'active source'} input errors`).catch(() => {});
+  }
+
+  private markSourceUnreachable(sourceId: string): void {
+    const db = getDb();
+    db.prepare("UPDATE audio_sources SET status = 'unreachable', last_check = datetime('now') WHERE id = ?").run(sourceId);
+  }
+
+  /** Relaunch the station pipeline on another audio source. */
+  private async switchAudioSource(stationId: string, source: { id: string; name: string }, reason: string): Promise<void> {
+    const proc = this.processes.get(stationId);
+    if (!proc || proc.status === 'stopped' || this.relaunching.has(stationId)) return;
+
+    const db = getDb();
+    const previous = proc.activeSourceId
+      ? db.prepare('SELECT name FROM audio_sources WHERE id = ?').get(proc.activeSourceId) as any
+      : null;
+    const previousName = previous?.name || (proc.audioFallback ? 'local fallback audio' : '—');
+
+    console.log(`[FAILOVER] station=${stationId}: ${previousName} → ${source.name} (${reason})`);
+    this.emit('log', stationId, 'warn', 'failover', `Audio source switched: ${previousName} → ${source.name} (${reason})`);
+    this.emit('source', stationId, {
+      sourceId: source.id,
+      sourceName: source.name,
+      previousSourceId: proc.activeSourceId,
+      reason,
     });
 
-    ffmpeg.on('error', (err) => {
-      console.error(`[FFMPEG] Process error for station=${stationId}: ${err.message}`);
-      proc.status = 'error';
-      proc.lastError = err.message;
-      this.emit('log', stationId, 'error', 'app', `FFmpeg error: ${err.message}`);
-      this.emit('status', stationId, 'error');
+    proc.activeSourceId = source.id;
+    await this.relaunchPipeline(stationId);
+  }
+
+  /** Every source is down: relaunch on the local fallback audio (launchFFmpeg picks it while no source is reachable). */
+  private async switchToFallbackAudio(stationId: string, reason: string): Promise<void> {
+    const proc = this.processes.get(stationId);
+    if (!proc || proc.status === 'stopped' || proc.audioFallback || this.relaunching.has(stationId)) return;
+
+    const db = getDb();
+    const previous = proc.activeSourceId
+      ? db.prepare('SELECT name FROM audio_sources WHERE id = ?').get(proc.activeSourceId) as any
+      : null;
+    if (proc.activeSourceId) this.markSourceUnreachable(proc.activeSourceId);
+
+    console.log(`[FAILOVER] station=${stationId}: ${previous?.name || '—'} → local fallback audio (${reason})`);
+    this.emit('log', stationId, 'warn', 'failover', `Audio source switched: ${previous?.name || '—'} → local fallback audio (${reason})`);
+    this.emit('source', stationId, {
+      sourceId: '',
+      sourceName: 'Local fallback audio',
+      previousSourceId: proc.activeSourceId,
+      reason,
     });
+
+    proc.activeSourceId = null;
+    await this.relaunchPipeline(stationId);
+  }
+
+  /** Whether the station has local fallback audio to switch to. */
+  private hasFallbackAudio(stationId: string): boolean {
+    const row = getDb().prepare(
+      'SELECT s.fallback_audio_enabled AS enabled, (SELECT COUNT(*) FROM fallback_audio f WHERE f.station_id = s.id) AS files FROM stations s WHERE s.id = ?'
+    ).get(stationId) as any;
+    return !!row?.enabled && row.files > 0;
+  }
+
+  /** Writes the concat list of the station's fallback audio; null when it has none or it is turned off. */
+  private writeFallbackAudioList(stationId: string, station: any, stationDir: string): string | null {
+    const files = this.fallbackAudioFiles(stationId, station);
+    if (files.length === 0) return null;
+
+    const listPath = this.fallbackAudioListPath(stationDir);
+    fs.writeFileSync(listPath, files.map(f => `file '${f}'`).join('\n') + '\n');
+    return listPath;
+  }
+
+  /** The station's fallback audio files that exist on disk, in play order (none when disabled). */
+  private fallbackAudioFiles(stationId: string, station: any): string[] {
+    if (!station.fallback_audio_enabled) return [];
+    const dir = path.join(__dirname, '..', '..', 'uploads', stationId, 'fallback-audio');
+    return (getDb().prepare(
+      'SELECT filename FROM fallback_audio WHERE station_id = ? ORDER BY sort_order ASC'
+    ).all(stationId) as any[])
+      .map(f => path.join(dir, f.filename))
+      .filter(f => fs.existsSync(f));
+  }
+
+  private fallbackAudioListPath(stationDir: string): string {
+    return path.join(stationDir, 'fallback-audio.txt');
+  }
+
+  /** Replace the running pipeline with a fresh one (current station settings), without auto-restart kicking in. */
+  private async relaunchPipeline(stationId: string): Promise<void> {
+    const proc = this.processes.get(stationId);
+    if (!proc || proc.status === 'stopped' || this.relaunching.has(stationId)) return;
+
+    const db = getDb();
+    const station = db.prepare('SELECT * FROM stations WHERE id = ?').get(stationId) as any;
+    if (!station) return;
+
+    this.relaunching.add(stationId);
+    try {
+      await this.terminatePipeline(proc);
+      if (this.processes.get(stationId)?.status === 'stopped') return;  // station was stopped meanwhile
+
+      const stationDir = path.join(this.dataDir, 'stations', station.slug);
+      await this.launchFFmpeg(stationId, station, stationDir);
+    } finally {
+      this.relaunching.delete(stationId);
+    }
+  }
+
+  /** Kill feeder + encoder without triggering auto-restart; resolves once the encoder has exited. */
+  private terminatePipeline(proc: StationProcess): Promise<void> {
+    proc.expectedExit = true;
+    return new Promise((resolve) => {
+      proc.playout?.stop();
+      this.stopOutputs(proc);
+      const ffmpeg = proc.ffmpeg;
+      if (!ffmpeg || ffmpeg.exitCode !== null || ffmpeg.signalCode !== null) return resolve();
+      const killTimer = setTimeout(() => ffmpeg.kill('SIGKILL'), 5000);
+      ffmpeg.once('close', () => {
+        clearTimeout(killTimer);
+        resolve();
+      });
+      ffmpeg.kill('SIGTERM');
+    });
+  }
+
+  // ─── SILENCE DETECTION ───────────────────────────────────
+
+  /**
+   * silencedetect output of the encoder. Dead air is logged and reported once per silence;
+   * with stations.silence_failover the station moves to the next audio source, and the silent
+   * one is kept out of the automatic switch-back for SILENT_SOURCE_HOLD_MS.
+   */
+  private handleSilence(stationId: string, proc: StationProcess, station: any, silence: SilenceEvent): void {
+    if (this.processes.get(stationId) !== proc || proc.status !== 'running') return;
+    const db = getDb();
+    const source = proc.activeSourceId ? db.prepare('SELECT name FROM audio_sources WHERE id = ?').get(proc.activeSourceId) as any : null;
+    const sourceName = source?.name || 'audio input';
+
+    if (silence.event === 'end') {
+      this.endSilence(stationId, sourceName);
+      return;
+    }
+
+    const existing = this.silences.get(stationId);
+    if (existing?.recoveryTimer) clearTimeout(existing.recoveryTimer);
+    const since = existing?.since ?? Date.now() - station.silence_duration_sec * 1000;
+    this.silences.set(stationId, { since, sourceId: proc.activeSourceId, recoveryTimer: null });
+
+    const message = `Dead air on ${sourceName}: below ${station.silence_threshold_db} dB for ${station.silence_duration_sec}s`;
+    this.emit('log', stationId, 'warn', 'silence', message);
+    this.emit('silence', stationId, {
+      state: 'silent', sourceId: proc.activeSourceId, sourceName,
+      silentForSec: Math.round((Date.now() - since) / 1000), message,
+    } as SilenceInfo);
+
+    if (!station.silence_failover) return;
+    if (proc.activeSourceId) this.silentSources.set(proc.activeSourceId, Date.now());
+    const next = (db.prepare(
+      "SELECT id, name FROM audio_sources WHERE station_id = ? AND is_enabled = 1 AND status != 'unreachable' ORDER BY priority ASC"
+    ).all(stationId) as any[]).find(s => s.id !== proc.activeSourceId && !this.isSilentSource(s.id));
+    if (!next) {
+      this.emit('log', stationId, 'warn', 'failover', `${sourceName} is silent — no other audio source to fail over to`);
+      return;
+    }
+    this.switchAudioSource(stationId, next, `${sourceName} silent`).catch(() => {});
+  }
+
+  private endSilence(stationId: string, sourceName: string): void {
+    const silence = this.silences.get(stationId);
+    if (!silence) return;
+    if (silence.recoveryTimer) clearTimeout(silence.recoveryTimer);
+    this.silences.delete(stationId);
+
+    const silentForSec = Math.round((Date.now() - silence.since) / 1000);
+    const message = `Audio is back on ${sourceName} after ${silentForSec}s of silence`;
+    this.emit('log', stationId, 'info', 'silence', message);
+    this.emit('silence', stationId, {
+      state: 'recovered', sourceId: this.processes.get(stationId)?.activeSourceId || null, sourceName, silentForSec, message,
+    } as SilenceInfo);
+  }
+
+  private isSilentSource(sourceId: string): boolean {
+    const at = this.silentSources.get(sourceId);
+    return at !== undefined && Date.now() - at < SILENT_SOURCE_HOLD_MS;
   }
 
   async generatePreview(stationId: string): Promise<string | null> {
@@ -574,8 +1887,9 @@ echo "FEEDER: All repeats finished" >&2
     const artistFilePath = path.join(stationDir, 'artist.txt');
     const titleFilePath = path.join(stationDir, 'songtitle.txt');
     const previewPath = path.join(stationDir, 'preview.jpg');
+    const visualizer = station.video_mode === 'visualizer';
 
-    if (!fs.existsSync(playlistPath)) return null;
+    if (!visualizer && !fs.existsSync(playlistPath)) return null;
 
     // Build filter for preview
     let vf = `scale=${station.video_width}:${station.video_height}`;
@@ -636,9 +1950,17 @@ echo "FEEDER: All repeats finished" >&2
     }
 
     return new Promise((resolve) => {
+      const input = visualizer
+        ? [
+          // A test tone stands in for the live audio so the scope has something to draw
+          '-f', 'lavfi', '-i', 'sine=frequency=220:beep_factor=4:duration=3',
+          ...visualizerBackgroundArgs(station, this.visualizerImage(stationId, station)),
+          '-filter_complex', `${visualizerGraph(station, '0:a', '1:v')};[vis]${vf}[v]`,
+          '-map', '[v]', '-ss', '1',
+        ]
+        : ['-f', 'concat', '-safe', '0', '-i', playlistPath, '-vf', vf];
       const args = [
-        '-y', '-f', 'concat', '-safe', '0', '-i', playlistPath,
-        '-vf', vf,
+        '-y', ...input,
         '-frames:v', '1',
         '-update', '1',
         '-q:v', '2',
@@ -664,6 +1986,13 @@ echo "FEEDER: All repeats finished" >&2
     });
   }
 
+  /** Uploaded visualizer background image, or null for the solid background colour */
+  private visualizerImage(stationId: string, station: any): string | null {
+    if (!station.visualizer_bg_image) return null;
+    const imagePath = path.join(__dirname, '..', '..', 'uploads', stationId, station.visualizer_bg_image);
+    return fs.existsSync(imagePath) ? imagePath : null;
+  }
+
   private _drawtextSupported: boolean | null = null;
   private async checkDrawtextSupport(): Promise<boolean> {
     if (this._drawtextSupported !== null) return this._drawtextSupported;
@@ -687,7 +2016,9 @@ echo "FEEDER: All repeats finished" >&2
 
   private setProcessStatus(stationId: string, status: StationProcess['status'], error: string) {
     const proc = this.processes.get(stationId) || {
-      ffmpeg: null, feeder: null, status, restartCount: 0, lastError: error, startedAt: null, pid: null,
+      ffmpeg: null, playout: null, status, lastError: error, startedAt: null, pid: null,
+      activeSourceId: null, audioFallback: false, expectedExit: false, relays: [], encodes: [], hls: null, archive: null, daypart: null, metrics: null,
+      loudness: null, resources: null, outputBytes: 0, lastOutputAt: 0, lastProgressAt: 0,
     };
     proc.status = status;
     proc.lastError = error;
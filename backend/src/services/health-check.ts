@@ -1,5 +1,6 @@
 import { spawn } from 'child_process';
 import { getDb } from '../db/schema';
+import { OutputTarget, outputMuxerArgs, outputUrl, validateTarget } from './output-protocol';
 
 interface HealthCheckResult {
   sourceId: string;
@@ -56,9 +57,12 @@ export async function runAudioHealthChecks(stationId: string): Promise<HealthChe
   return results;
 }
 
-export async function testRtmpDestination(rtmpUrl: string, streamKey: string): Promise<{ success: boolean; error?: string }> {
+export async function testRtmpDestination(target: OutputTarget): Promise<{ success: boolean; error?: string }> {
+  const invalid = validateTarget(target);
+  if (invalid) return { success: false, error: invalid };
+
   return new Promise((resolve) => {
-    const fullUrl = streamKey ? `${rtmpUrl}/${streamKey}` : rtmpUrl;
+    const fullUrl = outputUrl(target);
     // Generate a 10-second test pattern with "TEST" overlay
     const args = [
       '-y', '-f', 'lavfi', '-i', 'testsrc2=duration=10:size=1280x720:rate=30',
@@ -66,7 +70,7 @@ export async function testRtmpDestination(rtmpUrl: string, streamKey: string): P
       '-vf', "drawtext=text='TEST STREAM':fontsize=60:fontcolor=red:x=(w-tw)/2:y=(h-th)/2:box=1:boxcolor=black@0.7:boxborderw=10",
       '-c:v', 'libx264', '-preset', 'ultrafast', '-b:v', '1000k',
       '-c:a', 'aac', '-b:a', '128k',
-      '-f', 'flv', '-flvflags', 'no_duration_filesize',
+      ...outputMuxerArgs(target.protocol),
       fullUrl,
     ];
 
@@ -0,0 +1,118 @@
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { trackChild } from './process-registry';
+
+export const HLS_PLAYLIST = 'index.m3u8';
+
+// Rolling window: HLS_LIST_SIZE segments of HLS_SEGMENT_SEC each (~12s of live output)
+const HLS_SEGMENT_SEC = 2;
+const HLS_LIST_SIZE = 6;
+const RESPAWN_DELAY_MS = 3000;
+
+/**
+ * Local monitor output: remuxes the station's encoded program (MPEG-TS on stdin)
+ * into a short rolling HLS playlist in the station data dir, so operators can
+ * watch and hear exactly what goes to the destinations (overlay, audio, A/V sync).
+ *
+ * Stream copy only — costs no encoding CPU. Like a destination relay it never
+ * applies backpressure to the encoder; if it dies it is respawned.
+ */
+export class HlsMonitor extends EventEmitter {
+  private outputDir: string;
+  private proc: ChildProcess | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private stopped = true;
+
+  constructor(outputDir: string) {
+    super();
+    this.outputDir = outputDir;
+  }
+
+  get pid(): number | null {
+    return this.proc?.pid || null;
+  }
+
+  start() {
+    this.stopped = false;
+    this.clearOutput();
+    this.spawnMuxer();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.proc && this.proc.exitCode === null) {
+      const proc = this.proc;
+      proc.kill('SIGTERM');
+      setTimeout(() => { if (proc.exitCode === null) proc.kill('SIGKILL'); }, 3000);
+    }
+    this.proc = null;
+    // A stale playlist would make the player think the station is still live
+    this.clearOutput();
+  }
+
+  /** Forward a chunk of the program stream; dropped while the muxer is down or busy. */
+  write(chunk: Buffer) {
+    const stdin = this.proc?.stdin;
+    if (!stdin || !stdin.writable || stdin.writableNeedDrain) return;
+    stdin.write(chunk);
+  }
+
+  private clearOutput() {
+    try {
+      fs.rmSync(this.outputDir, { recursive: true, force: true });
+    } catch {}
+  }
+
+  private spawnMuxer() {
+    if (this.stopped) return;
+    fs.mkdirSync(this.outputDir, { recursive: true });
+
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      '-fflags', '+genpts+discardcorrupt',
+      '-f', 'mpegts',
+      '-i', 'pipe:0',
+      '-map', '0',
+      '-c', 'copy',
+      '-f', 'hls',
+      '-hls_time', String(HLS_SEGMENT_SEC),
+      '-hls_list_size', String(HLS_LIST_SIZE),
+      '-hls_flags', 'delete_segments+omit_endlist+independent_segments',
+      '-hls_segment_filename', path.join(this.outputDir, 'seg_%05d.ts'),
+      path.join(this.outputDir, HLS_PLAYLIST),
+    ];
+
+    const proc = spawn('ffmpeg', args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    trackChild(proc);
+    this.proc = proc;
+
+    proc.stdin?.on('error', () => {});
+
+    let lastError = '';
+    proc.stderr?.on('data', (data: Buffer) => {
+      const line = data.toString().trim();
+      if (line) lastError = line.split('\n').pop()!.slice(0, 500);
+    });
+
+    proc.on('close', (code) => {
+      if (this.proc !== proc) return;  // stopped
+      this.proc = null;
+      if (this.stopped) return;
+      this.emit('log', 'warn', `HLS monitor exited (${lastError || `code ${code}`}) — restarting`);
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.spawnMuxer();
+      }, RESPAWN_DELAY_MS);
+    });
+
+    proc.on('error', (err) => {
+      this.emit('log', 'error', `HLS monitor process error: ${err.message}`);
+    });
+  }
+}
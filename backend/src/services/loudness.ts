@@ -0,0 +1,61 @@
+/**
+ * Loudness normalization (loudnorm) and EBU R128 metering (ebur128) for the encoder's audio.
+ *
+ * ebur128 with framelog=info prints a reading every 100 ms:
+ *   [Parsed_ebur128_1 @ 0x55d0c8] t: 12.3    TARGET:-23 LUFS    M: -16.2 S: -15.8     I: -14.9 LUFS       LRA:   5.1 LU
+ * (its TARGET is the meter's fixed reference, not the normalization target).
+ */
+
+export interface LoudnessReading {
+  momentary: number | null;    // LUFS over the last 400 ms
+  shortTerm: number | null;    // LUFS over the last 3 s
+  integrated: number | null;   // LUFS since the encoder started
+  lra: number | null;          // loudness range, LU
+  updatedAt: string;
+}
+
+export interface LoudnormSettings {
+  targetLufs: number;          // integrated loudness target
+  truePeakDb: number;          // true-peak ceiling, dBTP
+}
+
+// Readings below this are digital silence as far as the meter is concerned
+const FLOOR_LUFS = -70;
+
+export function loudnormFilter(settings: LoudnormSettings): string {
+  return `loudnorm=I=${settings.targetLufs}:TP=${settings.truePeakDb}:LRA=11`;
+}
+
+export const EBUR128_FILTER = 'ebur128=framelog=info';
+
+/** Parse one stderr line of the encoder; returns null for anything that isn't an ebur128 reading. */
+export function parseLoudnessLine(line: string): LoudnessReading | null {
+  if (!line.includes('ebur128') || !/\bM:/.test(line)) return null;
+  const value = (key: string): number | null => {
+    const m = new RegExp(`\\b${key}:\\s*(-?[\\d.]+|-?inf|nan)`, 'i').exec(line);
+    if (!m) return null;
+    const n = Number(m[1]);
+    return isFinite(n) ? Math.max(FLOOR_LUFS, n) : FLOOR_LUFS;
+  };
+  const momentary = value('M');
+  if (momentary === null) return null;
+  const lra = /\bLRA:\s*([\d.]+)/.exec(line);
+  return {
+    momentary,
+    shortTerm: value('S'),
+    integrated: value('I'),
+    lra: lra ? Number(lra[1]) : null,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/** Returns an error message for invalid loudness settings, or null. */
+export function validateLoudness(values: Record<string, any>): string | null {
+  if (values.loudnorm_target_lufs !== undefined && !(values.loudnorm_target_lufs >= -70 && values.loudnorm_target_lufs <= -5)) {
+    return 'Loudness target must be between -70 and -5 LUFS';
+  }
+  if (values.loudnorm_true_peak !== undefined && !(values.loudnorm_true_peak >= -9 && values.loudnorm_true_peak <= 0)) {
+    return 'True-peak ceiling must be between -9 and 0 dBTP';
+  }
+  return null;
+}
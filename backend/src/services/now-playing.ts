@@ -21,6 +21,7 @@ export class NowPlayingService extends EventEmitter {
   private config: NowPlayingConfig;
   private timer: NodeJS.Timeout | null = null;
   private lastTrack: string = '';
+  private override: TrackInfo | null = null;
 
   constructor(config: NowPlayingConfig) {
     super();
@@ -39,6 +40,15 @@ export class NowPlayingService extends EventEmitter {
     }
   }
 
+  /** Show fixed text instead of the polled track (e.g. while the station plays its fallback audio); null = back to polling. */
+  setOverride(text: string | null) {
+    const next = text ? this.parseTrackString(text) : null;
+    if (next?.full === this.override?.full) return;
+    this.override = next;
+    this.lastTrack = '';
+    this.poll();
+  }
+
   private getArtistFilePath(): string {
     const dir = path.dirname(this.config.textFilePath);
     return path.join(dir, 'artist.txt');
@@ -59,7 +69,9 @@ export class NowPlayingService extends EventEmitter {
     try {
       let info: TrackInfo = { artist: '', title: '', full: '' };
 
-      if (this.config.mode === 'azuracast' && this.config.azuracastUrl) {
+      if (this.override) {
+        info = { ...this.override };
+      } else if (this.config.mode === 'azuracast' && this.config.azuracastUrl) {
         info = await this.fetchAzuraCast();
       } else if (this.config.mode === 'icecast' && this.config.icecastUrl) {
         info = await this.fetchIcecast();
@@ -0,0 +1,79 @@
+export type OutputProtocol = 'rtmp' | 'rtmps' | 'srt';
+
+export const OUTPUT_PROTOCOLS: OutputProtocol[] = ['rtmp', 'rtmps', 'srt'];
+
+// SRT limits (libsrt): receiver buffer latency in ms, AES passphrase length
+const SRT_MIN_LATENCY_MS = 20;
+const SRT_MAX_LATENCY_MS = 8000;
+const SRT_PASSPHRASE_MIN = 10;
+const SRT_PASSPHRASE_MAX = 79;
+
+/** The fields of an rtmp_destinations row that describe how to reach it. */
+export interface OutputTarget {
+  protocol: OutputProtocol;
+  rtmp_url: string;          // base URL for every protocol (column name predates SRT)
+  stream_key: string;        // appended as a path for RTMP(S), sent as streamid for SRT
+  srt_latency_ms: number;
+  srt_passphrase: string;
+}
+
+export function normalizeTarget(row: any): OutputTarget {
+  return {
+    protocol: row.protocol || 'rtmp',
+    rtmp_url: (row.rtmp_url || '').trim(),
+    stream_key: (row.stream_key || '').trim(),
+    srt_latency_ms: Number(row.srt_latency_ms ?? 120),
+    srt_passphrase: row.srt_passphrase || '',
+  };
+}
+
+/** Returns an error message, or null when the destination can be used. */
+export function validateTarget(target: OutputTarget): string | null {
+  if (!OUTPUT_PROTOCOLS.includes(target.protocol)) {
+    return `Unknown protocol "${target.protocol}" (expected ${OUTPUT_PROTOCOLS.join(', ')})`;
+  }
+  if (!target.rtmp_url) return 'URL is required';
+  if (!target.rtmp_url.toLowerCase().startsWith(`${target.protocol}://`)) {
+    return `URL must start with ${target.protocol}://`;
+  }
+  if (target.protocol === 'srt') {
+    if (!/^srt:\/\/[^/?]+:\d+/i.test(target.rtmp_url)) return 'SRT URL must include host and port (srt://host:port)';
+    if (!Number.isInteger(target.srt_latency_ms) || target.srt_latency_ms < SRT_MIN_LATENCY_MS || target.srt_latency_ms > SRT_MAX_LATENCY_MS) {
+      return `SRT latency must be ${SRT_MIN_LATENCY_MS}-${SRT_MAX_LATENCY_MS} ms`;
+    }
+    const len = target.srt_passphrase.length;
+    if (len > 0 && (len < SRT_PASSPHRASE_MIN || len > SRT_PASSPHRASE_MAX)) {
+      return `SRT passphrase must be ${SRT_PASSPHRASE_MIN}-${SRT_PASSPHRASE_MAX} characters`;
+    }
+  }
+  return null;
+}
+
+/** Full FFmpeg output URL, including credentials — never log it. */
+export function outputUrl(target: OutputTarget): string {
+  if (target.protocol !== 'srt') {
+    return target.stream_key ? `${target.rtmp_url.replace(/\/+$/, '')}/${target.stream_key}` : target.rtmp_url;
+  }
+  // Options go in the query string; FFmpeg's srt protocol expects latency in microseconds
+  const params = new URLSearchParams();
+  params.set('mode', 'caller');
+  params.set('latency', String(target.srt_latency_ms * 1000));
+  if (target.srt_passphrase) {
+    params.set('passphrase', target.srt_passphrase);
+    params.set('pbkeylen', '16');
+  }
+  if (target.stream_key) params.set('streamid', target.stream_key);
+  const sep = target.rtmp_url.includes('?') ? '&' : '?';
+  return `${target.rtmp_url}${sep}${params.toString()}`;
+}
+
+/**
+ * Muxer + options for the program stream (H.264 + AAC in MPEG-TS) on the given protocol.
+ * RTMP(S) carries FLV (AAC needs its ADTS headers stripped); SRT carries MPEG-TS as is.
+ */
+export function outputMuxerArgs(protocol: OutputProtocol): string[] {
+  if (protocol === 'srt') {
+    return ['-f', 'mpegts', '-mpegts_flags', '+resend_headers'];
+  }
+  return ['-bsf:a', 'aac_adtstoasc', '-f', 'flv', '-flvflags', 'no_duration_filesize'];
+}
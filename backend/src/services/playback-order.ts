@@ -0,0 +1,98 @@
+export type PlaybackMode = 'sequential' | 'shuffle' | 'weighted';
+
+export const PLAYBACK_MODES: PlaybackMode[] = ['sequential', 'shuffle', 'weighted'];
+
+export interface PlaybackSettings {
+  mode: PlaybackMode;
+  noRepeatWindow: number;   // don't replay any of the last N items (0 = off; ignored in sequential mode)
+}
+
+interface OrderItem {
+  id: string;
+  sort_order: number;
+  weight: number;
+}
+
+/**
+ * Chooses the next playlist item. Works on the current item list every time, so
+ * reorders, enables, deletes and weight changes apply at the next item boundary.
+ *
+ * - sequential: by sort_order, wrapping around.
+ * - shuffle: every item once per cycle in random order, then a new cycle.
+ * - weighted: independent draws proportional to each item's weight.
+ *
+ * The no-repeat window never leaves an empty choice: it is capped at items - 1.
+ */
+export class PlaybackOrder {
+  private lastItemId: string | null = null;
+  private lastSortOrder = -Infinity;
+  private recent: string[] = [];                 // most recent last
+  private cyclePlayed: Set<string> = new Set();  // shuffle: items already played this cycle
+  private random: () => number;
+
+  constructor(recentIds: string[] = [], random: () => number = Math.random) {
+    this.recent = recentIds.slice(-100);
+    this.random = random;
+  }
+
+  next<T extends OrderItem>(items: T[], settings: PlaybackSettings): T | null {
+    if (items.length === 0) return null;
+    const item = settings.mode === 'sequential'
+      ? this.nextSequential(items)
+      : this.nextRandom(items, settings);
+
+    this.lastItemId = item.id;
+    this.lastSortOrder = item.sort_order;
+    this.recent.push(item.id);
+    if (this.recent.length > 100) this.recent.shift();
+    if (settings.mode === 'shuffle') this.cyclePlayed.add(item.id);
+    return item;
+  }
+
+  /** Start over, e.g. on another playlist: sequential begins at the top, shuffle starts a new cycle. */
+  reset() {
+    this.lastItemId = null;
+    this.lastSortOrder = -Infinity;
+    this.cyclePlayed.clear();
+  }
+
+  /** Item after the last one played, by current sort order (wraps around). */
+  private nextSequential<T extends OrderItem>(items: T[]): T {
+    const idx = items.findIndex(i => i.id === this.lastItemId);
+    if (idx >= 0) return items[(idx + 1) % items.length];
+    // Last item was deleted/disabled/moved — continue from where it sat in the order
+    return items.find(i => i.sort_order > this.lastSortOrder) || items[0];
+  }
+
+  private nextRandom<T extends OrderItem>(items: T[], settings: PlaybackSettings): T {
+    const window = Math.min(Math.max(0, settings.noRepeatWindow), items.length - 1);
+    const blocked = new Set(window > 0 ? this.recent.slice(-window) : []);
+    // Never play the same item twice in a row when there is a choice
+    if (items.length > 1 && this.lastItemId) blocked.add(this.lastItemId);
+
+    let pool = items;
+    if (settings.mode === 'shuffle') {
+      pool = items.filter(i => !this.cyclePlayed.has(i.id));
+      if (pool.length === 0) {
+        this.cyclePlayed.clear();
+        pool = items;
+      }
+    }
+    const allowed = pool.filter(i => !blocked.has(i.id));
+    const candidates = allowed.length > 0 ? allowed : pool;
+
+    if (settings.mode === 'weighted') return this.weightedPick(candidates);
+    return candidates[Math.floor(this.random() * candidates.length)];
+  }
+
+  private weightedPick<T extends OrderItem>(items: T[]): T {
+    const total = items.reduce((sum, i) => sum + Math.max(0, i.weight), 0);
+    if (total <= 0) return items[Math.floor(this.random() * items.length)];
+    let r = this.random() * total;
+    for (const item of items) {
+      r -= Math.max(0, item.weight);
+      if (r < 0) return item;
+    }
+    return items[items.length - 1];
+  }
+}
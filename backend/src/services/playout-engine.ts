@@ -0,0 +1,458 @@
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { Writable } from 'stream';
+import fs from 'fs';
+import path from 'path';
+import { getDb } from '../db/schema';
+import { trackChild } from './process-registry';
+import { PLAYBACK_MODES, PlaybackOrder, PlaybackSettings } from './playback-order';
+import { Slate, slateArgs } from './slate';
+
+interface PlayoutConfig {
+  stationId: string;
+  uploadsDir: string;
+  width: number;
+  height: number;
+  fps: number;
+  bitrate: string;
+  profile: string;   // renditionProfile() of the station — only matching renditions are played
+  playlistId: string | null;   // daypart playlist to play (NULL = default playlist)
+  drawtext: boolean;           // FFmpeg has drawtext (for the generated slate card)
+}
+
+export interface OnAirItem {
+  itemId: string;   // '' while the fallback slate is on air
+  name: string;
+  startedAt: string;
+}
+
+// When every item fails to play, wait this long before walking the playlist again
+const IDLE_RETRY_MS = 5000;
+// An item that exits faster than this without output counts as a failed play
+const MIN_PLAY_MS = 2000;
+// Rows of playout_history kept per station
+const HISTORY_LIMIT = 10000;
+// On-air time of an image item without a duration
+const DEFAULT_SLIDE_SEC = 10;
+// Length of one slate clip — the playlist is tried again after each one
+const SLATE_CLIP_SEC = 5;
+// An item that stops producing video for this long is killed and counts as failed
+const FEED_STALL_MS = 15000;
+
+/** Output format of every feeder (the station's video settings). */
+export type FeederFrame = Pick<PlayoutConfig, 'width' | 'height' | 'fps' | 'bitrate'>;
+
+/**
+ * Feeder of an item without a ready rendition: decode any codec → H.264 MPEG-TS
+ * at the station's resolution/fps, in real time (-re).
+ */
+export function transcodeArgs(frame: FeederFrame, filePath: string): string[] {
+  return [
+    '-hide_banner', '-loglevel', 'warning',
+    '-re', '-i', filePath,
+    '-vf', fitFilter(frame),
+    ...encodeArgs(frame),
+  ];
+}
+
+/** Scale + letterbox to the station's frame at its fps. */
+function fitFilter(frame: FeederFrame): string {
+  const { width, height, fps } = frame;
+  return `fps=${fps},scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`;
+}
+
+/** H.264 at the station's bitrate with fixed 2s GOPs, as MPEG-TS on stdout. */
+function encodeArgs(frame: FeederFrame): string[] {
+  const { fps, bitrate } = frame;
+  return [
+    '-c:v', 'libx264', '-preset', 'veryfast', '-tune', 'zerolatency',
+    '-b:v', bitrate, '-maxrate', bitrate, '-bufsize', `${parseInt(bitrate) * 2}k`,
+    '-g', String(fps * 2), '-keyint_min', String(fps * 2), '-sc_threshold', '0',
+    '-pix_fmt', 'yuv420p', '-an',
+    '-f', 'mpegts',
+    '-muxdelay', '0', '-muxpreload', '0',
+    'pipe:1',
+  ];
+}
+
+/**
+ * Continuous playout: feeds the encoder's stdin one playlist item at a time.
+ *
+ * Each item is played by its own short-lived FFmpeg that outputs uniform H.264
+ * MPEG-TS (same resolution/fps), so codec changes between files never reach the
+ * encoder. Items with a ready rendition are stream-copied; the rest are normalized
+ * on the fly until their rendition is done. The next item is read from `playlist_items` at every item boundary,
+ * which means reorders, enables and deletes apply without restarting the station.
+ * Loops forever until stopped.
+ *
+ * Image items are rendered live as a still for their duration_sec; consecutive images crossfade
+ * (the clip of the next image starts on the previous one and fades into it).
+ *
+ * When nothing is playable (empty playlist, every file missing or failing, a decoder hanging),
+ * the station's fallback slate is fed instead, so the encoder never runs out of video and the
+ * destinations keep receiving the radio audio. The slate is shown until an item plays again.
+ *
+ * Only items of the current playlist are played; the supervisor switches it at daypart boundaries.
+ * Which item comes next depends on the station's playback mode (see PlaybackOrder).
+ * Every play is written to `playout_history`, so the order actually aired can be audited.
+ */
+export class PlayoutEngine extends EventEmitter {
+  private config: PlayoutConfig;
+  private output: Writable | null = null;
+  private current: ChildProcess | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private stopped = true;
+  private order: PlaybackOrder;
+  private playlistId: string | null;
+  private consecutiveFailures = 0;
+  private onAir: OnAirItem | null = null;
+  private skipRequested = false;
+  private lastSlide: string | null = null;   // image on air at the end of the last item, for crossfades
+  private onSlate = false;
+
+  constructor(config: PlayoutConfig) {
+    super();
+    this.config = config;
+    this.playlistId = config.playlistId;
+
+    const db = getDb();
+    // Plays cut off by a crash/restart never got an outcome
+    db.prepare("UPDATE playout_history SET outcome = 'interrupted' WHERE station_id = ? AND outcome IS NULL").run(config.stationId);
+    // Seed the no-repeat window with what aired before the restart
+    const recent = db.prepare(
+      'SELECT item_id FROM playout_history WHERE station_id = ? ORDER BY id DESC LIMIT 100'
+    ).all(config.stationId) as any[];
+    this.order = new PlaybackOrder(recent.map(r => r.item_id).reverse());
+  }
+
+  /** PID of the item decoder currently on air (for process accounting) */
+  get pid(): number | null {
+    return this.current?.pid || null;
+  }
+
+  /** Arguments of the item decoder currently on air (for the command inspector) */
+  get feederArgs(): string[] | null {
+    return this.current ? this.current.spawnargs.slice(1) : null;
+  }
+
+  /** Video settings the engine was started with — feeders keep them until the station restarts */
+  get frame(): FeederFrame {
+    return this.config;
+  }
+
+  getOnAir(): OnAirItem | null {
+    return this.onAir;
+  }
+
+  getPlaylistId(): string | null {
+    return this.playlistId;
+  }
+
+  /** Cut over to another playlist now: the item on air is stopped and the new playlist starts from the top. */
+  switchPlaylist(playlistId: string | null) {
+    if (playlistId === this.playlistId) return;
+    this.playlistId = playlistId;
+    this.order.reset();
+    if (this.current) {
+      this.skip();
+    } else if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+      this.playNext();
+    }
+  }
+
+  start(output: Writable) {
+    this.output = output;
+    this.stopped = false;
+    // Encoder went away — nothing left to feed
+    output.on('error', () => this.stop());
+    this.playNext();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    const proc = this.current;
+    this.current = null;
+    if (proc && proc.exitCode === null) {
+      proc.stdout?.unpipe();
+      proc.kill('SIGTERM');
+      setTimeout(() => { if (proc.exitCode === null) proc.kill('SIGKILL'); }, 3000);
+    }
+    this.onAir = null;
+    this.onSlate = false;
+  }
+
+  /** Skip the item on air; the next one starts immediately. */
+  skip() {
+    if (this.current && this.current.exitCode === null) {
+      this.skipRequested = true;
+      this.current.kill('SIGTERM');
+    }
+  }
+
+  private loadItems(): any[] {
+    const items = this.queryItems(this.playlistId);
+    // An empty daypart playlist falls back to the default one instead of going to black
+    if (items.length === 0 && this.playlistId !== null) return this.queryItems(null);
+    return items;
+  }
+
+  private queryItems(playlistId: string | null): any[] {
+    const db = getDb();
+    return db.prepare(
+      'SELECT id, filename, original_name, media_type, duration_sec, sort_order, weight, rendition_status, rendition_filename, rendition_profile FROM playlist_items WHERE station_id = ? AND playlist_id IS ? AND is_enabled = 1 ORDER BY sort_order ASC'
+    ).all(this.config.stationId, playlistId) as any[];
+  }
+
+  private loadSettings(): PlaybackSettings {
+    const db = getDb();
+    const station = db.prepare('SELECT playback_mode, no_repeat_window FROM stations WHERE id = ?').get(this.config.stationId) as any;
+    return {
+      mode: PLAYBACK_MODES.includes(station?.playback_mode) ? station.playback_mode : 'sequential',
+      noRepeatWindow: station?.no_repeat_window || 0,
+    };
+  }
+
+  /** The station's fallback slate, or null when it is turned off. */
+  private loadSlate(): Slate | null {
+    const station = getDb().prepare('SELECT name, slate_enabled, slate_image, slate_text FROM stations WHERE id = ?').get(this.config.stationId) as any;
+    if (!station?.slate_enabled) return null;
+    const imagePath = station.slate_image ? path.join(this.config.uploadsDir, station.slate_image) : null;
+    return {
+      stationName: station.name,
+      text: station.slate_text,
+      imagePath: imagePath && fs.existsSync(imagePath) ? imagePath : null,
+      drawtext: this.config.drawtext,
+    };
+  }
+
+  private loadCrossfade(): number {
+    const station = getDb().prepare('SELECT slide_crossfade_sec FROM stations WHERE id = ?').get(this.config.stationId) as any;
+    return Math.max(0, station?.slide_crossfade_sec || 0);
+  }
+
+  private playNext() {
+    if (this.stopped || !this.output) return;
+
+    const items = this.loadItems();
+    const settings = this.loadSettings();
+    const item = this.consecutiveFailures < items.length ? this.order.next(items, settings) : null;
+    if (!item) {
+      const reason = items.length > 0 ? 'No playable items in playlist' : 'Playlist is empty';
+      this.consecutiveFailures = 0;
+      const slate = this.loadSlate();
+      if (slate) {
+        if (!this.onSlate) this.emit('log', 'warn', `${reason} — fallback slate on air`);
+        this.playSlate(slate);
+        return;
+      }
+      this.emit('log', 'warn', items.length > 0 ? `${reason} — retrying` : `${reason} — waiting for items`);
+      this.onSlate = false;
+      this.onAir = null;
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = null;
+        this.playNext();
+      }, IDLE_RETRY_MS);
+      return;
+    }
+
+    const renditionPath = item.rendition_status === 'ready' && item.rendition_filename && item.rendition_profile === this.config.profile
+      ? path.join(this.config.uploadsDir, item.rendition_filename)
+      : null;
+    if (renditionPath && fs.existsSync(renditionPath)) {
+      this.lastSlide = null;
+      this.playItem(item, settings, this.copyArgs(renditionPath));
+      return;
+    }
+
+    const filePath = path.join(this.config.uploadsDir, item.filename);
+    if (!fs.existsSync(filePath)) {
+      this.emit('log', 'warn', `File missing, skipping: ${item.original_name}`);
+      this.consecutiveFailures++;
+      setImmediate(() => this.playNext());
+      return;
+    }
+
+    if (item.media_type === 'image') {
+      const previous = this.lastSlide;
+      this.lastSlide = filePath;
+      this.playItem(item, settings, this.slideArgs(filePath, item.duration_sec, previous));
+      return;
+    }
+    this.lastSlide = null;
+    this.playItem(item, settings, transcodeArgs(this.config, filePath));
+  }
+
+  /** Rendition is already station-conformant: just pace it out in real time (-re). */
+  private copyArgs(renditionPath: string): string[] {
+    return [
+      '-hide_banner', '-loglevel', 'warning',
+      '-re', '-i', renditionPath,
+      '-map', '0:v', '-c', 'copy',
+      '-f', 'mpegts',
+      '-muxdelay', '0', '-muxpreload', '0',
+      'pipe:1',
+    ];
+  }
+
+  /** Still image held for `durationSec`; with a previous slide, it fades in from that image first. */
+  private slideArgs(imagePath: string, durationSec: number | null, previous: string | null): string[] {
+    const { fps } = this.config;
+    const duration = Math.max(1, durationSec || DEFAULT_SLIDE_SEC);
+    const still = (file: string, sec: number) => ['-re', '-loop', '1', '-framerate', String(fps), '-t', String(sec), '-i', file];
+    const crossfade = previous ? Math.min(this.loadCrossfade(), duration / 2) : 0;
+    const fit = `${fitFilter(this.config)},setsar=1,format=yuv420p`;
+
+    const input = crossfade > 0
+      ? [
+        ...still(previous!, crossfade),
+        ...still(imagePath, duration),
+        '-filter_complex', `[0:v]${fit}[prev];[1:v]${fit}[next];[prev][next]xfade=transition=fade:duration=${crossfade}:offset=0[v]`,
+        '-map', '[v]',
+      ]
+      : [...still(imagePath, duration), '-vf', fit];
+    return ['-hide_banner', '-loglevel', 'warning', ...input, ...encodeArgs(this.config)];
+  }
+
+  private playItem(item: any, settings: PlaybackSettings, args: string[]) {
+    const startedAt = Date.now();
+    const proc = this.spawnFeeder(args);
+    this.skipRequested = false;
+    if (this.onSlate) {
+      this.onSlate = false;
+      this.emit('log', 'info', 'Playlist back on air — slate off');
+    }
+    this.onAir = { itemId: item.id, name: item.original_name, startedAt: new Date(startedAt).toISOString() };
+    const historyId = this.recordStart(item, settings.mode, this.onAir.startedAt);
+    this.emit('item', this.onAir);
+
+    const watch = this.watchStall(proc, `${item.original_name} stopped producing video — skipping`);
+
+    proc.on('close', (code) => {
+      clearInterval(watch.timer);
+      proc.stdout?.unpipe();
+      if (this.current !== proc) {
+        this.recordEnd(historyId, 'interrupted');  // stopped
+        return;
+      }
+      this.current = null;
+
+      if (this.skipRequested) {
+        this.consecutiveFailures = 0;
+        this.recordEnd(historyId, 'skipped');
+      } else if (watch.stalled) {
+        this.consecutiveFailures++;
+        this.recordEnd(historyId, 'failed');
+      } else if (code !== 0 && Date.now() - startedAt < MIN_PLAY_MS) {
+        this.consecutiveFailures++;
+        this.recordEnd(historyId, 'failed');
+        this.emit('log', 'warn', `Could not play ${item.original_name} (code ${code})`);
+      } else {
+        this.consecutiveFailures = 0;
+        this.recordEnd(historyId, 'played');
+      }
+      this.playNext();
+    });
+  }
+
+  /** A short clip of the slate; the playlist is tried again after every clip. */
+  private playSlate(slate: Slate) {
+    const { width, height, fps } = this.config;
+    const startedAt = Date.now();
+    const proc = this.spawnFeeder(['-hide_banner', '-loglevel', 'warning', ...slateArgs(slate, width, height, fps, SLATE_CLIP_SEC), ...encodeArgs(this.config)]);
+    this.skipRequested = false;
+    this.lastSlide = null;
+    if (!this.onSlate) {
+      this.onSlate = true;
+      this.onAir = { itemId: '', name: 'Fallback slate', startedAt: new Date(startedAt).toISOString() };
+      this.emit('item', this.onAir);
+    }
+    const watch = this.watchStall(proc, 'Fallback slate stopped producing video');
+
+    proc.on('close', (code) => {
+      clearInterval(watch.timer);
+      proc.stdout?.unpipe();
+      if (this.current !== proc) return;  // stopped
+      this.current = null;
+      if (!this.skipRequested && (watch.stalled || (code !== 0 && Date.now() - startedAt < MIN_PLAY_MS))) {
+        // The slate can't be rendered either — wait as if there was no slate
+        if (!watch.stalled) this.emit('log', 'error', `Fallback slate failed (code ${code})`);
+        this.idleTimer = setTimeout(() => {
+          this.idleTimer = null;
+          this.playNext();
+        }, IDLE_RETRY_MS);
+        return;
+      }
+      this.playNext();
+    });
+  }
+
+  /**
+   * A decoder that hangs keeps the encoder waiting for video — kill a feeder whose output stays
+   * quiet for FEED_STALL_MS. Quiet while the encoder's stdin is full is backpressure (e.g. its
+   * network audio input is still connecting), not a hang, and doesn't count.
+   */
+  private watchStall(proc: ChildProcess, message: string): { timer: NodeJS.Timeout; stalled: boolean } {
+    let lastDataAt = Date.now();
+    proc.stdout!.on('data', () => { lastDataAt = Date.now(); });
+    const watch = {
+      stalled: false,
+      timer: setInterval(() => {
+        if (this.output?.writableNeedDrain) lastDataAt = Date.now();
+        if (Date.now() - lastDataAt < FEED_STALL_MS) return;
+        watch.stalled = true;
+        this.emit('log', 'warn', message);
+        proc.kill('SIGKILL');
+      }, 1000),
+    };
+    return watch;
+  }
+
+  /** Spawns an FFmpeg whose MPEG-TS goes to the encoder and makes it the current feeder. */
+  private spawnFeeder(args: string[]): ChildProcess {
+    const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    trackChild(proc);
+    this.current = proc;
+    proc.stdout!.pipe(this.output!, { end: false });
+
+    proc.stderr?.on('data', (data: Buffer) => {
+      const line = data.toString().trim();
+      if (line && /error|failed|invalid|corrupt|broken|fault/i.test(line)) {
+        this.emit('log', 'warn', line);
+      }
+    });
+    proc.on('error', (err) => {
+      this.emit('log', 'error', `Feeder spawn error: ${err.message}`);
+    });
+    return proc;
+  }
+
+  // ─── Played-order audit ─────────────────────────────────
+
+  private recordStart(item: any, mode: string, startedAt: string): number | null {
+    try {
+      const db = getDb();
+      const result = db.prepare(
+        'INSERT INTO playout_history (station_id, item_id, item_name, playback_mode, started_at) VALUES (?, ?, ?, ?, ?)'
+      ).run(this.config.stationId, item.id, item.original_name, mode, startedAt);
+      const id = Number(result.lastInsertRowid);
+      db.prepare('DELETE FROM playout_history WHERE station_id = ? AND id <= ?').run(this.config.stationId, id - HISTORY_LIMIT);
+      return id;
+    } catch {
+      return null;
+    }
+  }
+
+  private recordEnd(historyId: number | null, outcome: 'played' | 'skipped' | 'failed' | 'interrupted') {
+    if (historyId === null) return;
+    try {
+      getDb().prepare('UPDATE playout_history SET ended_at = ?, outcome = ? WHERE id = ?')
+        .run(new Date().toISOString(), outcome, historyId);
+    } catch {}
+  }
+}
@@ -0,0 +1,95 @@
+import { ChildProcess } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Keeps a PID file of every long-lived FFmpeg child (encoders, relays, playout
+ * decoders, rendition jobs). If the backend dies without cleaning up — crash,
+ * SIGKILL, pm2 restart — the next start reads the file and kills what is left,
+ * so stale encoders don't keep pushing to a destination alongside the new ones.
+ */
+
+let pidFilePath: string | null = null;
+let ownedPaths: string[] = [];
+const livePids: Set<number> = new Set();
+
+export function initProcessRegistry(dataDir: string, uploadsDir: string): void {
+  const runDir = path.join(dataDir, 'run');
+  fs.mkdirSync(runDir, { recursive: true });
+  pidFilePath = path.join(runDir, 'children.json');
+  ownedPaths = [path.join(dataDir, 'stations'), path.join(dataDir, 'archive'), uploadsDir];
+}
+
+function persist(): void {
+  if (!pidFilePath) return;
+  try {
+    const tmp = pidFilePath + '.tmp';
+    fs.writeFileSync(tmp, JSON.stringify([...livePids]));
+    fs.renameSync(tmp, pidFilePath);
+  } catch {}
+}
+
+/** Record a spawned child until it exits. */
+export function trackChild(proc: ChildProcess): void {
+  const pid = proc.pid;
+  if (!pid) return;
+  livePids.add(pid);
+  persist();
+  proc.once('exit', () => {
+    livePids.delete(pid);
+    persist();
+  });
+}
+
+function readCmdline(pid: number): string | null {
+  try {
+    return fs.readFileSync(`/proc/${pid}/cmdline`, 'utf-8').replace(/\0/g, ' ').trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Kill children recorded by a previous run, plus any feeder.sh loop (and its ffmpeg)
+ * from older versions that never wrote a PID file. The cmdline is checked before
+ * killing so a recycled PID is left alone. Call before starting any station.
+ * Returns the number of processes killed.
+ */
+export function killOrphans(): number {
+  if (!pidFilePath) return 0;
+  const victims = new Set<number>();
+
+  try {
+    const recorded = JSON.parse(fs.readFileSync(pidFilePath, 'utf-8')) as number[];
+    for (const pid of recorded) {
+      if (pid === process.pid || livePids.has(pid)) continue;
+      const cmd = readCmdline(pid);
+      if (cmd && /\bffmpeg\b/.test(cmd)) victims.add(pid);
+    }
+  } catch {}
+
+  // Unrecorded leftovers: anything ffmpeg/feeder.sh working on our files
+  try {
+    for (const entry of fs.readdirSync('/proc')) {
+      const pid = parseInt(entry);
+      if (!pid || pid === process.pid) continue;
+      const cmd = readCmdline(pid);
+      if (!cmd || !/\bffmpeg\b|feeder\.sh/.test(cmd)) continue;
+      if (ownedPaths.some(p => cmd.includes(p))) victims.add(pid);
+    }
+  } catch {}  // no /proc (macOS dev)
+
+  let killed = 0;
+  for (const pid of victims) {
+    const cmd = readCmdline(pid) || '';
+    try {
+      process.kill(pid, 'SIGKILL');
+      killed++;
+      console.log(`[REAPER] Killed orphaned process PID=${pid}: ${cmd.slice(0, 200)}`);
+    } catch {}
+  }
+
+  livePids.clear();
+  persist();
+  return killed;
+}
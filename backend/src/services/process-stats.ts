@@ -0,0 +1,102 @@
+import fs from 'fs';
+
+/**
+ * CPU, memory and thread usage of a station's FFmpeg processes, read from /proc
+ * (Linux only — elsewhere every process reads as gone and samples are empty).
+ * CPU% is relative to one core (200 = two full cores), like top.
+ */
+
+export interface ProcessUsage {
+  pid: number;
+  role: string;          // encoder | feeder | encode:<profile> | relay:<destination>
+  cpuPercent: number;
+  rssBytes: number;
+  threads: number;
+}
+
+export interface ResourceSample {
+  cpuPercent: number;    // sum over the station's processes
+  rssBytes: number;
+  threads: number;
+  processes: ProcessUsage[];
+  sampledAt: string;
+}
+
+// USER_HZ — the unit of the /proc tick counters; 100 on every mainstream Linux build (not exposed to Node)
+const CLK_TCK = 100;
+
+interface ProcStat {
+  cpuTicks: number;      // utime + stime
+  startTicks: number;    // since boot
+  threads: number;
+  rssBytes: number;
+}
+
+function readProcStat(pid: number): ProcStat | null {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    // comm (field 2) can contain spaces and parentheses — the fixed fields start after the last ')'
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    // fields[0] is field 3 (state): utime = 14, stime = 15, num_threads = 20, starttime = 22
+    const status = fs.readFileSync(`/proc/${pid}/status`, 'utf-8');
+    const rss = /^VmRSS:\s+(\d+)\s+kB/m.exec(status);
+    return {
+      cpuTicks: Number(fields[11]) + Number(fields[12]),
+      startTicks: Number(fields[19]),
+      threads: Number(fields[17]),
+      rssBytes: rss ? Number(rss[1]) * 1024 : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function uptimeSec(): number {
+  try {
+    return Number(fs.readFileSync('/proc/uptime', 'utf-8').split(' ')[0]);
+  } catch {
+    return 0;
+  }
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Samples one station's processes. CPU is measured between two samples of the same PID;
+ * a PID seen for the first time (e.g. the feeder of a new playlist item) gets its average since it started.
+ */
+export class ProcessSampler {
+  private previous: Map<number, { ticks: number; at: number }> = new Map();
+
+  sample(targets: { pid: number; role: string }[]): ResourceSample {
+    const now = uptimeSec();
+    const seen: Map<number, { ticks: number; at: number }> = new Map();
+    const processes: ProcessUsage[] = [];
+
+    for (const { pid, role } of targets) {
+      const stat = readProcStat(pid);
+      if (!stat) continue;
+      const prev = this.previous.get(pid);
+      const elapsed = prev ? now - prev.at : now - stat.startTicks / CLK_TCK;
+      const ticks = prev ? stat.cpuTicks - prev.ticks : stat.cpuTicks;
+      seen.set(pid, { ticks: stat.cpuTicks, at: now });
+      processes.push({
+        pid,
+        role,
+        cpuPercent: elapsed > 0 ? round1(Math.max(0, ticks / CLK_TCK / elapsed) * 100) : 0,
+        rssBytes: stat.rssBytes,
+        threads: stat.threads,
+      });
+    }
+    // Exited processes drop out of the baseline
+    this.previous = seen;
+
+    return {
+      cpuPercent: round1(processes.reduce((sum, p) => sum + p.cpuPercent, 0)),
+      rssBytes: processes.reduce((sum, p) => sum + p.rssBytes, 0),
+      threads: processes.reduce((sum, p) => sum + p.threads, 0),
+      processes,
+      sampledAt: new Date().toISOString(),
+    };
+  }
+}
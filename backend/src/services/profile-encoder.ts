@@ -0,0 +1,97 @@
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { trackChild } from './process-registry';
+import { EncodingProfile, profileEncodeArgs, profileKey, profileLabel } from './encoding-profile';
+
+const RESPAWN_DELAY_MS = 3000;
+
+/**
+ * One extra encode of the program for destinations whose encoding profile differs
+ * from the station's (other resolution, bitrate, GOP, vertical crop...).
+ *
+ * Reads the program (MPEG-TS) on stdin and emits its own MPEG-TS chunks as 'output',
+ * which the supervisor fans out to every destination sharing this profile. Like a
+ * relay, it drops input under backpressure and is respawned if it dies, so a broken
+ * profile never affects the program or the other destinations.
+ */
+export class ProfileEncoder extends EventEmitter {
+  readonly key: string;
+  readonly label: string;
+  readonly destinationIds: string[];
+  private profile: EncodingProfile;
+  private proc: ChildProcess | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private stopped = true;
+
+  constructor(profile: EncodingProfile, destinationIds: string[]) {
+    super();
+    this.profile = profile;
+    this.key = profileKey(profile);
+    this.label = profileLabel(profile);
+    this.destinationIds = destinationIds;
+  }
+
+  get pid(): number | null {
+    return this.proc?.pid || null;
+  }
+
+  start() {
+    this.stopped = false;
+    this.spawnEncoder();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.proc && this.proc.exitCode === null) {
+      const proc = this.proc;
+      proc.kill('SIGTERM');
+      setTimeout(() => { if (proc.exitCode === null) proc.kill('SIGKILL'); }, 3000);
+    }
+    this.proc = null;
+  }
+
+  /** Forward a chunk of the program stream; dropped while the encoder is down or behind. */
+  write(chunk: Buffer) {
+    const stdin = this.proc?.stdin;
+    if (!stdin || !stdin.writable || stdin.writableNeedDrain) return;
+    stdin.write(chunk);
+  }
+
+  private spawnEncoder() {
+    if (this.stopped) return;
+
+    const proc = spawn('ffmpeg', profileEncodeArgs(this.profile), { stdio: ['pipe', 'pipe', 'pipe'] });
+    trackChild(proc);
+    this.proc = proc;
+
+    proc.stdin?.on('error', () => {});
+    proc.stdout?.on('data', (chunk: Buffer) => this.emit('output', chunk));
+
+    let lastError = '';
+    proc.stderr?.on('data', (data: Buffer) => {
+      const line = data.toString().trim();
+      if (!line) return;
+      lastError = line.split('\n').pop()!.slice(0, 500);
+      if (/error|failed|invalid/i.test(line)) this.emit('log', 'warn', `Profile ${this.label}: ${lastError}`);
+    });
+
+    proc.on('close', (code) => {
+      if (this.proc !== proc) return;  // stopped
+      this.proc = null;
+      if (this.stopped) return;
+      this.emit('log', 'error', `Profile encode ${this.label} exited (${lastError || `code ${code}`}) — restarting`);
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.spawnEncoder();
+      }, RESPAWN_DELAY_MS);
+    });
+
+    proc.on('error', (err) => {
+      this.emit('log', 'error', `Profile encode ${this.label} process error: ${err.message}`);
+    });
+  }
+}
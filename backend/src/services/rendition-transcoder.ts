@@ -0,0 +1,228 @@
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getDb } from '../db/schema';
+import { trackChild } from './process-registry';
+
+export type RenditionStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+export interface RenditionProgress {
+  itemId: string;
+  status: RenditionStatus;
+  progress: number;       // 0..1
+  error: string | null;
+}
+
+interface TranscodeJob {
+  itemId: string;
+  proc: ChildProcess;
+  // Set before every deliberate kill — FFmpeg exits with code 255 on SIGTERM, so the exit signal can't tell
+  cancelled: 'requeue' | 'cancel' | 'shutdown' | null;
+}
+
+// Ingest runs next to live stations — keep it below them in the scheduler
+const TRANSCODE_NICE = 10;
+
+/**
+ * Station settings a rendition was encoded for. A rendition whose profile no longer
+ * matches the station (resolution/fps/bitrate changed) is stale and gets re-encoded.
+ */
+export function renditionProfile(station: any): string {
+  return `${station.video_width}x${station.video_height}@${station.video_fps}:${station.video_bitrate}`;
+}
+
+export function renditionFilename(itemId: string): string {
+  return `${itemId}.rendition.ts`;
+}
+
+/**
+ * Ingest step: transcodes every video upload once into a station-conformant "mezzanine"
+ * rendition (H.264 at the station's resolution/fps/bitrate, closed GOPs, no audio,
+ * MPEG-TS), stored next to the original in the station's uploads dir.
+ *
+ * The playout engine stream-copies ready renditions instead of re-encoding each file
+ * on every play. Jobs run one at a time, at lower CPU priority than live stations.
+ */
+export class RenditionTranscoder extends EventEmitter {
+  private queue: string[] = [];
+  private current: TranscodeJob | null = null;
+  private uploadsRoot: string;
+
+  constructor(uploadsRoot: string) {
+    super();
+    this.uploadsRoot = uploadsRoot;
+  }
+
+  /**
+   * Queue every item that has no up-to-date rendition. Called at boot (jobs
+   * interrupted by a restart start over) and after a station's video settings change.
+   */
+  resume(stationId?: string): void {
+    const db = getDb();
+    db.prepare(
+      `UPDATE playlist_items SET rendition_status = 'pending', rendition_progress = 0 WHERE rendition_status = 'processing'${stationId ? ' AND station_id = ?' : ''}`
+    ).run(...(stationId ? [stationId] : []));
+
+    const items = db.prepare(
+      `SELECT p.id, p.rendition_status, p.rendition_profile, s.video_width, s.video_height, s.video_fps, s.video_bitrate
+       FROM playlist_items p JOIN stations s ON s.id = p.station_id
+       WHERE p.media_type = 'video'${stationId ? ' AND p.station_id = ?' : ''} ORDER BY p.sort_order ASC`
+    ).all(...(stationId ? [stationId] : [])) as any[];
+
+    for (const item of items) {
+      // rendition_profile is recorded when a job starts, so failed jobs aren't retried until settings change
+      if (item.rendition_status === 'pending' || item.rendition_profile !== renditionProfile(item)) {
+        this.enqueue(item.id);
+      }
+    }
+  }
+
+  enqueue(itemId: string): void {
+    if (this.queue.includes(itemId)) return;
+    if (this.current?.itemId === itemId) {
+      // Settings changed mid-job — start over with the new profile
+      this.current.cancelled = 'requeue';
+      this.current.proc.kill('SIGTERM');
+    }
+    this.queue.push(itemId);
+    this.setStatus(itemId, 'pending', 0, null);
+    this.runNext();
+  }
+
+  /** Drop queued/running work for an item (e.g. it was deleted). */
+  cancel(itemId: string): void {
+    this.queue = this.queue.filter(id => id !== itemId);
+    if (this.current?.itemId === itemId) {
+      this.current.cancelled = 'cancel';
+      this.current.proc.kill('SIGTERM');
+    }
+  }
+
+  /** Stop the running job on backend shutdown; it is re-queued by resume() on the next start. */
+  shutdown(): void {
+    this.queue = [];
+    if (this.current) {
+      this.current.cancelled = 'shutdown';
+      this.current.proc.kill('SIGTERM');
+    }
+  }
+
+  private runNext(): void {
+    if (this.current || this.queue.length === 0) return;
+    const itemId = this.queue.shift()!;
+
+    const db = getDb();
+    const item = db.prepare(
+      `SELECT p.*, s.video_width, s.video_height, s.video_fps, s.video_bitrate
+       FROM playlist_items p JOIN stations s ON s.id = p.station_id WHERE p.id = ?`
+    ).get(itemId) as any;
+    // Images are rendered live by the playout engine — nothing to pre-encode
+    if (!item || item.media_type === 'image') return this.runNext();
+
+    const uploadsDir = path.join(this.uploadsRoot, item.station_id);
+    const inputPath = path.join(uploadsDir, item.filename);
+    if (!fs.existsSync(inputPath)) {
+      this.setStatus(itemId, 'failed', 0, 'Original file missing');
+      return this.runNext();
+    }
+
+    const outName = renditionFilename(itemId);
+    const outPath = path.join(uploadsDir, outName);
+    const tmpPath = outPath + '.tmp';
+    const profile = renditionProfile(item);
+    const { video_width: width, video_height: height, video_fps: fps, video_bitrate: bitrate } = item;
+
+    const args = [
+      '-hide_banner', '-loglevel', 'error', '-nostats', '-y',
+      '-i', inputPath,
+      '-vf', `fps=${fps},scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
+      '-c:v', 'libx264', '-preset', 'veryfast',
+      '-b:v', bitrate, '-maxrate', bitrate, '-bufsize', `${parseInt(bitrate) * 2}k`,
+      // Fixed GOP (no scene-cut keyframes) so the stream can be copied straight to RTMP
+      '-g', String(fps * 2), '-keyint_min', String(fps * 2), '-sc_threshold', '0',
+      '-pix_fmt', 'yuv420p', '-an',
+      '-f', 'mpegts',
+      '-progress', 'pipe:1',
+      tmpPath,
+    ];
+
+    const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    trackChild(proc);
+    const job: TranscodeJob = { itemId, proc, cancelled: null };
+    this.current = job;
+    try { if (proc.pid) os.setPriority(proc.pid, TRANSCODE_NICE); } catch {}
+
+    db.prepare('UPDATE playlist_items SET rendition_profile = ? WHERE id = ?').run(profile, itemId);
+    this.setStatus(itemId, 'processing', 0, null);
+    this.emit('log', item.station_id, 'info', 'transcode', `Rendition started: ${item.original_name} (${profile})`);
+    console.log(`[TRANSCODE] Started item=${itemId} profile=${profile} PID=${proc.pid}`);
+
+    let lastProgress = 0;
+    let stderr = '';
+    proc.stdout?.on('data', (data: Buffer) => {
+      if (!item.duration_sec) return;
+      // -progress emits key=value blocks; out_time_us is the position in the source
+      const matches = [...data.toString().matchAll(/out_time_us=(\d+)/g)];
+      if (matches.length === 0) return;
+      const sec = parseInt(matches[matches.length - 1][1]) / 1_000_000;
+      const progress = Math.min(0.99, sec / item.duration_sec);
+      if (progress - lastProgress >= 0.01) {
+        lastProgress = progress;
+        this.setStatus(itemId, 'processing', progress, null);
+      }
+    });
+    proc.stderr?.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-2000);
+    });
+
+    proc.on('close', (code) => {
+      this.current = null;
+      const stillExists = db.prepare('SELECT id FROM playlist_items WHERE id = ?').get(itemId);
+
+      let renameError: string | null = null;
+      if (code === 0 && stillExists && !job.cancelled) {
+        try {
+          fs.renameSync(tmpPath, outPath);
+        } catch (err: any) {
+          renameError = `Could not store rendition: ${err.message}`;
+        }
+      }
+
+      if (code === 0 && stillExists && !job.cancelled && !renameError) {
+        db.prepare(
+          "UPDATE playlist_items SET rendition_filename = ?, rendition_status = 'ready', rendition_progress = 1, rendition_error = NULL WHERE id = ?"
+        ).run(outName, itemId);
+        this.emit('progress', item.station_id, { itemId, status: 'ready', progress: 1, error: null } as RenditionProgress);
+        this.emit('log', item.station_id, 'info', 'transcode', `Rendition ready: ${item.original_name}`);
+        console.log(`[TRANSCODE] Finished item=${itemId}`);
+      } else {
+        try { if (fs.existsSync(tmpPath)) fs.unlinkSync(tmpPath); } catch {}
+        if (job.cancelled === 'shutdown') {
+          // Interrupted, not failed — resume() picks it up again on the next start
+          if (stillExists) this.setStatus(itemId, 'pending', 0, null);
+        } else if (stillExists && !job.cancelled) {
+          // Killed on purpose (cancel/requeue) is not a failure
+          const error = renameError || stderr.trim().split('\n').pop() || `ffmpeg exited with code ${code}`;
+          this.setStatus(itemId, 'failed', 0, error);
+          this.emit('log', item.station_id, 'error', 'transcode', `Rendition failed: ${item.original_name}: ${error}`);
+        }
+      }
+      this.runNext();
+    });
+
+    proc.on('error', (err) => {
+      console.error(`[TRANSCODE] Spawn error for item=${itemId}: ${err.message}`);
+    });
+  }
+
+  private setStatus(itemId: string, status: RenditionStatus, progress: number, error: string | null): void {
+    const db = getDb();
+    db.prepare(
+      'UPDATE playlist_items SET rendition_status = ?, rendition_progress = ?, rendition_error = ? WHERE id = ?'
+    ).run(status, progress, error, itemId);
+    const row = db.prepare('SELECT station_id FROM playlist_items WHERE id = ?').get(itemId) as any;
+    if (row) this.emit('progress', row.station_id, { itemId, status, progress, error } as RenditionProgress);
+  }
+}
@@ -0,0 +1,117 @@
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface RestartPolicyConfig {
+  baseDelayMs: number;      // first restart delay, grows ×1.5 per consecutive restart
+  maxDelayMs: number;
+  maxAttempts: number;      // consecutive restarts before the breaker opens
+  stableUptimeMs: number;   // a run this long resets the restart counter
+  breakerFailures: number;  // failures within breakerWindowMs that open the breaker
+  breakerWindowMs: number;
+  halfOpenDelayMs: number;  // wait while open before a single trial restart
+}
+
+export type RestartDecision =
+  | { action: 'restart'; delayMs: number; attempt: number }
+  | { action: 'open'; delayMs: number; failures: number };
+
+export interface RestartPolicySnapshot {
+  breaker: BreakerState;
+  restartCount: number;
+  recentFailures: number;
+  nextAttemptAt: string | null;
+}
+
+/** Restart policy settings from a stations row. */
+export function restartPolicyConfig(station: any): RestartPolicyConfig {
+  return {
+    baseDelayMs: station.restart_delay_sec * 1000,
+    maxDelayMs: 60000,
+    maxAttempts: station.max_restart_attempts,
+    stableUptimeMs: station.restart_stable_sec * 1000,
+    breakerFailures: station.breaker_failures,
+    breakerWindowMs: station.breaker_window_sec * 1000,
+    halfOpenDelayMs: station.breaker_retry_sec * 1000,
+  };
+}
+
+/**
+ * Decides when a crashed station pipeline is restarted.
+ *
+ * - closed: restart with exponential backoff; the counter resets once a run stays up
+ *   for the stable uptime, so one crash a day never adds up to "gave up".
+ * - open: too many failures in the window (or too many consecutive restarts) —
+ *   stop hammering and wait halfOpenDelayMs.
+ * - half-open: one trial restart; staying up for the stable uptime closes the
+ *   breaker, failing again re-opens it.
+ */
+export class RestartPolicy {
+  private config: RestartPolicyConfig;
+  private state: BreakerState = 'closed';
+  private restartCount = 0;
+  private failures: number[] = [];
+  private nextAttemptAt: number | null = null;
+
+  constructor(config: RestartPolicyConfig) {
+    this.config = config;
+  }
+
+  configure(config: RestartPolicyConfig): void {
+    this.config = config;
+  }
+
+  get breaker(): BreakerState {
+    return this.state;
+  }
+
+  get restarts(): number {
+    return this.restartCount;
+  }
+
+  /** The pipeline failed after running for uptimeMs. */
+  recordFailure(uptimeMs: number, now = Date.now()): RestartDecision {
+    if (uptimeMs >= this.config.stableUptimeMs) this.restartCount = 0;
+
+    this.failures = this.failures.filter(t => now - t < this.config.breakerWindowMs);
+    this.failures.push(now);
+
+    const tooMany = this.failures.length >= this.config.breakerFailures
+      || this.restartCount >= this.config.maxAttempts;
+    if (this.state === 'half-open' || tooMany) {
+      this.state = 'open';
+      this.nextAttemptAt = now + this.config.halfOpenDelayMs;
+      return { action: 'open', delayMs: this.config.halfOpenDelayMs, failures: this.failures.length };
+    }
+
+    const delayMs = Math.min(this.config.baseDelayMs * Math.pow(1.5, this.restartCount), this.config.maxDelayMs);
+    this.restartCount++;
+    this.nextAttemptAt = now + delayMs;
+    return { action: 'restart', delayMs, attempt: this.restartCount };
+  }
+
+  /** The scheduled restart is happening now. */
+  recordAttempt(): void {
+    if (this.state === 'open') this.state = 'half-open';
+    this.nextAttemptAt = null;
+  }
+
+  /**
+   * The current run has been up for uptimeMs. Returns true when this closed the breaker.
+   */
+  recordUptime(uptimeMs: number): boolean {
+    if (uptimeMs < this.config.stableUptimeMs) return false;
+    this.restartCount = 0;
+    if (this.state !== 'half-open') return false;
+    this.state = 'closed';
+    this.failures = [];
+    return true;
+  }
+
+  snapshot(now = Date.now()): RestartPolicySnapshot {
+    return {
+      breaker: this.state,
+      restartCount: this.restartCount,
+      recentFailures: this.failures.filter(t => now - t < this.config.breakerWindowMs).length,
+      nextAttemptAt: this.nextAttemptAt ? new Date(this.nextAttemptAt).toISOString() : null,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Silence detection on the audio the encoder receives, via FFmpeg's silencedetect filter.
+ * It logs (at info level) once the level has stayed under the threshold for the duration:
+ *   [silencedetect @ 0x55d0c8] silence_start: 1234.56
+ *   [silencedetect @ 0x55d0c8] silence_end: 1290.1 | silence_duration: 55.54
+ */
+
+export interface SilenceSettings {
+  thresholdDb: number;   // level below which audio counts as silent (dBFS)
+  durationSec: number;   // how long it must stay below before it is reported
+}
+
+export type SilenceEvent =
+  | { event: 'start'; at: number }
+  | { event: 'end'; at: number; durationSec: number };
+
+export function silenceDetectFilter(settings: SilenceSettings): string {
+  return `silencedetect=noise=${settings.thresholdDb}dB:duration=${settings.durationSec}`;
+}
+
+/** Parse one stderr line of the encoder; returns null for anything that isn't silencedetect output. */
+export function parseSilenceLine(line: string): SilenceEvent | null {
+  if (!line.includes('silencedetect')) return null;
+  const end = /silence_end:\s*(-?[\d.]+)\s*\|\s*silence_duration:\s*([\d.]+)/.exec(line);
+  if (end) return { event: 'end', at: Number(end[1]), durationSec: Number(end[2]) };
+  const start = /silence_start:\s*(-?[\d.]+)/.exec(line);
+  if (start) return { event: 'start', at: Number(start[1]) };
+  return null;
+}
+
+/** Returns an error message for invalid silence settings, or null. */
+export function validateSilence(values: Record<string, any>): string | null {
+  if (values.silence_threshold_db !== undefined && !(values.silence_threshold_db >= -90 && values.silence_threshold_db <= -10)) {
+    return 'Silence threshold must be between -90 and -10 dB';
+  }
+  if (values.silence_duration_sec !== undefined && (!Number.isInteger(Number(values.silence_duration_sec)) || values.silence_duration_sec < 2 || values.silence_duration_sec > 3600)) {
+    return 'Silence duration must be 2-3600 seconds';
+  }
+  return null;
+}
@@ -0,0 +1,41 @@
+export const SLATE_IMAGE_EXTS = ['.png', '.jpg', '.jpeg', '.webp'];
+export const DEFAULT_SLATE_TEXT = "We'll be right back";
+export const SLATE_TEXT_MAX = 100;
+
+export interface Slate {
+  stationName: string;
+  text: string;               // second line of the generated card
+  imagePath: string | null;   // uploaded slate image (replaces the generated card)
+  drawtext: boolean;          // FFmpeg has drawtext — without it the generated card is a plain colour
+}
+
+const CARD_COLOR = '0x101826';
+
+const escText = (s: string) => s.replace(/\\/g, '').replace(/:/g, '\\:').replace(/'/g, "'\\''");
+
+/**
+ * FFmpeg input + filter for `seconds` of slate at the frame size/fps, read in real time:
+ * the uploaded image letterboxed to the frame, or a card with the station name and the message.
+ */
+export function slateArgs(slate: Slate, width: number, height: number, fps: number, seconds: number): string[] {
+  if (slate.imagePath) {
+    return [
+      '-re', '-loop', '1', '-framerate', String(fps), '-t', String(seconds), '-i', slate.imagePath,
+      '-vf', `fps=${fps},scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,format=yuv420p`,
+    ];
+  }
+
+  const filters: string[] = [];
+  if (slate.drawtext) {
+    const gap = Math.round(height / 40);
+    filters.push(
+      `drawtext=text='${escText(slate.stationName)}':expansion=none:fontsize=${Math.round(height / 12)}:fontcolor=white:x=(w-tw)/2:y=h/2-th-${gap}`,
+      `drawtext=text='${escText(slate.text || DEFAULT_SLATE_TEXT)}':expansion=none:fontsize=${Math.round(height / 22)}:fontcolor=0xb0b8c8:x=(w-tw)/2:y=h/2+${gap}`,
+    );
+  }
+  filters.push('format=yuv420p');
+  return [
+    '-re', '-f', 'lavfi', '-i', `color=c=${CARD_COLOR}:s=${width}x${height}:r=${fps}:d=${seconds}`,
+    '-vf', filters.join(','),
+  ];
+}
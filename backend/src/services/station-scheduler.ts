@@ -0,0 +1,279 @@
+import { EventEmitter } from 'events';
+import { getDb } from '../db/schema';
+import { FFmpegSupervisor } from './ffmpeg-supervisor';
+import { isValidTimezone, parseDays, parseTime, ZonedClock, zonedClock } from './daypart-schedule';
+
+export type RunAction = 'start' | 'stop';
+
+/** A run_schedule_rules row: a weekly on-air window, or a cron expression firing one action. */
+export interface RunScheduleRule {
+  id: string;
+  kind: 'window' | 'cron';
+  days: string;            // window: weekdays it starts on, '1,2,3' (0 = Sunday)
+  start_time: string;      // window: 'HH:MM'
+  end_time: string;        // window: 'HH:MM'; before start_time = ends the next day
+  cron: string;            // cron: 'minute hour day-of-month month day-of-week'
+  action: RunAction;       // cron: what it does when it fires
+  label: string;
+  is_enabled: number;
+}
+
+export interface UpcomingAction {
+  at: string;              // ISO timestamp
+  localDate: string;       // in the station's timezone
+  localTime: string;
+  weekday: number;
+  action: RunAction;
+  ruleIds: string[];
+  label: string;
+}
+
+export interface ScheduledActionResult {
+  action: RunAction;
+  ok: boolean;
+  label: string;
+  message: string;
+}
+
+interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  dayRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+const TICK_INTERVAL_MS = 15000;
+const MAX_CATCH_UP_MIN = 5;          // minutes replayed after the event loop was blocked (not after downtime)
+const START_VERIFY_MS = 20000;       // a scheduled start counts as failed if the station isn't running by then
+const UPCOMING_HORIZON_MIN = 7 * 24 * 60;
+
+// Parsed cron expressions — rules are evaluated for every minute of the upcoming week
+const cronCache = new Map<string, CronSpec | null>();
+
+function parseCronField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const m = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!m) return null;
+    const step = m[4] ? Number(m[4]) : 1;
+    let from = min;
+    let to = max;
+    if (m[1] !== '*') {
+      from = Number(m[2]);
+      to = m[3] !== undefined ? Number(m[3]) : (m[4] ? max : from);
+    }
+    if (step < 1 || from < min || to > max || from > to) return null;
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** Standard 5-field cron (no names); day-of-week 0 or 7 = Sunday. Returns null when invalid. */
+export function parseCron(expr: string): CronSpec | null {
+  const fields = (expr || '').trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const days = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  const weekdays = parseCronField(fields[4], 0, 7);
+  if (!minutes || !hours || !days || !months || !weekdays) return null;
+  if (weekdays.has(7)) weekdays.add(0);
+  return {
+    minutes, hours, days, months, weekdays,
+    dayRestricted: fields[2] !== '*',
+    weekdayRestricted: fields[4] !== '*',
+  };
+}
+
+function cronMatches(spec: CronSpec, clock: ZonedClock): boolean {
+  const [, month, day] = clock.date.split('-').map(Number);
+  if (!spec.minutes.has(clock.minutes % 60) || !spec.hours.has(Math.floor(clock.minutes / 60)) || !spec.months.has(month)) {
+    return false;
+  }
+  // Like cron: when both day fields are restricted, either one matching is enough
+  const dayOk = spec.days.has(day);
+  const weekdayOk = spec.weekdays.has(clock.weekday);
+  if (spec.dayRestricted && spec.weekdayRestricted) return dayOk || weekdayOk;
+  return dayOk && weekdayOk;
+}
+
+/** Actions one rule fires at this local minute. */
+function ruleActionsAt(rule: RunScheduleRule, clock: ZonedClock): RunAction[] {
+  if (rule.kind === 'cron') {
+    if (!cronCache.has(rule.cron)) cronCache.set(rule.cron, parseCron(rule.cron));
+    const spec = cronCache.get(rule.cron);
+    return spec && cronMatches(spec, clock) ? [rule.action] : [];
+  }
+  const start = parseTime(rule.start_time);
+  const end = parseTime(rule.end_time);
+  if (start === null || end === null) return [];
+  const days = parseDays(rule.days);
+  const actions: RunAction[] = [];
+  if (clock.minutes === start && days.includes(clock.weekday)) actions.push('start');
+  const endDay = end > start ? clock.weekday : (clock.weekday + 6) % 7;
+  if (clock.minutes === end && days.includes(endDay)) actions.push('stop');
+  return actions;
+}
+
+/**
+ * What the schedule does at this minute. A start and a stop in the same minute
+ * (back-to-back windows) keep the station running, so the start wins.
+ */
+export function scheduledActionAt(rules: RunScheduleRule[], clock: ZonedClock): { action: RunAction; rules: RunScheduleRule[] } | null {
+  const starts: RunScheduleRule[] = [];
+  const stops: RunScheduleRule[] = [];
+  for (const rule of rules) {
+    if (!rule.is_enabled) continue;
+    for (const action of ruleActionsAt(rule, clock)) (action === 'start' ? starts : stops).push(rule);
+  }
+  if (starts.length > 0) return { action: 'start', rules: starts };
+  if (stops.length > 0) return { action: 'stop', rules: stops };
+  return null;
+}
+
+export function ruleLabel(rule: RunScheduleRule): string {
+  if (rule.label) return rule.label;
+  return rule.kind === 'cron' ? `${rule.action} @ ${rule.cron}` : `${rule.start_time}–${rule.end_time}`;
+}
+
+/** Returns an error message, or null when the rule can be saved. */
+export function validateRule(rule: Partial<RunScheduleRule>): string | null {
+  if (rule.kind === 'cron') {
+    if (!parseCron(rule.cron || '')) return 'Cron must have 5 fields: minute hour day-of-month month day-of-week';
+    if (rule.action !== 'start' && rule.action !== 'stop') return 'Action must be start or stop';
+    return null;
+  }
+  if (rule.kind !== 'window') return 'Kind must be window or cron';
+  if (parseDays(rule.days || '').length === 0) return 'Pick at least one day';
+  const start = parseTime(rule.start_time || '');
+  const end = parseTime(rule.end_time || '');
+  if (start === null || end === null) return 'Times must be HH:MM (24h)';
+  if (start === end) return 'Start and end must differ';
+  return null;
+}
+
+/** Scheduled actions in the next `horizonMin` minutes (local wall clock, so DST shifts are respected). */
+export function upcomingActions(rules: RunScheduleRule[], timezone: string, limit = 50, horizonMin = UPCOMING_HORIZON_MIN): UpcomingAction[] {
+  const tz = isValidTimezone(timezone) ? timezone : 'UTC';
+  const enabled = rules.filter(r => r.is_enabled);
+  const result: UpcomingAction[] = [];
+  if (enabled.length === 0) return result;
+
+  const firstMinute = Math.floor(Date.now() / 60000) + 1;
+  let anchor: { minute: number; clock: ZonedClock } | null = null;
+  for (let m = firstMinute; m < firstMinute + horizonMin && result.length < limit; m++) {
+    const at = new Date(m * 60000);
+    // UTC offsets only change on quarter hours: one timezone lookup per 15 minutes (and at midnight)
+    if (!anchor || m % 15 === 0) anchor = { minute: m, clock: zonedClock(tz, at) };
+    const minutes = anchor.clock.minutes + (m - anchor.minute);
+    const clock = minutes < 1440 ? { ...anchor.clock, minutes } : zonedClock(tz, at);
+    const fired = scheduledActionAt(enabled, clock);
+    if (!fired) continue;
+    result.push({
+      at: at.toISOString(),
+      localDate: clock.date,
+      localTime: `${String(Math.floor(clock.minutes / 60)).padStart(2, '0')}:${String(clock.minutes % 60).padStart(2, '0')}`,
+      weekday: clock.weekday,
+      action: fired.action,
+      ruleIds: fired.rules.map(r => r.id),
+      label: fired.rules.map(ruleLabel).join(', '),
+    });
+  }
+  return result;
+}
+
+/**
+ * Starts and stops stations from their run schedule (stations.run_schedule_enabled).
+ *
+ * Acts on boundaries only: a window start calls startStation, its end calls stopStation,
+ * so an operator can still stop or start a station by hand in between. Each wall-clock
+ * minute in the station's timezone is evaluated once.
+ *
+ * Emits 'log'(stationId, level, message) and 'action'(stationId, ScheduledActionResult).
+ */
+export class StationScheduler extends EventEmitter {
+  private supervisor: FFmpegSupervisor;
+  private timer: NodeJS.Timeout | null = null;
+  private lastMinute = 0;
+
+  constructor(supervisor: FFmpegSupervisor) {
+    super();
+    this.supervisor = supervisor;
+  }
+
+  start(): void {
+    // The current minute is evaluated right away; earlier ones (while the backend was down) are not replayed
+    this.lastMinute = Math.floor(Date.now() / 60000) - 1;
+    this.tick();
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private tick(): void {
+    const nowMinute = Math.floor(Date.now() / 60000);
+    const from = Math.max(this.lastMinute + 1, nowMinute - MAX_CATCH_UP_MIN + 1);
+    this.lastMinute = nowMinute;
+    if (from > nowMinute) return;
+
+    const db = getDb();
+    const stations = db.prepare('SELECT id, timezone FROM stations WHERE run_schedule_enabled = 1').all() as any[];
+    for (const station of stations) {
+      const rules = db.prepare('SELECT * FROM run_schedule_rules WHERE station_id = ? AND is_enabled = 1').all(station.id) as RunScheduleRule[];
+      if (rules.length === 0) continue;
+      const tz = isValidTimezone(station.timezone) ? station.timezone : 'UTC';
+
+      // Only the latest action in a catch-up run matters
+      let due: { action: RunAction; rules: RunScheduleRule[] } | null = null;
+      for (let m = from; m <= nowMinute; m++) {
+        due = scheduledActionAt(rules, zonedClock(tz, new Date(m * 60000))) || due;
+      }
+      if (due) this.run(station.id, due.action, due.rules);
+    }
+  }
+
+  private async run(stationId: string, action: RunAction, rules: RunScheduleRule[]): Promise<void> {
+    const label = rules.map(ruleLabel).join(', ');
+    const db = getDb();
+    const record = (result: string) => {
+      const stmt = db.prepare("UPDATE run_schedule_rules SET last_run_at = datetime('now'), last_result = ? WHERE id = ?");
+      for (const rule of rules) stmt.run(result, rule.id);
+    };
+
+    this.emit('log', stationId, 'info', `Scheduled ${action} (${label})`);
+    try {
+      if (action === 'stop') {
+        await this.supervisor.stopStation(stationId);
+        record('ok');
+        this.emit('action', stationId, { action, ok: true, label, message: 'Station stopped' });
+        return;
+      }
+
+      await this.supervisor.startStation(stationId);
+      // Pipeline launch is asynchronous — judge the start by the status a little later
+      setTimeout(() => {
+        const proc = this.supervisor.getStationStatus(stationId);
+        if (proc.status === 'running') {
+          record('ok');
+          this.emit('action', stationId, { action, ok: true, label, message: 'Station started' });
+        } else {
+          const message = `Station is ${proc.status}${proc.lastError ? `: ${proc.lastError}` : ''}`;
+          record(`failed: ${message}`);
+          this.emit('log', stationId, 'warn', `Scheduled start failed (${label}) — ${message}`);
+          this.emit('action', stationId, { action, ok: false, label, message });
+        }
+      }, START_VERIFY_MS);
+    } catch (err: any) {
+      record(`failed: ${err.message}`);
+      this.emit('log', stationId, 'warn', `Scheduled ${action} failed (${label}) — ${err.message}`);
+      this.emit('action', stationId, { action, ok: false, label, message: err.message });
+    }
+  }
+}
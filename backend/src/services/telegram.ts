@@ -87,6 +87,31 @@ export async function sendTelegramError(
   return sendTelegramMessage(botToken, chatId, text, 'HTML');
 }
 
+/**
+ * Send a distinct operational alert (stall, circuit breaker, …) — not rate-limited,
+ * callers only raise these on state changes.
+ */
+export async function sendTelegramAlert(
+  botToken: string,
+  chatId: string,
+  stationName: string,
+  emoji: string,
+  title: string,
+  message: string
+): Promise<TelegramResult> {
+  const time = new Date().toLocaleString('ro-RO', { timeZone: 'Europe/Bucharest' });
+  const text = [
+    `${emoji} <b>${escapeHtml(title)}</b>`,
+    ``,
+    `<b>Station:</b> ${escapeHtml(stationName)}`,
+    `<b>Time:</b> ${time}`,
+    ``,
+    escapeHtml(message.slice(0, 500)),
+  ].join('\n');
+
+  return sendTelegramMessage(botToken, chatId, text, 'HTML');
+}
+
 /**
  * Send a test message to verify bot configuration
  */
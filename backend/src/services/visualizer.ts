@@ -0,0 +1,75 @@
+export type VideoMode = 'playlist' | 'visualizer';
+export type VisualizerStyle = 'waveform' | 'spectrum' | 'vectorscope';
+export type VisualizerPlacement = 'full' | 'center' | 'top' | 'bottom';
+
+export const VIDEO_MODES: VideoMode[] = ['playlist', 'visualizer'];
+export const VISUALIZER_STYLES: VisualizerStyle[] = ['waveform', 'spectrum', 'vectorscope'];
+export const VISUALIZER_PLACEMENTS: VisualizerPlacement[] = ['full', 'center', 'top', 'bottom'];
+export const VISUALIZER_IMAGE_EXTS = ['.png', '.jpg', '.jpeg', '.webp'];
+
+const COLOR_RE = /^#[0-9a-fA-F]{6}$/;
+
+/** Returns an error message for invalid visualizer settings, or null. */
+export function validateVisualizer(values: Record<string, any>): string | null {
+  if (values.video_mode !== undefined && !VIDEO_MODES.includes(values.video_mode)) {
+    return `Video mode must be one of ${VIDEO_MODES.join(', ')}`;
+  }
+  if (values.visualizer_style !== undefined && !VISUALIZER_STYLES.includes(values.visualizer_style)) {
+    return `Visualizer style must be one of ${VISUALIZER_STYLES.join(', ')}`;
+  }
+  if (values.visualizer_placement !== undefined && !VISUALIZER_PLACEMENTS.includes(values.visualizer_placement)) {
+    return `Visualizer placement must be one of ${VISUALIZER_PLACEMENTS.join(', ')}`;
+  }
+  for (const key of ['visualizer_color', 'visualizer_bg_color']) {
+    if (values[key] !== undefined && !COLOR_RE.test(String(values[key]))) return 'Colours must look like #00d4ff';
+  }
+  if (values.visualizer_size !== undefined && (!Number.isInteger(Number(values.visualizer_size)) || values.visualizer_size < 10 || values.visualizer_size > 100)) {
+    return 'Visualizer size must be 10-100 (% of the frame height)';
+  }
+  return null;
+}
+
+const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+
+/** FFmpeg input for the background: the uploaded image looped, or a generated solid colour. */
+export function visualizerBackgroundArgs(station: any, imagePath: string | null): string[] {
+  if (imagePath) return ['-loop', '1', '-framerate', String(station.video_fps), '-i', imagePath];
+  return ['-f', 'lavfi', '-i', `color=c=${station.visualizer_bg_color}:s=${station.video_width}x${station.video_height}:r=${station.video_fps}`];
+}
+
+/**
+ * filter_complex that draws the audio of input `audioIn` over the background input `bgIn`
+ * at the station's resolution/fps and labels the picture [vis]. Extra filters
+ * (the now-playing drawtext) go after it, e.g. `${graph};[vis]drawtext=...[v]`.
+ */
+export function visualizerGraph(station: any, audioIn: string, bgIn: string): string {
+  const w = station.video_width;
+  const h = station.video_height;
+  const fps = station.video_fps;
+  const color = station.visualizer_color;
+  const full = station.visualizer_placement === 'full';
+  const visH = full ? h : even(h * station.visualizer_size / 100);
+
+  let scope: string;
+  if (station.visualizer_style === 'spectrum') {
+    // showfreqs produces frames at its FFT rate — resample to the station fps
+    scope = `showfreqs=s=${w}x${visH}:mode=bar:ascale=log:fscale=log:win_size=2048:colors=${color},fps=${fps}`;
+  } else if (station.visualizer_style === 'vectorscope') {
+    // Square scope; rc/gc/bc are the per-channel intensities of the trace
+    const side = Math.min(w, visH);
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+    scope = `avectorscope=s=${side}x${side}:rate=${fps}:zoom=1.5:draw=line:rc=${r}:gc=${g}:bc=${b}:rf=15:gf=15:bf=15`;
+  } else {
+    scope = `showwaves=s=${w}x${visH}:mode=cline:rate=${fps}:colors=${color}`;
+  }
+
+  const y = station.visualizer_placement === 'top' || full ? '0'
+    : station.visualizer_placement === 'bottom' ? 'H-h'
+    : '(H-h)/2';
+
+  return [
+    `[${bgIn}]scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h},fps=${fps},setsar=1[bg]`,
+    `[${audioIn}]aformat=channel_layouts=stereo,${scope},format=rgba[scope]`,
+    `[bg][scope]overlay=x=(W-w)/2:y=${y}:shortest=1,format=yuv420p[vis]`,
+  ].join(';');
+}
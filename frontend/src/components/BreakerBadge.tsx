@@ -0,0 +1,20 @@
+import { RestartPolicyState } from '../types';
+
+/** Circuit-breaker state of a station's restart policy; renders nothing while closed. */
+export default function BreakerBadge({ policy }: { policy?: RestartPolicyState }) {
+  if (!policy || policy.breaker === 'closed') return null;
+
+  const next = policy.nextAttemptAt ? new Date(policy.nextAttemptAt).toLocaleTimeString() : null;
+  if (policy.breaker === 'open') {
+    return (
+      <span className="badge-red" title={`${policy.recentFailures} recent failure(s); auto-restart paused`}>
+        Breaker open{next ? ` • retry ${next}` : ''}
+      </span>
+    );
+  }
+  return (
+    <span className="badge-yellow" title="Trial restart — closes once the pipeline stays up">
+      Breaker half-open
+    </span>
+  );
+}
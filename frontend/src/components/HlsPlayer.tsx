@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from 'react';
+import Hls from 'hls.js';
+import { getToken } from '../lib/api';
+
+// The monitor playlist disappears while the pipeline restarts — keep trying
+const RETRY_MS = 3000;
+
+/** Plays a station's HLS monitor output; segment requests carry the JWT like any other API call. */
+export default function HlsPlayer({ src }: { src: string }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [waiting, setWaiting] = useState(true);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !Hls.isSupported()) return;
+
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    const hls = new Hls({
+      liveSyncDurationCount: 2,
+      liveMaxLatencyDurationCount: 5,
+      xhrSetup: (xhr) => {
+        const token = getToken();
+        if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+      },
+    });
+
+    hls.on(Hls.Events.MANIFEST_PARSED, () => {
+      setWaiting(false);
+      video.play().catch(() => {});
+    });
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (!data.fatal) return;
+      if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+        hls.recoverMediaError();
+        return;
+      }
+      setWaiting(true);
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = setTimeout(() => hls.loadSource(src), RETRY_MS);
+    });
+
+    hls.loadSource(src);
+    hls.attachMedia(video);
+
+    return () => {
+      if (retryTimer) clearTimeout(retryTimer);
+      hls.destroy();
+    };
+  }, [src]);
+
+  if (!Hls.isSupported()) {
+    return <p className="text-gray-500 text-sm">This browser cannot play HLS (Media Source Extensions unavailable).</p>;
+  }
+
+  return (
+    <div className="relative">
+      <video ref={videoRef} controls playsInline className="w-full rounded-lg border border-gray-800 bg-black aspect-video" />
+      {waiting && (
+        <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm pointer-events-none">
+          Waiting for live output...
+        </div>
+      )}
+    </div>
+  );
+}
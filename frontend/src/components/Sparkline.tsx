@@ -0,0 +1,31 @@
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;   // stroke color via tailwind text-* class
+  min?: number;         // fixed lower bound (defaults to the series minimum)
+  max?: number;         // fixed upper bound (defaults to the series maximum)
+}
+
+export default function Sparkline({ values, width = 160, height = 36, className = 'text-brand-400', min, max }: SparklineProps) {
+  if (values.length < 2) {
+    return <svg width={width} height={height} className={className} />;
+  }
+
+  const lo = min ?? Math.min(...values);
+  const hi = max ?? Math.max(...values);
+  const range = hi - lo || 1;
+  const step = width / (values.length - 1);
+
+  const points = values.map((v, i) => {
+    const x = i * step;
+    const y = height - 2 - ((Math.min(Math.max(v, lo), hi) - lo) / range) * (height - 4);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className}>
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+}
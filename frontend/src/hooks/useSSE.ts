@@ -1,9 +1,10 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { SSEEvent } from '../types';
+import { LoudnessReading, SSEEvent } from '../types';
 
 export function useSSE() {
   const [events, setEvents] = useState<SSEEvent[]>([]);
   const [connected, setConnected] = useState(false);
+  const [loudness, setLoudness] = useState<Record<string, LoudnessReading>>({});
   const sourceRef = useRef<EventSource | null>(null);
 
   useEffect(() => {
@@ -19,6 +20,11 @@ export function useSSE() {
           setConnected(true);
           return;
         }
+        // Meter readings arrive every second per station — keep the latest, not in the event list
+        if (data.type === 'loudness') {
+          if (data.stationId && data.loudness) setLoudness((prev) => ({ ...prev, [data.stationId!]: data.loudness! }));
+          return;
+        }
         setEvents((prev) => [data, ...prev.slice(0, 499)]);
       } catch {}
     };
@@ -38,7 +44,7 @@ export function useSSE() {
     [events]
   );
 
-  return { events, connected, getStationEvents };
+  return { events, connected, getStationEvents, loudness };
 }
 
 export function useInterval(callback: () => void, delay: number | null) {
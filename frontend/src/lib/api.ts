@@ -1,7 +1,7 @@
 const API = '/api';
 
 // Token getter — reads from both storages (login page sets appropriate storage)
-function getToken(): string | null {
+export function getToken(): string | null {
   return localStorage.getItem('rss_token') || sessionStorage.getItem('rss_token');
 }
 
@@ -34,6 +34,27 @@ async function request<T>(url: string, options?: RequestInit): Promise<T> {
   return res.json();
 }
 
+// Authenticated file download — saved under the server's Content-Disposition name
+async function download(url: string, fallbackName: string): Promise<void> {
+  const token = getToken();
+  const headers: Record<string, string> = {};
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  const res = await fetch(`${API}${url}`, { headers });
+  if (res.status === 401) { handle401(); throw new Error('Session expired'); }
+  if (!res.ok) throw new Error('Download failed');
+  const blob = await res.blob();
+  const disposition = res.headers.get('Content-Disposition') || '';
+  const match = disposition.match(/filename="?([^"]+)"?/);
+  const objectUrl = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = objectUrl;
+  a.download = match ? match[1] : fallbackName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(objectUrl);
+}
+
 export const api = {
   // Stations
   getStations: () => request<any[]>('/stations'),
@@ -46,9 +67,11 @@ export const api = {
     request<any>(`/stations/${id}`, { method: 'DELETE' }),
 
   // Controls
-  startStation: (id: string) => request<any>(`/stations/${id}/start`, { method: 'POST', body: JSON.stringify({}) }),
+  startStation: (id: string, options: { dry_run?: boolean; capture?: boolean } = {}) =>
+    request<any>(`/stations/${id}/start`, { method: 'POST', body: JSON.stringify(options) }),
   stopStation: (id: string) => request<any>(`/stations/${id}/stop`, { method: 'POST', body: JSON.stringify({}) }),
   restartStation: (id: string) => request<any>(`/stations/${id}/restart`, { method: 'POST', body: JSON.stringify({}) }),
+  getStationResources: (id: string) => request<any>(`/stations/${id}/resources`),
 
   // Audio sources
   addSource: (stationId: string, data: { name: string; url: string; priority?: number }) =>
@@ -58,18 +81,33 @@ export const api = {
   deleteSource: (stationId: string, sourceId: string) =>
     request<any>(`/stations/${stationId}/sources/${sourceId}`, { method: 'DELETE' }),
 
+  // Local fallback audio
+  getFallbackAudio: (stationId: string) => request<any[]>(`/stations/${stationId}/fallback-audio`),
+  uploadFallbackAudio: async (stationId: string, file: File) => {
+    const token = getToken();
+    const formData = new FormData();
+    formData.append('file', file);
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(`${API}/stations/${stationId}/fallback-audio`, { method: 'POST', headers, body: formData });
+    if (res.status === 401) { handle401(); throw new Error('Session expired'); }
+    return res.json();
+  },
+  deleteFallbackAudio: (stationId: string, fileId: string) =>
+    request<any>(`/stations/${stationId}/fallback-audio/${fileId}`, { method: 'DELETE' }),
+
   // Playlist
   getPlaylist: (stationId: string) => request<any[]>(`/stations/${stationId}/playlist`),
 
   // Legacy single-request upload (for files under 500MB)
-  uploadVideoSimple: (stationId: string, file: File, onProgress?: (pct: number, loaded: number, total: number) => void): Promise<any> => {
+  uploadVideoSimple: (stationId: string, file: File, onProgress?: (pct: number, loaded: number, total: number) => void, playlistId?: string | null): Promise<any> => {
     return new Promise((resolve, reject) => {
       const formData = new FormData();
       formData.append('file', file);
       const token = getToken();
 
       const xhr = new XMLHttpRequest();
-      xhr.open('POST', `${API}/stations/${stationId}/playlist/upload`);
+      xhr.open('POST', `${API}/stations/${stationId}/playlist/upload${playlistId ? `?playlist_id=${encodeURIComponent(playlistId)}` : ''}`);
       if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
 
       xhr.upload.onprogress = (e) => {
@@ -97,6 +135,7 @@ export const api = {
       isPaused: () => boolean;       // callback to check if paused
       onPaused?: () => void;         // called when upload is actually paused
       signal?: AbortSignal;          // for cancel
+      playlistId?: string | null;    // named playlist to add the item to
     }
   ): Promise<any> => {
     const CHUNK_SIZE = 10 * 1024 * 1024; // 10MB chunks
@@ -107,7 +146,7 @@ export const api = {
     const initResp = await fetch(`${API}/stations/${stationId}/upload/init`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
-      body: JSON.stringify({ fileName: file.name, fileSize: file.size, chunkSize: CHUNK_SIZE }),
+      body: JSON.stringify({ fileName: file.name, fileSize: file.size, chunkSize: CHUNK_SIZE, playlistId: opts.playlistId || null }),
       signal: opts.signal,
     });
     if (initResp.status === 401) { handle401(); throw new Error('Unauthorized'); }
@@ -175,7 +214,8 @@ export const api = {
     stationId: string,
     file: File,
     onProgress?: (pct: number, loaded: number, total: number) => void,
-    pauseControl?: { isPaused: () => boolean; onPaused?: () => void; signal?: AbortSignal }
+    pauseControl?: { isPaused: () => boolean; onPaused?: () => void; signal?: AbortSignal },
+    playlistId?: string | null
   ): Promise<any> => {
     const CHUNKED_THRESHOLD = 500 * 1024 * 1024; // 500MB
 
@@ -186,21 +226,63 @@ export const api = {
         isPaused: pauseControl.isPaused,
         onPaused: pauseControl.onPaused,
         signal: pauseControl.signal,
+        playlistId,
       });
     } else {
       // Use simple XHR upload for small files
-      return api.uploadVideoSimple(stationId, file, onProgress);
+      return api.uploadVideoSimple(stationId, file, onProgress, playlistId);
     }
   },
   reorderPlaylist: (stationId: string, items: { id: string; sort_order: number; is_enabled?: number }[]) =>
     request<any>(`/stations/${stationId}/playlist/reorder`, { method: 'PUT', body: JSON.stringify({ items }) }),
+  // Image item thumbnail as an object URL (null if there is none yet)
+  getThumbnail: async (stationId: string, itemId: string): Promise<string | null> => {
+    const token = getToken();
+    const res = await fetch(`${API}/stations/${stationId}/playlist/${itemId}/thumbnail`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    if (res.status === 401) { handle401(); return null; }
+    return res.ok ? URL.createObjectURL(await res.blob()) : null;
+  },
+  updatePlaylistItem: (stationId: string, itemId: string, data: { weight?: number; playlist_id?: string | null; duration_sec?: number }) =>
+    request<any>(`/stations/${stationId}/playlist/${itemId}`, { method: 'PUT', body: JSON.stringify(data) }),
   deletePlaylistItem: (stationId: string, itemId: string) =>
     request<any>(`/stations/${stationId}/playlist/${itemId}`, { method: 'DELETE' }),
+  retryRendition: (stationId: string, itemId: string) =>
+    request<any>(`/stations/${stationId}/playlist/${itemId}/rendition`, { method: 'POST', body: JSON.stringify({}) }),
   applyPlaylist: (stationId: string) =>
     request<any>(`/stations/${stationId}/playlist/apply`, { method: 'POST', body: JSON.stringify({}) }),
+  getPlayoutHistory: (stationId: string, limit = 50) =>
+    request<any[]>(`/stations/${stationId}/playout/history?limit=${limit}`),
+
+  // Named playlists + daypart schedule
+  createPlaylist: (stationId: string, name: string) =>
+    request<any>(`/stations/${stationId}/playlists`, { method: 'POST', body: JSON.stringify({ name }) }),
+  renamePlaylist: (stationId: string, playlistId: string, name: string) =>
+    request<any>(`/stations/${stationId}/playlists/${playlistId}`, { method: 'PUT', body: JSON.stringify({ name }) }),
+  deletePlaylist: (stationId: string, playlistId: string) =>
+    request<any>(`/stations/${stationId}/playlists/${playlistId}`, { method: 'DELETE' }),
+  getSchedule: (stationId: string) => request<any>(`/stations/${stationId}/schedule`),
+  addScheduleSlot: (stationId: string, data: { playlist_id: string | null; days: number[]; start_time: string; end_time: string }) =>
+    request<any>(`/stations/${stationId}/schedule/slots`, { method: 'POST', body: JSON.stringify(data) }),
+  deleteScheduleSlot: (stationId: string, slotId: string) =>
+    request<any>(`/stations/${stationId}/schedule/slots/${slotId}`, { method: 'DELETE' }),
+  addScheduleOverride: (stationId: string, data: { playlist_id: string | null; date: string; label?: string }) =>
+    request<any>(`/stations/${stationId}/schedule/overrides`, { method: 'POST', body: JSON.stringify(data) }),
+  deleteScheduleOverride: (stationId: string, overrideId: string) =>
+    request<any>(`/stations/${stationId}/schedule/overrides/${overrideId}`, { method: 'DELETE' }),
+
+  // Scheduled start/stop
+  getRunSchedule: (stationId: string, limit = 50) => request<any>(`/stations/${stationId}/run-schedule?limit=${limit}`),
+  addRunScheduleRule: (stationId: string, data: Record<string, any>) =>
+    request<any>(`/stations/${stationId}/run-schedule/rules`, { method: 'POST', body: JSON.stringify(data) }),
+  updateRunScheduleRule: (stationId: string, ruleId: string, data: Record<string, any>) =>
+    request<any>(`/stations/${stationId}/run-schedule/rules/${ruleId}`, { method: 'PUT', body: JSON.stringify(data) }),
+  deleteRunScheduleRule: (stationId: string, ruleId: string) =>
+    request<any>(`/stations/${stationId}/run-schedule/rules/${ruleId}`, { method: 'DELETE' }),
 
   // RTMP destinations
-  addDestination: (stationId: string, data: { name: string; platform: string; rtmp_url: string; stream_key?: string }) =>
+  addDestination: (stationId: string, data: { name: string; platform: string; protocol: string; rtmp_url: string; stream_key?: string; srt_latency_ms?: number; srt_passphrase?: string }) =>
     request<any>(`/stations/${stationId}/destinations`, { method: 'POST', body: JSON.stringify(data) }),
   updateDestination: (stationId: string, destId: string, data: Record<string, any>) =>
     request<any>(`/stations/${stationId}/destinations/${destId}`, { method: 'PUT', body: JSON.stringify(data) }),
@@ -211,16 +293,19 @@ export const api = {
   testAudio: (url: string) => request<any>('/test/audio', { method: 'POST', body: JSON.stringify({ url }) }),
   testNowPlaying: (data: { mode: string; azuracast_url?: string; azuracast_station?: string; icecast_url?: string }) =>
     request<any>('/test/nowplaying', { method: 'POST', body: JSON.stringify(data) }),
-  testRtmp: (data: { rtmp_url: string; stream_key?: string }) =>
+  testRtmp: (data: { protocol: string; rtmp_url: string; stream_key?: string; srt_latency_ms?: number; srt_passphrase?: string }) =>
     request<any>('/test/rtmp', { method: 'POST', body: JSON.stringify(data) }),
   healthCheck: (stationId: string) => request<any>(`/stations/${stationId}/healthcheck`, { method: 'POST', body: JSON.stringify({}) }),
+  getStationCommand: (stationId: string) => request<any>(`/stations/${stationId}/command`),
   testTelegram: (stationId: string) => request<any>(`/stations/${stationId}/test/telegram`, { method: 'POST', body: JSON.stringify({}) }),
 
   // Preview
   getPreviewUrl: (stationId: string) => `${API}/stations/${stationId}/preview?t=${Date.now()}`,
+  getHlsUrl: (stationId: string) => `${API}/stations/${stationId}/hls/index.m3u8`,
 
   // Logs
-  getLogs: (stationId: string, limit = 100) => request<any[]>(`/stations/${stationId}/logs?limit=${limit}`),
+  getLogs: (stationId: string, limit = 100, source?: string) =>
+    request<any[]>(`/stations/${stationId}/logs?limit=${limit}${source ? `&source=${encodeURIComponent(source)}` : ''}`),
   exportLogsCsv: async (stationId: string, level?: string) => {
     const token = getToken();
     const params = level ? `?level=${level}` : '';
@@ -242,6 +327,17 @@ export const api = {
     URL.revokeObjectURL(url);
   },
 
+  // Program archive
+  getArchive: (stationId: string) => request<{ files: any[]; totalSize: number }>(`/stations/${stationId}/archive`),
+  deleteArchiveFile: (stationId: string, file: string) =>
+    request<any>(`/stations/${stationId}/archive/${encodeURIComponent(file)}`, { method: 'DELETE' }),
+  downloadArchiveFile: (stationId: string, file: string) =>
+    download(`/stations/${stationId}/archive/${encodeURIComponent(file)}`, file),
+
+  // Dry run capture (current / last dry run of the station)
+  downloadDryRunCapture: (stationId: string, file: string) =>
+    download(`/stations/${stationId}/dry-run/${encodeURIComponent(file)}`, file),
+
   // Fonts
   getFonts: () => request<{ system: any[]; google: any[]; custom: any[] }>('/fonts'),
   uploadFont: async (file: File) => {
@@ -256,6 +352,37 @@ export const api = {
   },
   deleteFont: (filename: string) => request<any>(`/fonts/${encodeURIComponent(filename)}`, { method: 'DELETE' }),
 
+  // Visualizer background image
+  uploadVisualizerBackground: async (stationId: string, file: File) => {
+    const token = getToken();
+    const formData = new FormData();
+    formData.append('file', file);
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(`${API}/stations/${stationId}/visualizer/background`, { method: 'POST', headers, body: formData });
+    if (res.status === 401) { handle401(); throw new Error('Session expired'); }
+    return res.json();
+  },
+  deleteVisualizerBackground: (stationId: string) =>
+    request<any>(`/stations/${stationId}/visualizer/background`, { method: 'DELETE' }),
+
+  // Fallback slate image
+  uploadSlateImage: async (stationId: string, file: File) => {
+    const token = getToken();
+    const formData = new FormData();
+    formData.append('file', file);
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(`${API}/stations/${stationId}/slate/image`, { method: 'POST', headers, body: formData });
+    if (res.status === 401) { handle401(); throw new Error('Session expired'); }
+    return res.json();
+  },
+  deleteSlateImage: (stationId: string) =>
+    request<any>(`/stations/${stationId}/slate/image`, { method: 'DELETE' }),
+
   // System
   getSystemHealth: () => request<any>('/system/health'),
+  getCapacity: () => request<any>('/admin/capacity'),
+  updateCapacity: (data: Record<string, any>) =>
+    request<any>('/admin/capacity', { method: 'PUT', body: JSON.stringify(data) }),
 };
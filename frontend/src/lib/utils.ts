@@ -33,10 +33,10 @@ export function formatUptime(seconds: number): string {
 
 export function statusColor(status: string): string {
   switch (status) {
-    case 'running': return 'badge-green';
-    case 'starting': case 'restarting': return 'badge-yellow';
-    case 'error': return 'badge-red';
-    case 'stopped': return 'badge-gray';
+    case 'running': case 'connected': return 'badge-green';
+    case 'starting': case 'restarting': case 'connecting': case 'reconnecting': return 'badge-yellow';
+    case 'error': case 'failed': return 'badge-red';
+    case 'stopped': case 'disconnected': return 'badge-gray';
     default: return 'badge-blue';
   }
 }
@@ -2,8 +2,10 @@ import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { api } from '../lib/api';
 import { formatBytes, formatUptime, statusColor } from '../lib/utils';
-import { Station, SystemHealth } from '../types';
+import { CapacityReport, ResourceSample, Station, SystemHealth } from '../types';
 import { useInterval } from '../hooks/useSSE';
+import BreakerBadge from '../components/BreakerBadge';
+import Sparkline from '../components/Sparkline';
 import {
   Plus, Radio, Cpu, HardDrive, MemoryStick, Activity,
   Play, Square, RotateCw, ChevronRight, Trash2
@@ -16,12 +18,16 @@ interface DashboardProps {
 export default function Dashboard({ sse }: DashboardProps) {
   const [stations, setStations] = useState<Station[]>([]);
   const [health, setHealth] = useState<SystemHealth | null>(null);
+  const [capacity, setCapacity] = useState<CapacityReport | null>(null);
   const [showCreate, setShowCreate] = useState(false);
   const [newName, setNewName] = useState('');
   const [newSlug, setNewSlug] = useState('');
 
   const loadStations = () => api.getStations().then(setStations).catch(() => {});
-  const loadHealth = () => api.getSystemHealth().then(setHealth).catch(() => {});
+  const loadHealth = () => {
+    api.getSystemHealth().then(setHealth).catch(() => {});
+    api.getCapacity().then(setCapacity).catch(() => {});
+  };
 
   useEffect(() => { loadStations(); loadHealth(); }, []);
   useInterval(loadStations, 5000);
@@ -65,7 +71,14 @@ export default function Dashboard({ sse }: DashboardProps) {
             <div>
               <p className="text-xs text-gray-500 uppercase tracking-wider">CPU</p>
               <p className="text-lg font-semibold text-white">{health.cpu.usagePercent}%</p>
-              <p className="text-[10px] text-gray-600">{health.cpu.count} cores</p>
+              <p className="text-[10px] text-gray-600">
+                {health.cpu.count} cores
+                {capacity && capacity.settings.mode !== 'off' && (
+                  <span className={capacity.usedPercent > capacity.budgetPercent ? 'text-red-400' : ''} title="CPU used by stations on air / admission budget (% of one core)">
+                    {' '}• stations {capacity.usedPercent}% / {capacity.budgetPercent}%
+                  </span>
+                )}
+              </p>
             </div>
           </div>
           <div className="card flex items-center gap-4">
@@ -136,18 +149,35 @@ export default function Dashboard({ sse }: DashboardProps) {
                   <p className="text-xs text-gray-500">/{station.slug}</p>
                 </div>
               </div>
-              <span className={statusColor(station.runtime?.status || station.status)}>
-                {station.runtime?.status || station.status}
-              </span>
+              <div className="flex items-center gap-2">
+                {station.runtime?.dryRun && (
+                  <span className="badge-yellow" title="Destinations are replaced by local sinks">Dry run</span>
+                )}
+                <span className={statusColor(station.runtime?.status || station.status)}>
+                  {station.runtime?.status || station.status}
+                </span>
+              </div>
             </div>
 
             {station.runtime?.uptime != null && (
               <p className="text-xs text-gray-500 mb-3">Uptime: {formatUptime(station.runtime.uptime)}</p>
             )}
 
+            {station.runtime?.resources && (
+              <StationResources stationId={station.id} current={station.runtime.resources} />
+            )}
+
+            {station.runtime?.restartPolicy && (station.runtime.restartPolicy.breaker !== 'closed' || station.runtime.restartCount > 0) && (
+              <div className="flex items-center gap-2 text-xs text-gray-500 mb-3">
+                <span>Restarts: {station.runtime.restartCount}</span>
+                {station.runtime.restartPolicy.recentFailures > 0 && <span>• {station.runtime.restartPolicy.recentFailures} recent failure(s)</span>}
+                <BreakerBadge policy={station.runtime.restartPolicy} />
+              </div>
+            )}
+
             <div className="flex items-center justify-between mt-4">
               <div className="flex gap-2">
-                <button onClick={() => api.startStation(station.id).then(loadStations)}
+                <button onClick={() => api.startStation(station.id).then(res => { if (res?.error) alert(res.error); loadStations(); })}
                   className="p-1.5 rounded-md hover:bg-emerald-500/20 text-emerald-400 transition-colors" title="Start">
                   <Play className="w-4 h-4" />
                 </button>
@@ -155,7 +185,7 @@ export default function Dashboard({ sse }: DashboardProps) {
                   className="p-1.5 rounded-md hover:bg-red-500/20 text-red-400 transition-colors" title="Stop">
                   <Square className="w-4 h-4" />
                 </button>
-                <button onClick={() => api.restartStation(station.id).then(loadStations)}
+                <button onClick={() => api.restartStation(station.id).then(res => { if (res?.error) alert(res.error); loadStations(); })}
                   className="p-1.5 rounded-md hover:bg-amber-500/20 text-amber-400 transition-colors" title="Restart">
                   <RotateCw className="w-4 h-4" />
                 </button>
@@ -186,3 +216,34 @@ export default function Dashboard({ sse }: DashboardProps) {
     </div>
   );
 }
+
+// Resource usage of one station's FFmpeg processes, with a CPU sparkline of the last 10 minutes
+function StationResources({ stationId, current }: { stationId: string; current: ResourceSample }) {
+  const [history, setHistory] = useState<ResourceSample[]>([]);
+
+  useEffect(() => {
+    api.getStationResources(stationId).then(res => setHistory(res.history || [])).catch(() => {});
+  }, [stationId]);
+
+  // The dashboard polls stations anyway — append each new sample instead of refetching the history
+  useEffect(() => {
+    setHistory(prev => prev.length > 0 && prev[prev.length - 1].sampledAt === current.sampledAt
+      ? prev
+      : [...prev, current].slice(-120));
+  }, [current.sampledAt]);
+
+  const breakdown = current.processes
+    .map(p => `${p.role} (PID ${p.pid}): ${p.cpuPercent}% CPU, ${formatBytes(p.rssBytes)}, ${p.threads} threads`)
+    .join('\n');
+
+  return (
+    <div className="flex items-center justify-between gap-3 mb-3" title={breakdown}>
+      <div className="flex items-center gap-3 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><Cpu className="w-3 h-3" /> {current.cpuPercent}%</span>
+        <span className="flex items-center gap-1"><MemoryStick className="w-3 h-3" /> {formatBytes(current.rssBytes)}</span>
+        <span>{current.threads} threads</span>
+      </div>
+      <Sparkline values={history.map(s => s.cpuPercent)} width={90} height={20} min={0} className="text-blue-400" />
+    </div>
+  );
+}
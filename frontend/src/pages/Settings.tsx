@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { Shield, User, Lock, Eye, EyeOff, CheckCircle, AlertCircle, Loader2, KeyRound, Globe, Mail, ShieldCheck, ShieldOff, RefreshCw, ExternalLink, HardDrive, Trash2, FolderOpen, Database } from 'lucide-react';
+import { Shield, User, Lock, Eye, EyeOff, CheckCircle, AlertCircle, Loader2, KeyRound, Globe, Mail, ShieldCheck, ShieldOff, RefreshCw, ExternalLink, HardDrive, Trash2, FolderOpen, Database, Archive, Cpu } from 'lucide-react';
+import { AdmissionMode, CapacityReport } from '../types';
 
 interface StorageInfo {
   disk: {
@@ -9,6 +10,10 @@ interface StorageInfo {
     usagePercent: number;
   };
   uploads: { totalSize: number; totalFormatted: string };
+  archive: {
+    totalSize: number; totalFormatted: string;
+    stations: { id: string; size: number; sizeFormatted: string; fileCount: number }[];
+  };
   chunks: {
     totalSize: number; totalFormatted: string; sessionCount: number;
     sessions: { sessionId: string; size: number; sizeFormatted: string; chunkCount: number; createdAt: string; age: string }[];
@@ -94,6 +99,47 @@ export default function Settings() {
 
   useEffect(() => { fetchStorage(); }, [token]);
 
+  // Host capacity (admission control)
+  const [capacity, setCapacity] = useState<CapacityReport | null>(null);
+  const [capMode, setCapMode] = useState<AdmissionMode>('warn');
+  const [capBudget, setCapBudget] = useState(85);
+  const [capShed, setCapShed] = useState(false);
+  const [capSaving, setCapSaving] = useState(false);
+  const [capError, setCapError] = useState('');
+
+  const applyCapacity = (data: CapacityReport) => {
+    setCapacity(data);
+    setCapMode(data.settings.mode);
+    setCapBudget(data.settings.budgetPercent);
+    setCapShed(data.settings.shed);
+  };
+
+  const fetchCapacity = async () => {
+    if (!token) return;
+    try {
+      const res = await fetch('/api/admin/capacity', { headers: { Authorization: `Bearer ${token}` } });
+      if (res.ok) applyCapacity(await res.json());
+    } catch {}
+  };
+
+  useEffect(() => { fetchCapacity(); }, [token]);
+
+  const handleSaveCapacity = async () => {
+    if (!token) return;
+    setCapError(''); setCapSaving(true);
+    try {
+      const res = await fetch('/api/admin/capacity', {
+        method: 'PUT',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode: capMode, budgetPercent: capBudget, shed: capShed }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save capacity settings');
+      applyCapacity(data);
+    } catch (err: any) { setCapError(err.message); }
+    finally { setCapSaving(false); }
+  };
+
   // Storage: delete all chunks
   const handleCleanAllChunks = async () => {
     if (!token || !confirm('Ștergi TOATE chunk-urile orfane? Aceasta va elibera spațiu pe disc.')) return;
@@ -417,6 +463,107 @@ export default function Settings() {
         </div>
       </div>
 
+      {/* Host Capacity Card */}
+      <div className="bg-gray-900 border border-gray-800 rounded-xl p-6">
+        <div className="flex items-center gap-3 mb-5">
+          <div className="w-10 h-10 rounded-full bg-blue-600/20 flex items-center justify-center">
+            <Cpu className="w-5 h-5 text-blue-400" />
+          </div>
+          <div className="flex-1">
+            <h2 className="text-lg font-semibold text-white">Host Capacity</h2>
+            <p className="text-xs text-gray-500">Admission control — keep stations from starting beyond what the CPU can encode in real time</p>
+          </div>
+          <button onClick={fetchCapacity} className="text-gray-400 hover:text-white transition-colors" title="Refresh">
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+
+        {capError && (
+          <div className="mb-4 flex items-center gap-2 bg-red-500/10 border border-red-500/30 text-red-400 rounded-lg px-4 py-2.5 text-sm">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            <span>{capError}</span>
+          </div>
+        )}
+
+        {capacity && (
+          <div className="mb-5">
+            <div className="flex justify-between text-xs text-gray-400 mb-1.5">
+              <span>Stations on air: {capacity.usedPercent}% / {capacity.budgetPercent}% CPU ({capacity.cores} cores)</span>
+              <span className={capacity.usedPercent > capacity.budgetPercent ? 'text-red-400 font-bold' : 'text-emerald-400'}>
+                {Math.round(capacity.usedPercent / capacity.budgetPercent * 100)}%
+              </span>
+            </div>
+            <div className="w-full h-3 bg-gray-800 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all duration-500 ${capacity.usedPercent > capacity.budgetPercent ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ width: `${Math.min(100, capacity.usedPercent / capacity.budgetPercent * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">When a start goes over budget</label>
+              <select
+                value={capMode}
+                onChange={(e) => setCapMode(e.target.value as AdmissionMode)}
+                title="Admission mode"
+                className="w-full bg-gray-800 border border-gray-700 text-white rounded-lg px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="warn">Start anyway, log a warning</option>
+                <option value="refuse">Refuse the start</option>
+                <option value="off">Off (no admission control)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">CPU budget (% of all cores)</label>
+              <input
+                type="number" min={10} max={100}
+                value={capBudget}
+                onChange={(e) => setCapBudget(Number(e.target.value))}
+                title="CPU budget"
+                className="w-full bg-gray-800 border border-gray-700 text-white rounded-lg px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={capShed} onChange={(e) => setCapShed(e.target.checked)} className="rounded" />
+            Stop lower-priority stations to make room and when stations stay over budget for 30 s
+          </label>
+          <button
+            onClick={handleSaveCapacity}
+            disabled={capSaving}
+            className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white font-semibold rounded-lg py-2.5 text-sm transition-all"
+          >
+            {capSaving ? 'Saving...' : 'Save'}
+          </button>
+
+          {capacity && capacity.stations.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-400 mb-2">Cost per station (% of one core)</h3>
+              <div className="space-y-1">
+                {capacity.stations.map(st => (
+                  <div key={st.stationId} className="flex items-center gap-3 text-xs bg-gray-800/50 rounded-lg px-3 py-2">
+                    <span className={`w-2 h-2 rounded-full ${st.running ? 'bg-emerald-400' : 'bg-gray-600'}`} />
+                    <span className="flex-1 text-gray-300 truncate">{st.name}</span>
+                    <span className="text-gray-500">P{st.priority}</span>
+                    <span className="text-gray-400 w-36 text-right">
+                      {st.measuredPercent != null ? `${st.measuredPercent}% measured` : `~${st.estimatedPercent}% estimated`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-gray-600">
+            A station's cost is estimated from its resolution, fps, overlay or visualizer and extra destination encodes,
+            corrected by its measured usage. Each station's priority is set in its Settings tab.
+          </p>
+        </div>
+      </div>
+
       {/* Storage Management Card */}
       <div className="bg-gray-900 border border-gray-800 rounded-xl p-6">
         <div className="flex items-center gap-3 mb-5">
@@ -475,12 +622,17 @@ export default function Settings() {
             </div>
 
             {/* Overview Grid */}
-            <div className="grid grid-cols-3 gap-3 mb-5">
+            <div className="grid grid-cols-4 gap-3 mb-5">
               <div className="bg-gray-800/50 rounded-lg p-3 text-center">
                 <Database className="w-4 h-4 text-blue-400 mx-auto mb-1" />
                 <p className="text-xs text-gray-500">Total Uploads</p>
                 <p className="text-sm font-bold text-white">{storageInfo.uploads.totalFormatted}</p>
               </div>
+              <div className="bg-gray-800/50 rounded-lg p-3 text-center" title={storageInfo.archive.stations.map(s => `${s.id}: ${s.sizeFormatted} (${s.fileCount})`).join('\n')}>
+                <Archive className="w-4 h-4 text-amber-400 mx-auto mb-1" />
+                <p className="text-xs text-gray-500">Arhive</p>
+                <p className="text-sm font-bold text-white">{storageInfo.archive.totalFormatted}</p>
+              </div>
               <div className={`rounded-lg p-3 text-center ${storageInfo.chunks.totalSize > 0 ? 'bg-red-500/10 border border-red-500/20' : 'bg-gray-800/50'}`}>
                 <FolderOpen className={`w-4 h-4 mx-auto mb-1 ${storageInfo.chunks.totalSize > 0 ? 'text-red-400' : 'text-gray-500'}`} />
                 <p className="text-xs text-gray-500">Chunk-uri orfane</p>
@@ -1,35 +1,44 @@
 import { useState, useEffect, useRef } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { api } from '../lib/api';
-import { formatBytes, statusColor, formatUptime, formatFileSize, formatUploadSpeed, formatEta } from '../lib/utils';
-import { Station, AudioSource, PlaylistItem, RtmpDestination, StationLog } from '../types';
+import { formatBytes, formatDuration, statusColor, formatUptime, formatFileSize, formatUploadSpeed, formatEta } from '../lib/utils';
+import { Station, AudioSource, PlaylistItem, RtmpDestination, StationLog, SSEEvent, EncoderMetrics, OutputProtocol, ArchiveFile, ProfileEncode, PlaybackMode, PlayoutHistoryEntry, Playlist, StationSchedule, RunSchedule, RunScheduleRule, RunAction, UpcomingAction, VideoMode, VisualizerStyle, VisualizerPlacement, LoudnessReading, FallbackAudioFile, CapacityReport, StationLoad, CommandInspection } from '../types';
 import { useInterval } from '../hooks/useSSE';
+import Sparkline from '../components/Sparkline';
+import BreakerBadge from '../components/BreakerBadge';
+import HlsPlayer from '../components/HlsPlayer';
 import {
   ArrowLeft, Play, Square, RotateCw, Upload, Trash2, GripVertical,
   Eye, EyeOff, TestTube, Radio, Wifi, WifiOff, Image, RefreshCw,
   ChevronDown, ChevronUp, Settings, Music, Tv, Send, ScrollText,
   Stethoscope, Palette, Globe, Download, AlertTriangle, Filter,
-  Pause, XCircle
+  Pause, XCircle, MonitorPlay, Archive, Shuffle, History, CalendarClock, Plus, VolumeX, Volume2,
+  FlaskConical, Terminal
 } from 'lucide-react';
 
 interface Props {
-  sse: { events: any[]; connected: boolean; getStationEvents: (id: string) => any[] };
+  sse: { events: any[]; connected: boolean; getStationEvents: (id: string) => any[]; loudness: Record<string, LoudnessReading> };
 }
 
-type Tab = 'playlist' | 'sources' | 'destinations' | 'overlay' | 'logs' | 'diagnostics' | 'settings';
+type Tab = 'playlist' | 'schedule' | 'sources' | 'destinations' | 'overlay' | 'archive' | 'logs' | 'diagnostics' | 'settings';
 
 export default function StationDetail({ sse }: Props) {
   const { id } = useParams<{ id: string }>();
   const [station, setStation] = useState<Station | null>(null);
   const [sources, setSources] = useState<AudioSource[]>([]);
   const [playlist, setPlaylist] = useState<PlaylistItem[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [playlistFilter, setPlaylistFilter] = useState<string>('all');   // 'all' | '' (default playlist) | playlist id
   const [destinations, setDestinations] = useState<RtmpDestination[]>([]);
   const [logs, setLogs] = useState<StationLog[]>([]);
+  const [metricsHistory, setMetricsHistory] = useState<EncoderMetrics[]>([]);
   const [logFilter, setLogFilter] = useState<'all' | 'errors'>('all');
   const [tab, setTab] = useState<Tab>('playlist');
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [previewLoading, setPreviewLoading] = useState(false);
   const [previewError, setPreviewError] = useState<string | null>(null);
+  const [showMonitor, setShowMonitor] = useState(false);
+  const [dryRunCapture, setDryRunCapture] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [uploadPaused, setUploadPaused] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<{ pct: number; loaded: number; total: number; speed: number; fileName: string; fileIndex: number; fileCount: number } | null>(null);
@@ -44,7 +53,9 @@ export default function StationDetail({ sse }: Props) {
         setStation({ ...data.station, runtime: data.runtime });
         setSources(data.sources || []);
         setPlaylist(data.playlist || []);
+        setPlaylists(data.playlists || []);
         setDestinations(data.destinations || []);
+        setMetricsHistory(data.metricsHistory || []);
       }
     }).catch(() => {});
   };
@@ -75,6 +86,29 @@ export default function StationDetail({ sse }: Props) {
     }
   }, [sse.events, id]);
 
+  // Append live encoder samples between polls (the poll replaces the series with the server's history)
+  useEffect(() => {
+    const latest = sse.events[0];
+    if (!id || latest?.type !== 'metrics' || latest.stationId !== id || !latest.metrics) return;
+    setMetricsHistory(prev => {
+      const last = prev[prev.length - 1];
+      if (last && last.updatedAt >= latest.metrics!.updatedAt) return prev;
+      return [...prev, latest.metrics!].slice(-90);
+    });
+  }, [sse.events, id]);
+
+  // Live rendition progress for playlist items (ingest transcode jobs)
+  useEffect(() => {
+    const latest = sse.events[0];
+    if (!id || latest?.type !== 'rendition' || latest.stationId !== id || !latest.itemId) return;
+    setPlaylist(prev => prev.map(p => p.id === latest.itemId ? {
+      ...p,
+      rendition_status: latest.status as PlaylistItem['rendition_status'],
+      rendition_progress: latest.progress ?? p.rendition_progress,
+      rendition_error: latest.error ?? null,
+    } : p));
+  }, [sse.events, id]);
+
   if (!station || !id) {
     return (
       <div className="p-6">
@@ -103,7 +137,7 @@ export default function StationDetail({ sse }: Props) {
       setUploadProgress({ pct: 0, loaded: 0, total: file.size, speed: 0, fileName: file.name, fileIndex: i + 1, fileCount: fileList.length });
 
       try {
-        await api.uploadVideo(
+        const res = await api.uploadVideo(
           id!,
           file,
           (pct, loaded, total) => {
@@ -120,8 +154,10 @@ export default function StationDetail({ sse }: Props) {
             isPaused: () => uploadPausedRef.current,
             onPaused: () => setUploadPaused(true),
             signal: abortController.signal,
-          }
+          },
+          playlistFilter === 'all' ? null : playlistFilter || null
         );
+        if (res?.error) alert(res.error);
       } catch (err: any) {
         if (err.message === 'Upload cancelled') {
           break; // stop uploading remaining files
@@ -150,11 +186,16 @@ export default function StationDetail({ sse }: Props) {
     uploadAbortRef.current = null;
   };
 
+  // Items of the playlist being viewed; moves swap two of them in the station-wide order
+  const visiblePlaylist = playlistFilter === 'all' ? playlist : playlist.filter(p => (p.playlist_id || '') === playlistFilter);
+
   const moveItem = async (index: number, direction: 'up' | 'down') => {
     const items = [...playlist];
     const swapIdx = direction === 'up' ? index - 1 : index + 1;
-    if (swapIdx < 0 || swapIdx >= items.length) return;
-    [items[index], items[swapIdx]] = [items[swapIdx], items[index]];
+    if (swapIdx < 0 || swapIdx >= visiblePlaylist.length) return;
+    const a = items.indexOf(visiblePlaylist[index]);
+    const b = items.indexOf(visiblePlaylist[swapIdx]);
+    [items[a], items[b]] = [items[b], items[a]];
     const reordered = items.map((item, i) => ({ id: item.id, sort_order: i }));
     await api.reorderPlaylist(id, reordered);
     load();
@@ -165,6 +206,25 @@ export default function StationDetail({ sse }: Props) {
     load();
   };
 
+  const setItemWeight = async (item: PlaylistItem, weight: number) => {
+    if (!isFinite(weight) || weight === item.weight) return;
+    const res = await api.updatePlaylistItem(id, item.id, { weight });
+    if (res?.error) alert(res.error);
+    load();
+  };
+
+  const setSlideDuration = async (item: PlaylistItem, duration: number) => {
+    if (!isFinite(duration) || duration === item.duration_sec) return;
+    const res = await api.updatePlaylistItem(id, item.id, { duration_sec: duration });
+    if (res?.error) alert(res.error);
+    load();
+  };
+
+  const moveToPlaylist = async (item: PlaylistItem, playlistId: string) => {
+    await api.updatePlaylistItem(id, item.id, { playlist_id: playlistId || null });
+    load();
+  };
+
   const togglePlaylistItem = async (item: PlaylistItem) => {
     const reordered = playlist.map(p => ({
       id: p.id,
@@ -175,6 +235,24 @@ export default function StationDetail({ sse }: Props) {
     load();
   };
 
+  // Stall restarts from the last 10 minutes
+  const lastStall = sse.getStationEvents(id).find(e => e.type === 'stall' && e.timestamp && Date.now() - new Date(e.timestamp).getTime() < 10 * 60 * 1000);
+
+  // Item on air: latest playout event if newer than the last poll
+  const lastPlayout = sse.getStationEvents(id).find(e => e.type === 'playout');
+  const polledOnAir = station.runtime?.onAir ?? null;
+  const onAirItemId = station.runtime?.status !== 'running' ? null
+    : lastPlayout?.startedAt && (!polledOnAir || lastPlayout.startedAt > polledOnAir.startedAt) ? lastPlayout.itemId
+    : polledOnAir?.itemId ?? null;
+  const onSlate = onAirItemId === '';
+
+  // Loudness: live reading if newer than the last poll
+  const polledLoudness = station.runtime?.loudness ?? null;
+  const liveLoudness = sse.loudness[id];
+  const loudness = station.runtime?.status !== 'running' ? null
+    : liveLoudness && (!polledLoudness || liveLoudness.updatedAt > polledLoudness.updatedAt) ? liveLoudness
+    : polledLoudness;
+
   const applyPlaylist = async () => {
     await api.applyPlaylist(id);
     load();
@@ -210,9 +288,11 @@ export default function StationDetail({ sse }: Props) {
 
   const tabs: { key: Tab; label: string; icon: any }[] = [
     { key: 'playlist', label: 'Playlist', icon: Tv },
+    { key: 'schedule', label: 'Schedule', icon: CalendarClock },
     { key: 'sources', label: 'Audio Sources', icon: Music },
-    { key: 'destinations', label: 'RTMP Destinations', icon: Send },
+    { key: 'destinations', label: 'Destinations', icon: Send },
     { key: 'overlay', label: 'Overlay', icon: Palette },
+    { key: 'archive', label: 'Archive', icon: Archive },
     { key: 'logs', label: 'Logs', icon: ScrollText },
     { key: 'diagnostics', label: 'Diagnostics', icon: Stethoscope },
     { key: 'settings', label: 'Settings', icon: Settings },
@@ -232,6 +312,27 @@ export default function StationDetail({ sse }: Props) {
         <span className={statusColor(station.runtime?.status || station.status)}>
           {station.runtime?.status || station.status}
         </span>
+        {station.desired_state === 'running' && (station.runtime?.status || station.status) !== 'running' && (
+          <span className="badge-yellow" title="Station is set to run; the supervisor keeps trying to bring it back">Should be running</span>
+        )}
+        <BreakerBadge policy={station.runtime?.restartPolicy} />
+        {station.runtime?.silentSince && (
+          <span className="badge-red" title={`No audio above ${station.silence_threshold_db} dB since ${new Date(station.runtime.silentSince).toLocaleTimeString()}`}>Dead air</span>
+        )}
+        {station.runtime?.dryRun && (
+          <span className="badge-yellow" title="Destinations are replaced by local sinks — nothing is sent to the platforms">Dry run</span>
+        )}
+        {station.runtime?.audioFallback && (
+          <span className="badge-yellow" title="No audio source is reachable — the station's local fallback audio is playing">Local fallback audio</span>
+        )}
+        {onSlate && (
+          <span className="badge-yellow" title="Nothing in the playlist can play — the fallback slate is on air with the radio audio">Slate on air</span>
+        )}
+        {station.runtime?.activePlaylist && station.runtime.activePlaylist.source !== 'default' && (
+          <span className="badge-blue" title={`Selected by the ${station.runtime.activePlaylist.source}`}>
+            {station.runtime.activePlaylist.name}
+          </span>
+        )}
         {station.runtime?.uptime != null && (
           <span className="text-xs text-gray-500">Up {formatUptime(station.runtime.uptime)}</span>
         )}
@@ -239,21 +340,90 @@ export default function StationDetail({ sse }: Props) {
 
       {/* Controls */}
       <div className="card flex items-center gap-3 flex-wrap">
-        <button onClick={() => api.startStation(id).then(load)} className="btn-success flex items-center gap-2">
+        <button onClick={() => api.startStation(id).then(res => { if (res?.error) alert(res.error); load(); })} className="btn-success flex items-center gap-2">
           <Play className="w-4 h-4" /> Start
         </button>
         <button onClick={() => api.stopStation(id).then(load)} className="btn-danger flex items-center gap-2">
           <Square className="w-4 h-4" /> Stop
         </button>
-        <button onClick={() => api.restartStation(id).then(load)} className="btn-secondary flex items-center gap-2">
+        <button onClick={() => api.restartStation(id).then(res => { if (res?.error) alert(res.error); load(); })} className="btn-secondary flex items-center gap-2">
           <RotateCw className="w-4 h-4" /> Restart
         </button>
+        <button onClick={() => api.startStation(id, { dry_run: true, capture: dryRunCapture }).then(res => { if (res?.error) alert(res.error); load(); })}
+          className="btn-secondary flex items-center gap-2" title="Run the whole pipeline with every destination replaced by a local sink">
+          <FlaskConical className="w-4 h-4" /> Dry Run
+        </button>
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer" title="Keep the last minute of each destination's output for download">
+          <input type="checkbox" checked={dryRunCapture} onChange={e => setDryRunCapture(e.target.checked)} className="rounded" />
+          Capture
+        </label>
         <div className="flex-1" />
+        {!!station.hls_enabled && (
+          <button onClick={() => setShowMonitor(!showMonitor)} className="btn-secondary flex items-center gap-2">
+            <MonitorPlay className="w-4 h-4" /> {showMonitor ? 'Hide Monitor' : 'Live Monitor'}
+          </button>
+        )}
         <button onClick={generatePreview} disabled={previewLoading} className="btn-secondary flex items-center gap-2">
                <Image className="w-4 h-4" /> {previewLoading ? 'Generating...' : 'Preview Snapshot'}
               </button>
       </div>
 
+      {/* Dry run: nothing goes to the platforms */}
+      {station.runtime?.dryRun && (
+        <div className="card border border-amber-500/40 bg-amber-500/10 space-y-2 text-sm">
+          <div className="flex items-center gap-3">
+            <FlaskConical className="w-4 h-4 text-amber-400" />
+            <span className="font-semibold text-amber-300">DRY RUN</span>
+            <span className="text-gray-300">
+              Destinations are replaced by local sinks ({station.runtime.dryRun.capture ? 'capturing' : 'output discarded'}) — nothing is sent to the platforms.
+              Started {new Date(station.runtime.dryRun.startedAt).toLocaleTimeString()}.
+            </span>
+          </div>
+          {station.runtime.dryRun.captures.length > 0 && (
+            <div className="flex items-center gap-2 flex-wrap pl-7">
+              {station.runtime.dryRun.captures.map(file => {
+                const dest = destinations.find(d => file.startsWith(`${d.id}-`));
+                return (
+                  <button key={file} onClick={() => api.downloadDryRunCapture(station.id, file).catch(() => {})}
+                    className="btn-secondary text-xs flex items-center gap-1">
+                    <Download className="w-3 h-3" /> {dest ? dest.name : 'Capture'} · segment {Number(file.slice(-4, -3)) + 1}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Watchdog: recent stall restart */}
+      {lastStall && (
+        <div className="card border border-blue-500/30 bg-blue-500/5 flex items-center gap-3 text-sm">
+          <AlertTriangle className="w-4 h-4 text-blue-400" />
+          <span className="text-gray-300">
+            Encoder stalled ({lastStall.stalledForSec}s without output) and was restarted at {new Date(lastStall.timestamp!).toLocaleTimeString()}
+          </span>
+        </div>
+      )}
+
+      {/* Live encoder metrics */}
+      {station.runtime?.status === 'running' && metricsHistory.length > 0 && (
+        <EncoderMetricsPanel history={metricsHistory} />
+      )}
+      {loudness && <LoudnessMeter reading={loudness} station={station} />}
+
+      {/* Live HLS monitor of the encoder output */}
+      {showMonitor && !!station.hls_enabled && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Live Monitor</h3>
+            <button onClick={() => setShowMonitor(false)} className="text-gray-600 hover:text-gray-400">✕</button>
+          </div>
+          {station.runtime?.hlsActive
+            ? <HlsPlayer src={api.getHlsUrl(id)} />
+            : <p className="text-gray-500 text-sm">Station is not on air — start it to monitor the output.</p>}
+        </div>
+      )}
+
       {/* Preview */}
       {previewLoading && (
         <div className="card text-center py-8">
@@ -295,16 +465,30 @@ export default function StationDetail({ sse }: Props) {
         {tab === 'playlist' && (
           <div className="space-y-4">
             <div className="flex items-center gap-3">
-              <input ref={fileInputRef} type="file" accept="video/mp4,video/*" multiple className="hidden" onChange={handleUpload} title="Upload video files" />
+              <input ref={fileInputRef} type="file" accept="video/mp4,video/*,image/png,image/jpeg,image/webp,image/bmp" multiple className="hidden" onChange={handleUpload} title="Upload video or image files" />
               <button onClick={() => fileInputRef.current?.click()} className="btn-primary flex items-center gap-2" disabled={uploading}>
-                <Upload className="w-4 h-4" /> {uploading ? 'Uploading...' : 'Upload MP4'}
+                <Upload className="w-4 h-4" /> {uploading ? 'Uploading...' : 'Upload MP4 / Image'}
               </button>
               <button onClick={applyPlaylist} className="btn-success flex items-center gap-2">
-                <RefreshCw className="w-4 h-4" /> Apply & Restart Stream
+                <RefreshCw className="w-4 h-4" /> Apply Playlist
               </button>
-              <span className="text-xs text-gray-500">{playlist.filter(p => p.is_enabled).length} active • {playlist.length} total</span>
+              {playlists.length > 0 && (
+                <select className="select-field w-auto" title="Playlist" value={playlistFilter} onChange={e => setPlaylistFilter(e.target.value)}>
+                  <option value="all">All playlists</option>
+                  <option value="">Default</option>
+                  {playlists.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              )}
+              <span className="text-xs text-gray-500">{visiblePlaylist.filter(p => p.is_enabled).length} active • {visiblePlaylist.length} total</span>
+              {station.runtime?.status === 'running' && (
+                <span className="text-xs text-gray-500">Changes apply at the next item — no restart needed</span>
+              )}
             </div>
 
+            <VideoSourceCard station={station} updateStation={updateStation} reload={load} />
+            {station.video_mode === 'playlist' && <SlateCard station={station} updateStation={updateStation} reload={load} />}
+            <PlaybackModeCard station={station} updateStation={updateStation} />
+
             {/* Upload Progress Bar */}
             {uploadProgress && (
               <div className="card space-y-2">
@@ -356,25 +540,59 @@ export default function StationDetail({ sse }: Props) {
               </div>
             )}
 
-            {playlist.length === 0 ? (
+            {visiblePlaylist.length === 0 ? (
               <div className="card text-center py-12">
                 <Tv className="w-10 h-10 text-gray-700 mx-auto mb-3" />
                 <p className="text-gray-500">No videos in playlist. Upload MP4 files above.</p>
               </div>
             ) : (
               <div className="space-y-2">
-                {playlist.map((item, index) => (
-                  <div key={item.id} className={`card flex items-center gap-3 ${!item.is_enabled ? 'opacity-50' : ''}`}>
+                {visiblePlaylist.map((item, index) => (
+                  <div key={item.id} className={`card flex items-center gap-3 ${!item.is_enabled ? 'opacity-50' : ''} ${item.id === onAirItemId ? 'ring-1 ring-green-500/60' : ''}`}>
                     <GripVertical className="w-4 h-4 text-gray-600 cursor-grab" />
                     <span className="text-xs text-gray-600 w-6">{index + 1}</span>
+                    {item.media_type === 'image' && <ItemThumbnail stationId={id} item={item} />}
                     <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-white truncate">{item.original_name}</p>
-                      <p className="text-xs text-gray-500">{formatBytes(item.file_size)}</p>
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium text-white truncate">{item.original_name}</p>
+                        {item.id === onAirItemId && <span className="badge-green">On Air</span>}
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <span>{formatBytes(item.file_size)}</span>
+                        {item.media_type === 'image' ? (
+                          <label className="flex items-center gap-1" title="Time on air">
+                            Image ·
+                            <input type="number" min={1} defaultValue={item.duration_sec ?? station.slide_duration_sec}
+                              key={`${item.id}-${item.duration_sec}`}
+                              onBlur={e => setSlideDuration(item, Number(e.target.value))}
+                              className="input-field w-16 py-0.5 text-xs" />
+                            s on air
+                          </label>
+                        ) : (
+                          <RenditionStatus item={item} onRetry={() => api.retryRendition(id, item.id).then(load)} />
+                        )}
+                      </div>
                     </div>
+                    {playlists.length > 0 && (
+                      <select className="select-field w-auto py-1 text-xs" title="Move to playlist" value={item.playlist_id || ''}
+                        onChange={e => moveToPlaylist(item, e.target.value)}>
+                        <option value="">Default</option>
+                        {playlists.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      </select>
+                    )}
+                    {station.playback_mode === 'weighted' && (
+                      <label className="flex items-center gap-1 text-xs text-gray-500" title="Relative chance of being picked (0 = never)">
+                        Weight
+                        <input type="number" min={0} max={100} step={0.5} defaultValue={item.weight}
+                          key={`${item.id}-${item.weight}`}
+                          onBlur={e => setItemWeight(item, Number(e.target.value))}
+                          className="input-field w-16 py-1 text-xs" />
+                      </label>
+                    )}
                     <div className="flex items-center gap-1">
                       <button onClick={() => moveItem(index, 'up')} disabled={index === 0}
                         title="Move up" className="p-1 rounded hover:bg-gray-800 text-gray-500 disabled:opacity-30"><ChevronUp className="w-4 h-4" /></button>
-                      <button onClick={() => moveItem(index, 'down')} disabled={index === playlist.length - 1}
+                      <button onClick={() => moveItem(index, 'down')} disabled={index === visiblePlaylist.length - 1}
                         title="Move down" className="p-1 rounded hover:bg-gray-800 text-gray-500 disabled:opacity-30"><ChevronDown className="w-4 h-4" /></button>
                       <button onClick={() => togglePlaylistItem(item)}
                         title="Toggle visibility" className="p-1 rounded hover:bg-gray-800 text-gray-500">{item.is_enabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}</button>
@@ -385,18 +603,44 @@ export default function StationDetail({ sse }: Props) {
                 ))}
               </div>
             )}
+
+            <PlayoutHistoryCard stationId={id} />
           </div>
         )}
 
+        {/* ─── DAYPART SCHEDULE ──────────────────── */}
+        {tab === 'schedule' && (
+          <ScheduleTab station={station} playlists={playlists} reload={load} />
+        )}
+
         {/* ─── AUDIO SOURCES ─────────────────────── */}
-        {tab === 'sources' && <SourcesTab stationId={id} sources={sources} reload={load} />}
+        {tab === 'sources' && (
+          <SourcesTab
+            station={station}
+            updateStation={updateStation}
+            sources={sources}
+            activeSourceId={station.runtime?.activeSourceId ?? null}
+            switchEvents={sse.getStationEvents(id).filter(e => e.type === 'source')}
+            reload={load}
+          />
+        )}
 
-        {/* ─── RTMP DESTINATIONS ─────────────────── */}
-        {tab === 'destinations' && <DestinationsTab stationId={id} destinations={destinations} reload={load} />}
+        {/* ─── DESTINATIONS ──────────────────────── */}
+        {tab === 'destinations' && (
+          <DestinationsTab
+            station={station}
+            destinations={destinations}
+            statusEvents={sse.getStationEvents(id).filter(e => e.type === 'destination')}
+            reload={load}
+          />
+        )}
 
         {/* ─── OVERLAY ───────────────────────────── */}
         {tab === 'overlay' && <OverlayTab station={station} updateStation={updateStation} />}
 
+        {/* ─── ARCHIVE ───────────────────────────── */}
+        {tab === 'archive' && <ArchiveTab station={station} updateStation={updateStation} />}
+
         {/* ─── LOGS ──────────────────────────────── */}
         {tab === 'logs' && (() => {
           const errorLogs = logs.filter(l => l.level === 'error' || l.level === 'warn');
@@ -501,12 +745,598 @@ export default function StationDetail({ sse }: Props) {
    SUB-COMPONENTS
    ═══════════════════════════════════════════════════════════ */
 
-function SourcesTab({ stationId, sources, reload }: { stationId: string; sources: AudioSource[]; reload: () => void }) {
+function ItemThumbnail({ stationId, item }: { stationId: string; item: PlaylistItem }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!item.thumbnail_filename) return;
+    let objectUrl: string | null = null;
+    api.getThumbnail(stationId, item.id).then(u => { objectUrl = u; setUrl(u); }).catch(() => {});
+    return () => { if (objectUrl) URL.revokeObjectURL(objectUrl); };
+  }, [stationId, item.id, item.thumbnail_filename]);
+
+  if (!url) {
+    return <div className="w-16 h-9 rounded bg-gray-800 flex items-center justify-center shrink-0"><Image className="w-4 h-4 text-gray-600" /></div>;
+  }
+  return <img src={url} alt="" className="w-16 h-9 object-cover rounded border border-gray-800 shrink-0" />;
+}
+
+function RenditionStatus({ item, onRetry }: { item: PlaylistItem; onRetry: () => void }) {
+  switch (item.rendition_status) {
+    case 'ready':
+      return <span className="text-green-500" title={`Stream-copied at playout (${item.rendition_profile})`}>• Optimized</span>;
+    case 'processing':
+      return (
+        <span className="flex items-center gap-1.5">
+          • Optimizing {Math.round(item.rendition_progress * 100)}%
+          <span className="w-16 bg-gray-800 rounded-full h-1.5 overflow-hidden">
+            <span className="block h-full bg-blue-500" style={{ width: `${Math.round(item.rendition_progress * 100)}%` }} />
+          </span>
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className="flex items-center gap-1 text-red-400" title={item.rendition_error || ''}>
+          • Optimization failed (encoded live)
+          <button onClick={onRetry} title="Retry" className="p-0.5 rounded hover:bg-gray-800"><RotateCw className="w-3 h-3" /></button>
+        </span>
+      );
+    default:
+      return <span>• Queued for optimization</span>;
+  }
+}
+
+const PLAYBACK_MODE_LABELS: Record<PlaybackMode, string> = {
+  sequential: 'Sequential (playlist order)',
+  shuffle: 'Shuffle (each item once per cycle)',
+  weighted: 'Weighted random',
+};
+
+const VISUALIZER_STYLE_LABELS: Record<VisualizerStyle, string> = {
+  waveform: 'Waveform',
+  spectrum: 'Spectrum bars',
+  vectorscope: 'Vectorscope',
+};
+
+const VISUALIZER_PLACEMENT_LABELS: Record<VisualizerPlacement, string> = {
+  full: 'Full frame',
+  center: 'Band in the middle',
+  top: 'Band at the top',
+  bottom: 'Band at the bottom',
+};
+
+function VideoSourceCard({ station, updateStation, reload }: {
+  station: Station; updateStation: (data: Record<string, any>) => Promise<void>; reload: () => void;
+}) {
+  const initial = () => ({
+    video_mode: station.video_mode,
+    visualizer_style: station.visualizer_style,
+    visualizer_color: station.visualizer_color,
+    visualizer_bg_color: station.visualizer_bg_color,
+    visualizer_placement: station.visualizer_placement,
+    visualizer_size: station.visualizer_size,
+  });
+  const [form, setForm] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+  const bgInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => { setForm(initial()); }, [station.id]);
+
+  const dirty = (Object.keys(form) as (keyof typeof form)[]).some(k => form[k] !== station[k]);
+  const visualizer = form.video_mode === 'visualizer';
+
+  const uploadBackground = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const res = await api.uploadVisualizerBackground(station.id, file).catch((err: any) => ({ error: err.message }));
+    setError(res?.error || null);
+    reload();
+  };
+
+  const removeBackground = async () => {
+    await api.deleteVisualizerBackground(station.id);
+    reload();
+  };
+
+  return (
+    <div className="card space-y-3">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="text-xs text-gray-500 mb-1 flex items-center gap-1"><MonitorPlay className="w-3 h-3" /> Video Source</label>
+          <select className="select-field" title="Video source" value={form.video_mode} onChange={e => setForm({ ...form, video_mode: e.target.value as VideoMode })}>
+            <option value="playlist">Playlist videos</option>
+            <option value="visualizer">Audio visualizer</option>
+          </select>
+        </div>
+        {visualizer && (
+          <>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">Style</label>
+              <select className="select-field" title="Visualizer style" value={form.visualizer_style}
+                onChange={e => setForm({ ...form, visualizer_style: e.target.value as VisualizerStyle })}>
+                {(Object.keys(VISUALIZER_STYLE_LABELS) as VisualizerStyle[]).map(s => <option key={s} value={s}>{VISUALIZER_STYLE_LABELS[s]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">Colour</label>
+              <input type="color" title="Visualizer colour" value={form.visualizer_color} onChange={e => setForm({ ...form, visualizer_color: e.target.value })}
+                className="h-9 w-14 rounded bg-gray-800 border border-gray-700 cursor-pointer" />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">Placement</label>
+              <select className="select-field" title="Visualizer placement" value={form.visualizer_placement}
+                onChange={e => setForm({ ...form, visualizer_placement: e.target.value as VisualizerPlacement })}>
+                {(Object.keys(VISUALIZER_PLACEMENT_LABELS) as VisualizerPlacement[]).map(p => <option key={p} value={p}>{VISUALIZER_PLACEMENT_LABELS[p]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">Height (% of frame)</label>
+              <input className="input-field w-24" type="number" min={10} max={100} title="Visualizer height" value={form.visualizer_size}
+                disabled={form.visualizer_placement === 'full'} onChange={e => setForm({ ...form, visualizer_size: Number(e.target.value) })} />
+            </div>
+          </>
+        )}
+        <button onClick={() => updateStation(form)} disabled={!dirty} className="btn-primary disabled:opacity-40">Save</button>
+      </div>
+
+      {visualizer && (
+        <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-gray-800">
+          <span className="text-xs text-gray-500">Background</span>
+          <input type="color" title="Background colour" value={form.visualizer_bg_color} onChange={e => setForm({ ...form, visualizer_bg_color: e.target.value })}
+            className="h-8 w-12 rounded bg-gray-800 border border-gray-700 cursor-pointer" />
+          <input ref={bgInputRef} type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={uploadBackground} title="Upload background image" />
+          {station.visualizer_bg_image ? (
+            <>
+              <span className="text-xs text-gray-300 flex items-center gap-1"><Image className="w-3 h-3" /> {station.visualizer_bg_image}</span>
+              <button onClick={() => bgInputRef.current?.click()} className="text-xs text-blue-400 hover:text-blue-300">Replace</button>
+              <button onClick={removeBackground} className="text-xs text-red-400 hover:text-red-300">Remove</button>
+            </>
+          ) : (
+            <button onClick={() => bgInputRef.current?.click()} className="btn-secondary text-xs flex items-center gap-1">
+              <Image className="w-3 h-3" /> Upload Image
+            </button>
+          )}
+          <span className="text-[10px] text-gray-600">An image replaces the colour; it is scaled to fill the frame.</span>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <p className="text-[10px] text-gray-600">
+        {visualizer
+          ? 'The picture is drawn live from the audio source, with the now-playing overlay on top. The playlist is not used. '
+          : 'Plays the videos below. '}
+        Applies on the next start/restart of the station; use Preview to check the look.
+      </p>
+    </div>
+  );
+}
+
+function SlateCard({ station, updateStation, reload }: {
+  station: Station; updateStation: (data: Record<string, any>) => Promise<void>; reload: () => void;
+}) {
+  const [text, setText] = useState(station.slate_text);
+  const [error, setError] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => { setText(station.slate_text); }, [station.id]);
+
+  const uploadImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const res = await api.uploadSlateImage(station.id, file).catch((err: any) => ({ error: err.message }));
+    setError(res?.error || null);
+    reload();
+  };
+
+  const removeImage = async () => {
+    await api.deleteSlateImage(station.id);
+    reload();
+  };
+
+  return (
+    <div className="card space-y-3">
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer pb-2">
+          <input type="checkbox" checked={!!station.slate_enabled} onChange={e => updateStation({ slate_enabled: e.target.checked ? 1 : 0 })}
+            className="w-4 h-4 rounded bg-gray-800 border-gray-600" />
+          <AlertTriangle className="w-4 h-4 text-yellow-400" /> Fallback slate
+        </label>
+        {!station.slate_image && (
+          <>
+            <div className="flex-1 min-w-[200px]">
+              <label className="text-xs text-gray-500 mb-1 block">Message under the station name</label>
+              <input className="input-field w-full" maxLength={100} placeholder="We'll be right back" value={text}
+                disabled={!station.slate_enabled} onChange={e => setText(e.target.value)} />
+            </div>
+            <button onClick={() => updateStation({ slate_text: text })} disabled={text === station.slate_text} className="btn-primary disabled:opacity-40">Save</button>
+          </>
+        )}
+        <input ref={imageInputRef} type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={uploadImage} title="Upload slate image" />
+        {station.slate_image ? (
+          <div className="flex items-center gap-3 pb-2">
+            <span className="text-xs text-gray-300 flex items-center gap-1"><Image className="w-3 h-3" /> {station.slate_image}</span>
+            <button onClick={() => imageInputRef.current?.click()} className="text-xs text-blue-400 hover:text-blue-300">Replace</button>
+            <button onClick={removeImage} className="text-xs text-red-400 hover:text-red-300">Remove</button>
+          </div>
+        ) : (
+          <button onClick={() => imageInputRef.current?.click()} className="btn-secondary text-xs flex items-center gap-1 mb-1">
+            <Image className="w-3 h-3" /> Use an Image
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <p className="text-[10px] text-gray-600">
+        Shown with the radio audio whenever no playlist item can play (empty playlist, missing files, a video that fails or hangs),
+        so the destinations keep receiving a stream. Without an image, a card with the station name and the message is generated.
+        Changes apply the next time the slate comes on — no restart needed.
+      </p>
+    </div>
+  );
+}
+
+function PlaybackModeCard({ station, updateStation }: { station: Station; updateStation: (data: Record<string, any>) => Promise<void> }) {
+  const [mode, setMode] = useState<PlaybackMode>(station.playback_mode);
+  const [noRepeat, setNoRepeat] = useState(station.no_repeat_window);
+  const [slideSec, setSlideSec] = useState(station.slide_duration_sec);
+  const [crossfade, setCrossfade] = useState(station.slide_crossfade_sec);
+  const dirty = mode !== station.playback_mode || noRepeat !== station.no_repeat_window
+    || slideSec !== station.slide_duration_sec || crossfade !== station.slide_crossfade_sec;
+
+  return (
+    <div className="card flex flex-wrap items-end gap-4">
+      <div>
+        <label className="text-xs text-gray-500 mb-1 flex items-center gap-1"><Shuffle className="w-3 h-3" /> Playback Mode</label>
+        <select className="select-field" title="Playback mode" value={mode} onChange={e => setMode(e.target.value as PlaybackMode)}>
+          {(Object.keys(PLAYBACK_MODE_LABELS) as PlaybackMode[]).map(m => <option key={m} value={m}>{PLAYBACK_MODE_LABELS[m]}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="text-xs text-gray-500 mb-1 block">Don't repeat within last N items</label>
+        <input className="input-field w-32" type="number" min={0} title="No-repeat window" value={noRepeat}
+          disabled={mode === 'sequential'} onChange={e => setNoRepeat(Number(e.target.value))} />
+      </div>
+      <div>
+        <label className="text-xs text-gray-500 mb-1 flex items-center gap-1"><Image className="w-3 h-3" /> New image duration (s)</label>
+        <input className="input-field w-28" type="number" min={1} title="Default slide duration" value={slideSec} onChange={e => setSlideSec(Number(e.target.value))} />
+      </div>
+      <div>
+        <label className="text-xs text-gray-500 mb-1 block">Image crossfade (s)</label>
+        <input className="input-field w-24" type="number" min={0} max={10} step={0.5} title="Crossfade between images" value={crossfade} onChange={e => setCrossfade(Number(e.target.value))} />
+      </div>
+      <button onClick={() => updateStation({ playback_mode: mode, no_repeat_window: noRepeat, slide_duration_sec: slideSec, slide_crossfade_sec: crossfade })}
+        disabled={!dirty} className="btn-primary disabled:opacity-40">
+        Save
+      </button>
+      <p className="text-[10px] text-gray-600 basis-full">
+        Applies from the next item. The window is capped so at least one item can always play; random modes never repeat the previous item.
+        Images stay on air for their own duration (set per item); an image following another image fades in over the crossfade time.
+      </p>
+    </div>
+  );
+}
+
+const OUTCOME_BADGES: Record<string, string> = {
+  played: 'badge-green',
+  skipped: 'badge-yellow',
+  failed: 'badge-red',
+  interrupted: 'badge-gray',
+};
+
+function PlayoutHistoryCard({ stationId }: { stationId: string }) {
+  const [history, setHistory] = useState<PlayoutHistoryEntry[]>([]);
+
+  const loadHistory = () => {
+    api.getPlayoutHistory(stationId, 50).then(rows => setHistory(Array.isArray(rows) ? rows : [])).catch(() => {});
+  };
+  useEffect(() => { loadHistory(); }, [stationId]);
+  useInterval(loadHistory, 10000);
+
+  return (
+    <div className="card space-y-3">
+      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+        <History className="w-4 h-4" /> Recently Played
+      </h3>
+      {history.length === 0 && <p className="text-sm text-gray-500">Nothing has aired yet.</p>}
+      <div className="space-y-1 max-h-72 overflow-y-auto">
+        {history.map(h => (
+          <div key={h.id} className="flex items-center gap-3 px-3 py-1.5 rounded-lg bg-gray-800/40 text-xs">
+            <span className="text-gray-500 font-mono w-36 shrink-0">{new Date(h.started_at).toLocaleString()}</span>
+            <span className="flex-1 text-gray-200 truncate">{h.item_name}</span>
+            <span className="text-gray-600">{h.playback_mode}</span>
+            {h.outcome ? <span className={OUTCOME_BADGES[h.outcome] || 'badge-gray'}>{h.outcome}</span> : <span className="badge-green">On Air</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function ScheduleTab({ station, playlists, reload }: { station: Station; playlists: Playlist[]; reload: () => void }) {
+  const [schedule, setSchedule] = useState<StationSchedule | null>(null);
+  const [timezone, setTimezone] = useState(station.timezone);
+  const [newPlaylist, setNewPlaylist] = useState('');
+  const [slot, setSlot] = useState({ playlist_id: '', days: [1, 2, 3, 4, 5], start_time: '06:00', end_time: '10:00' });
+  const [override, setOverride] = useState({ playlist_id: '', date: '', label: '' });
+  const [error, setError] = useState<string | null>(null);
+  const zones: string[] = (Intl as any).supportedValuesOf?.('timeZone') || [];
+
+  const loadSchedule = () => {
+    api.getSchedule(station.id).then(data => { if (!data.error) setSchedule(data); }).catch(() => {});
+  };
+  useEffect(() => { loadSchedule(); }, [station.id]);
+  useInterval(loadSchedule, 30000);
+
+  const playlistName = (playlistId: string | null) => playlists.find(p => p.id === playlistId)?.name || 'Default';
+
+  // Shows API validation errors; refreshes the schedule + station on success
+  const run = async (action: Promise<any>) => {
+    const res = await action;
+    setError(res?.error || null);
+    if (!res?.error) {
+      loadSchedule();
+      reload();
+    }
+    return !res?.error;
+  };
+
+  const saveTimezone = () => run(api.updateStation(station.id, { timezone }));
+
+  const addPlaylist = async () => {
+    if (!newPlaylist.trim()) return;
+    if (await run(api.createPlaylist(station.id, newPlaylist.trim()))) setNewPlaylist('');
+  };
+
+  const renamePlaylist = (p: Playlist) => {
+    const name = prompt('Playlist name', p.name);
+    if (name && name.trim() && name !== p.name) run(api.renamePlaylist(station.id, p.id, name.trim()));
+  };
+
+  const deletePlaylist = (p: Playlist) => {
+    if (!confirm(`Delete playlist "${p.name}"? Its ${p.item_count} item(s) move to the default playlist and its schedule entries are removed.`)) return;
+    run(api.deletePlaylist(station.id, p.id));
+  };
+
+  const toggleDay = (day: number) => setSlot(s => ({
+    ...s, days: s.days.includes(day) ? s.days.filter(d => d !== day) : [...s.days, day],
+  }));
+
+  const addSlot = () => run(api.addScheduleSlot(station.id, { ...slot, playlist_id: slot.playlist_id || null }));
+
+  const addOverride = async () => {
+    if (await run(api.addScheduleOverride(station.id, { ...override, playlist_id: override.playlist_id || null }))) {
+      setOverride({ playlist_id: '', date: '', label: '' });
+    }
+  };
+
+  const formatClock = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="card space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Daypart Schedule</h3>
+          {schedule && (
+            <span className="text-xs text-gray-500">
+              {WEEKDAY_LABELS[schedule.clock.weekday]} {schedule.clock.date} {formatClock(schedule.clock.minutes)} ({schedule.timezone}) · now:
+              <span className="text-white ml-1">{schedule.active.name}</span>
+              <span className="ml-1">({schedule.active.source})</span>
+            </span>
+          )}
+        </div>
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <label className="text-xs text-gray-500 mb-1 block">Station Timezone</label>
+            <input className="input-field" list="tz-list" title="Timezone" value={timezone} onChange={e => setTimezone(e.target.value)} placeholder="Europe/Bucharest" />
+            <datalist id="tz-list">{zones.map(z => <option key={z} value={z} />)}</datalist>
+          </div>
+          <button onClick={saveTimezone} disabled={timezone === station.timezone} className="btn-primary disabled:opacity-40">Save</button>
+        </div>
+        <p className="text-[10px] text-gray-600">
+          A holiday override plays its playlist all day. Otherwise the weekly slot that started most recently wins; outside every slot the default playlist plays.
+          Switches happen within 15 seconds of a boundary, without restarting the station. An empty playlist falls back to the default one.
+        </p>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+
+      <div className="card space-y-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Playlists</h3>
+        <div className="space-y-1">
+          <div className="flex items-center gap-3 px-3 py-2 rounded-lg bg-gray-800/40 text-sm">
+            <span className="flex-1 text-gray-200">Default</span>
+            <span className="text-xs text-gray-500">items without a named playlist</span>
+          </div>
+          {playlists.map(p => (
+            <div key={p.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-gray-800/40 text-sm">
+              <span className="flex-1 text-gray-200">{p.name}</span>
+              <span className="text-xs text-gray-500">{p.item_count} item(s)</span>
+              <button onClick={() => renamePlaylist(p)} className="text-xs text-blue-400 hover:text-blue-300">Rename</button>
+              <button onClick={() => deletePlaylist(p)} title="Delete playlist"
+                className="p-1 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input className="input-field" placeholder="Morning show" value={newPlaylist} onChange={e => setNewPlaylist(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addPlaylist()} />
+          <button onClick={addPlaylist} className="btn-primary flex items-center gap-1"><Plus className="w-4 h-4" /> Add</button>
+        </div>
+        <p className="text-[10px] text-gray-600">Assign videos to a playlist from the Playlist tab.</p>
+      </div>
+
+      <div className="card space-y-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Weekly Slots</h3>
+        {schedule?.slots.length === 0 && <p className="text-sm text-gray-500">No slots — the default playlist plays all week.</p>}
+        <div className="space-y-1">
+          {schedule?.slots.map(s => (
+            <div key={s.id} className={`flex items-center gap-3 px-3 py-2 rounded-lg bg-gray-800/40 text-sm ${schedule.active.ruleId === s.id ? 'ring-1 ring-green-500/60' : ''}`}>
+              <span className="text-gray-400 w-48">{WEEKDAY_ORDER.filter(d => s.days.split(',').includes(String(d))).map(d => WEEKDAY_LABELS[d]).join(' ')}</span>
+              <span className="font-mono text-gray-200">{s.start_time}–{s.end_time}</span>
+              <span className="flex-1 text-gray-200">{playlistName(s.playlist_id)}</span>
+              {schedule.active.ruleId === s.id && <span className="badge-green">Now</span>}
+              <button onClick={() => run(api.deleteScheduleSlot(station.id, s.id))} title="Delete slot"
+                className="p-1 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-end gap-3 pt-2 border-t border-gray-800">
+          <div className="flex gap-1">
+            {WEEKDAY_ORDER.map(d => (
+              <button key={d} onClick={() => toggleDay(d)}
+                className={`px-2 py-1 rounded text-xs ${slot.days.includes(d) ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400'}`}>
+                {WEEKDAY_LABELS[d]}
+              </button>
+            ))}
+          </div>
+          <input className="input-field w-28" type="time" title="Start" value={slot.start_time} onChange={e => setSlot({ ...slot, start_time: e.target.value })} />
+          <input className="input-field w-28" type="time" title="End" value={slot.end_time} onChange={e => setSlot({ ...slot, end_time: e.target.value })} />
+          <select className="select-field w-auto" title="Playlist" value={slot.playlist_id} onChange={e => setSlot({ ...slot, playlist_id: e.target.value })}>
+            <option value="">Default</option>
+            {playlists.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={addSlot} className="btn-primary flex items-center gap-1"><Plus className="w-4 h-4" /> Add Slot</button>
+        </div>
+        <p className="text-[10px] text-gray-600">An end time at or before the start runs past midnight (e.g. 22:00–06:00).</p>
+      </div>
+
+      <div className="card space-y-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Holiday Overrides</h3>
+        {schedule?.overrides.length === 0 && <p className="text-sm text-gray-500">No overrides.</p>}
+        <div className="space-y-1">
+          {schedule?.overrides.map(o => (
+            <div key={o.id} className={`flex items-center gap-3 px-3 py-2 rounded-lg bg-gray-800/40 text-sm ${schedule.active.ruleId === o.id ? 'ring-1 ring-green-500/60' : ''}`}>
+              <span className="font-mono text-gray-200 w-28">{o.date}</span>
+              <span className="text-gray-400 flex-1">{o.label}</span>
+              <span className="text-gray-200">{playlistName(o.playlist_id)}</span>
+              {schedule.active.ruleId === o.id && <span className="badge-green">Today</span>}
+              <button onClick={() => run(api.deleteScheduleOverride(station.id, o.id))} title="Delete override"
+                className="p-1 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-end gap-3 pt-2 border-t border-gray-800">
+          <input className="input-field w-40" type="date" title="Date" value={override.date} onChange={e => setOverride({ ...override, date: e.target.value })} />
+          <input className="input-field flex-1" placeholder="Christmas" value={override.label} onChange={e => setOverride({ ...override, label: e.target.value })} />
+          <select className="select-field w-auto" title="Playlist" value={override.playlist_id} onChange={e => setOverride({ ...override, playlist_id: e.target.value })}>
+            <option value="">Default</option>
+            {playlists.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={addOverride} disabled={!override.date} className="btn-primary flex items-center gap-1 disabled:opacity-40"><Plus className="w-4 h-4" /> Add Override</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function EncoderMetricsPanel({ history }: { history: EncoderMetrics[] }) {
+  const latest = history[history.length - 1];
+  const speed = latest.speed ?? 0;
+  // Below ~0.98x the encoder can't keep up with real time and viewers will start buffering
+  const behind = latest.speed !== null && speed < 0.98;
+
+  const tiles: { label: string; value: string; series: number[]; color: string; min?: number; max?: number }[] = [
+    { label: 'FPS', value: latest.fps.toFixed(1), series: history.map(m => m.fps), color: 'text-blue-400', min: 0 },
+    { label: 'Bitrate', value: latest.bitrateKbps !== null ? `${Math.round(latest.bitrateKbps)} kbps` : '—', series: history.map(m => m.bitrateKbps ?? 0), color: 'text-purple-400', min: 0 },
+    { label: 'Speed', value: latest.speed !== null ? `${speed.toFixed(2)}x` : '—', series: history.map(m => m.speed ?? 0), color: behind ? 'text-red-400' : 'text-emerald-400', min: 0.8, max: 1.2 },
+  ];
+
+  return (
+    <div className={`card ${behind ? 'border-red-800' : ''}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Encoder</h3>
+        {behind && (
+          <span className="badge-red flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> Below real time</span>
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {tiles.map(t => (
+          <div key={t.label}>
+            <p className="text-xs text-gray-500 uppercase tracking-wider">{t.label}</p>
+            <p className="text-lg font-semibold text-white font-mono">{t.value}</p>
+            <Sparkline values={t.series} className={t.color} min={t.min} max={t.max} />
+          </div>
+        ))}
+        <div className="text-xs text-gray-400 space-y-1 font-mono">
+          <p><span className="text-gray-500">Sent:</span> {formatBytes(latest.totalBytes)}</p>
+          <p><span className="text-gray-500">Dropped:</span> <span className={latest.dropFrames > 0 ? 'text-amber-400' : ''}>{latest.dropFrames}</span></p>
+          <p><span className="text-gray-500">Duplicated:</span> <span className={latest.dupFrames > 0 ? 'text-amber-400' : ''}>{latest.dupFrames}</span></p>
+          <p><span className="text-gray-500">Frames:</span> {latest.frame}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const METER_FLOOR_LUFS = -60;
+
+function LoudnessMeter({ reading, station }: { reading: LoudnessReading; station: Station }) {
+  // Without normalization, mark the level most platforms normalize playback to
+  const target = station.loudnorm_enabled ? station.loudnorm_target_lufs : -14;
+  const pct = (v: number) => Math.min(100, Math.max(0, (v - METER_FLOOR_LUFS) / -METER_FLOOR_LUFS * 100));
+  const fmt = (v: number | null) => v === null || v <= -70 ? '—' : v.toFixed(1);
+  const bars: { label: string; value: number | null }[] = [
+    { label: 'Momentary', value: reading.momentary },
+    { label: 'Short-term', value: reading.shortTerm },
+  ];
+
+  return (
+    <div className="card space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Volume2 className="w-4 h-4" /> Loudness (EBU R128)
+        </h3>
+        <span className={station.loudnorm_enabled ? 'badge-green' : 'badge-gray'}>
+          {station.loudnorm_enabled ? `Normalized to ${station.loudnorm_target_lufs} LUFS` : 'Not normalized'}
+        </span>
+      </div>
+      {bars.map(b => {
+        const value = b.value ?? METER_FLOOR_LUFS;
+        const color = value > target + 3 ? 'bg-red-500' : value > target - 3 ? 'bg-emerald-500' : 'bg-blue-500';
+        return (
+          <div key={b.label} className="flex items-center gap-3">
+            <span className="text-xs text-gray-500 w-20 shrink-0">{b.label}</span>
+            <div className="relative flex-1 h-3 rounded bg-gray-800 overflow-hidden">
+              <div className={`h-full ${color} transition-all duration-300`} style={{ width: `${pct(value)}%` }} />
+              <div className="absolute top-0 bottom-0 w-px bg-white/70" style={{ left: `${pct(target)}%` }}
+                title={station.loudnorm_enabled ? `Target ${target} LUFS` : `${target} LUFS (typical platform playback level)`} />
+            </div>
+            <span className="text-xs text-white font-mono w-20 text-right">{fmt(b.value)} LUFS</span>
+          </div>
+        );
+      })}
+      <div className="flex gap-6 text-xs font-mono text-gray-400">
+        <span><span className="text-gray-500">Integrated:</span> {fmt(reading.integrated)} LUFS</span>
+        <span><span className="text-gray-500">Range:</span> {reading.lra !== null ? `${reading.lra.toFixed(1)} LU` : '—'}</span>
+      </div>
+    </div>
+  );
+}
+
+function SourcesTab({ station, updateStation, sources, activeSourceId, switchEvents, reload }: {
+  station: Station;
+  updateStation: (data: Record<string, any>) => Promise<void>;
+  sources: AudioSource[];
+  activeSourceId: string | null;
+  switchEvents: SSEEvent[];
+  reload: () => void;
+}) {
   const [name, setName] = useState('');
   const [url, setUrl] = useState('');
   const [priority, setPriority] = useState(0);
   const [testing, setTesting] = useState<string | null>(null);
   const [testResult, setTestResult] = useState<Record<string, { ok: boolean; msg: string }>>({});
+  const [switchLog, setSwitchLog] = useState<StationLog[]>([]);
+  const stationId = station.id;
+
+  // Switch history lives in station_logs (source = 'failover'); refresh it whenever a live switch arrives
+  useEffect(() => {
+    api.getLogs(stationId, 20, 'failover').then(setSwitchLog).catch(() => {});
+  }, [stationId, switchEvents.length]);
+
+  useEffect(() => {
+    if (switchEvents.length > 0) reload();
+  }, [switchEvents.length]);
 
   const add = async () => {
     if (!name || !url) return;
@@ -537,6 +1367,8 @@ function SourcesTab({ stationId, sources, reload }: { stationId: string; sources
 
   return (
     <div className="space-y-4">
+      <SilenceDetectionCard station={station} updateStation={updateStation} />
+
       <div className="card space-y-3">
         <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Add Audio Source</h3>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
@@ -580,7 +1412,10 @@ function SourcesTab({ stationId, sources, reload }: { stationId: string; sources
           <div className={`flex items-center gap-4 ${!src.is_enabled ? 'opacity-50' : ''}`}>
             <div className={`w-2 h-2 rounded-full ${src.status === 'healthy' ? 'bg-emerald-400' : src.status === 'unreachable' ? 'bg-red-400' : 'bg-gray-600'}`} />
             <div className="flex-1">
-              <p className="text-sm font-medium text-white">{src.name}</p>
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium text-white">{src.name}</p>
+                {src.id === activeSourceId && <span className="badge-green">On Air</span>}
+              </div>
               <p className="text-xs text-gray-500 font-mono truncate">{src.url}</p>
             </div>
             <span className="text-xs text-gray-500">P{src.priority}</span>
@@ -604,67 +1439,401 @@ function SourcesTab({ stationId, sources, reload }: { stationId: string; sources
           )}
         </div>
       ))}
+
+      <FallbackAudioCard station={station} updateStation={updateStation} />
+
+      {/* Failover history */}
+      <div className="card space-y-2">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <RefreshCw className="w-4 h-4" /> Source Switches
+        </h3>
+        {switchLog.length === 0 ? (
+          <p className="text-xs text-gray-600">No source switches yet. The station switches automatically when the active source fails and returns to the primary once it recovers.</p>
+        ) : (
+          <div className="font-mono text-xs">
+            {switchLog.map(log => (
+              <div key={log.id} className={`log-line flex gap-3 ${log.level === 'warn' ? 'text-amber-400' : 'text-gray-400'}`}>
+                <span className="text-gray-600 shrink-0">{new Date(log.created_at).toLocaleString()}</span>
+                <span className="break-all">{log.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
 
-function DestinationsTab({ stationId, destinations, reload }: { stationId: string; destinations: RtmpDestination[]; reload: () => void }) {
+function FallbackAudioCard({ station, updateStation }: { station: Station; updateStation: (data: Record<string, any>) => Promise<void> }) {
+  const [files, setFiles] = useState<FallbackAudioFile[]>([]);
+  const [npText, setNpText] = useState(station.fallback_np_text);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => { setNpText(station.fallback_np_text); }, [station.id]);
+
+  const load = () => { api.getFallbackAudio(station.id).then(setFiles).catch(() => {}); };
+  useEffect(load, [station.id]);
+
+  const upload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    setUploading(true);
+    setError(null);
+    for (const file of selected) {
+      const res = await api.uploadFallbackAudio(station.id, file).catch((err: any) => ({ error: err.message }));
+      if (res?.error) setError(res.error);
+      load();
+    }
+    setUploading(false);
+  };
+
+  const remove = async (fileId: string) => {
+    await api.deleteFallbackAudio(station.id, fileId);
+    load();
+  };
+
+  return (
+    <div className="card space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Music className="w-4 h-4" /> Local Fallback Audio
+        </h3>
+        {station.runtime?.audioFallback && <span className="badge-green">On Air</span>}
+      </div>
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer pb-2">
+          <input type="checkbox" checked={!!station.fallback_audio_enabled} onChange={e => updateStation({ fallback_audio_enabled: e.target.checked ? 1 : 0 })}
+            className="w-4 h-4 rounded bg-gray-800 border-gray-600" />
+          Play when all sources are down
+        </label>
+        <div className="flex-1 min-w-[200px]">
+          <label className="text-xs text-gray-500 mb-1 block">Now playing text meanwhile</label>
+          <input className="input-field w-full" maxLength={200} placeholder={station.name} value={npText}
+            onChange={e => setNpText(e.target.value)} />
+        </div>
+        <button onClick={() => updateStation({ fallback_np_text: npText })} disabled={npText === station.fallback_np_text} className="btn-primary disabled:opacity-40">Save</button>
+        <input ref={fileInputRef} type="file" accept="audio/*" multiple className="hidden" onChange={upload} title="Upload fallback audio" />
+        <button onClick={() => fileInputRef.current?.click()} disabled={uploading} className="btn-secondary text-xs flex items-center gap-1 mb-1 disabled:opacity-50">
+          <Upload className="w-3 h-3" /> {uploading ? 'Converting...' : 'Upload Audio'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {files.length > 0 && (
+        <div className="space-y-1">
+          {files.map(f => (
+            <div key={f.id} className="flex items-center gap-3 text-xs text-gray-300 bg-gray-800/50 rounded px-3 py-1.5">
+              <span className="flex-1 truncate">{f.original_name}</span>
+              {f.duration_sec != null && <span className="text-gray-500">{formatDuration(f.duration_sec)}</span>}
+              <span className="text-gray-500">{formatBytes(f.file_size)}</span>
+              <button onClick={() => remove(f.id)} title="Delete fallback audio" className="p-1 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-[10px] text-gray-600">
+        Looped in order when no audio source is reachable; the station switches back as soon as a source recovers.
+        Uploads are converted to AAC on the server. The overlay shows the text above (the station name when empty) while it plays.
+      </p>
+    </div>
+  );
+}
+
+function SilenceDetectionCard({ station, updateStation }: { station: Station; updateStation: (data: Record<string, any>) => Promise<void> }) {
+  const initial = () => ({
+    silence_detect_enabled: station.silence_detect_enabled,
+    silence_threshold_db: station.silence_threshold_db,
+    silence_duration_sec: station.silence_duration_sec,
+    silence_failover: station.silence_failover,
+  });
+  const [form, setForm] = useState(initial);
+  useEffect(() => { setForm(initial()); }, [station.id]);
+  const dirty = (Object.keys(form) as (keyof typeof form)[]).some(k => form[k] !== station[k]);
+  const silentSince = station.runtime?.silentSince;
+
+  return (
+    <div className="card space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <VolumeX className="w-4 h-4" /> Silence Detection
+        </h3>
+        {silentSince && (
+          <span className="badge-red">Dead air since {new Date(silentSince).toLocaleTimeString()}</span>
+        )}
+      </div>
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer pb-2">
+          <input type="checkbox" checked={!!form.silence_detect_enabled} onChange={e => setForm({ ...form, silence_detect_enabled: e.target.checked ? 1 : 0 })}
+            className="w-4 h-4 rounded bg-gray-800 border-gray-600" />
+          Detect dead air
+        </label>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Threshold (dB)</label>
+          <input className="input-field w-24" type="number" min={-90} max={-10} title="Silence threshold" value={form.silence_threshold_db}
+            disabled={!form.silence_detect_enabled} onChange={e => setForm({ ...form, silence_threshold_db: Number(e.target.value) })} />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">For at least (s)</label>
+          <input className="input-field w-24" type="number" min={2} max={3600} title="Silence duration" value={form.silence_duration_sec}
+            disabled={!form.silence_detect_enabled} onChange={e => setForm({ ...form, silence_duration_sec: Number(e.target.value) })} />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer pb-2">
+          <input type="checkbox" checked={!!form.silence_failover} disabled={!form.silence_detect_enabled}
+            onChange={e => setForm({ ...form, silence_failover: e.target.checked ? 1 : 0 })}
+            className="w-4 h-4 rounded bg-gray-800 border-gray-600" />
+          Fail over to the next source
+        </label>
+        <button onClick={() => updateStation(form)} disabled={!dirty} className="btn-primary disabled:opacity-40">Save</button>
+      </div>
+      <p className="text-[10px] text-gray-600">
+        Listens to the audio the encoder actually receives — a source can stay connected and still play silence.
+        Dead air and its end are logged and sent to Telegram. A source that went silent is not switched back to for 10 minutes.
+        Applies on the next start/restart of the station.
+      </p>
+    </div>
+  );
+}
+
+function DestinationsTab({ station, destinations, statusEvents, reload }: {
+  station: Station;
+  destinations: RtmpDestination[];
+  statusEvents: SSEEvent[];
+  reload: () => void;
+}) {
+  // Latest live status per destination (SSE is newest-first); falls back to the DB row between polls
+  const liveStatus: Record<string, SSEEvent> = {};
+  for (const e of statusEvents) {
+    if (e.destinationId && !liveStatus[e.destinationId]) liveStatus[e.destinationId] = e;
+  }
   const [name, setName] = useState('');
   const [platform, setPlatform] = useState('youtube');
+  const [protocol, setProtocol] = useState<OutputProtocol>('rtmp');
   const [rtmpUrl, setRtmpUrl] = useState('');
   const [streamKey, setStreamKey] = useState('');
+  const [srtLatency, setSrtLatency] = useState(120);
+  const [srtPassphrase, setSrtPassphrase] = useState('');
+  const [addError, setAddError] = useState('');
+  const [profileOpen, setProfileOpen] = useState<string | null>(null);
+  const stationId = station.id;
+  const encodes = station.runtime?.encodes || [];
 
   const add = async () => {
     if (!name || !rtmpUrl) return;
-    await api.addDestination(stationId, { name, platform, rtmp_url: rtmpUrl, stream_key: streamKey });
-    setName(''); setRtmpUrl(''); setStreamKey('');
+    const result = await api.addDestination(stationId, {
+      name, platform, protocol, rtmp_url: rtmpUrl, stream_key: streamKey,
+      srt_latency_ms: srtLatency, srt_passphrase: srtPassphrase,
+    });
+    if (result.error) {
+      setAddError(result.error);
+      return;
+    }
+    setName(''); setRtmpUrl(''); setStreamKey(''); setSrtPassphrase(''); setAddError('');
     reload();
   };
 
-  const platformPresets: Record<string, string> = {
-    youtube: 'rtmp://a.rtmp.youtube.com/live2',
-    facebook: 'rtmps://live-api-s.facebook.com:443/rtmp/',
-    restream: 'rtmp://live.restream.io/live',
-    custom: '',
+  const platformPresets: Record<string, { protocol: OutputProtocol; url: string }> = {
+    youtube: { protocol: 'rtmp', url: 'rtmp://a.rtmp.youtube.com/live2' },
+    facebook: { protocol: 'rtmps', url: 'rtmps://live-api-s.facebook.com:443/rtmp/' },
+    restream: { protocol: 'rtmp', url: 'rtmp://live.restream.io/live' },
+    custom: { protocol: 'rtmp', url: '' },
+    srt: { protocol: 'srt', url: '' },
+  };
+  const selectPlatform = (value: string) => {
+    setPlatform(value);
+    setProtocol(platformPresets[value]?.protocol || 'rtmp');
+    setRtmpUrl(platformPresets[value]?.url || '');
   };
+  const urlPlaceholder = protocol === 'srt' ? 'srt://host:port' : protocol === 'rtmps' ? 'rtmps://host/app' : 'rtmp://host/app';
 
   return (
     <div className="space-y-4">
       <div className="card space-y-3">
-        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Add RTMP Destination</h3>
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Add Destination</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
           <input className="input-field" placeholder="Destination Name" value={name} onChange={e => setName(e.target.value)} />
-          <select className="select-field" title="Platform" value={platform} onChange={e => { setPlatform(e.target.value); setRtmpUrl(platformPresets[e.target.value] || ''); }}>
-            <option value="youtube">YouTube</option>
-            <option value="facebook">Facebook</option>
-            <option value="restream">Restream</option>
-            <option value="custom">Custom RTMP</option>
-          </select>
-          <input className="input-field" placeholder="RTMP URL" value={rtmpUrl} onChange={e => setRtmpUrl(e.target.value)} />
           <div className="flex gap-2">
-            <input className="input-field" placeholder="Stream Key" value={streamKey} onChange={e => setStreamKey(e.target.value)} type="password" />
+            <select className="select-field" title="Platform" value={platform} onChange={e => selectPlatform(e.target.value)}>
+              <option value="youtube">YouTube</option>
+              <option value="facebook">Facebook</option>
+              <option value="restream">Restream</option>
+              <option value="custom">Custom RTMP</option>
+              <option value="srt">Custom SRT</option>
+            </select>
+            <select className="select-field w-32" title="Protocol" value={protocol} onChange={e => setProtocol(e.target.value as OutputProtocol)}>
+              <option value="rtmp">RTMP</option>
+              <option value="rtmps">RTMPS</option>
+              <option value="srt">SRT</option>
+            </select>
+          </div>
+          <input className="input-field" placeholder={urlPlaceholder} value={rtmpUrl} onChange={e => setRtmpUrl(e.target.value)} />
+          <div className="flex gap-2">
+            <input className="input-field" placeholder={protocol === 'srt' ? 'Stream ID (optional)' : 'Stream Key'} value={streamKey} onChange={e => setStreamKey(e.target.value)} type="password" />
             <button onClick={add} className="btn-primary whitespace-nowrap" disabled={!name || !rtmpUrl}>Add</button>
           </div>
+          {protocol === 'srt' && (
+            <>
+              <div>
+                <label className="text-xs text-gray-500 mb-1 block">SRT Latency (ms)</label>
+                <input className="input-field" type="number" min={20} max={8000} title="SRT Latency" value={srtLatency} onChange={e => setSrtLatency(Number(e.target.value))} />
+              </div>
+              <div>
+                <label className="text-xs text-gray-500 mb-1 block">Passphrase (optional, 10-79 chars)</label>
+                <input className="input-field" type="password" title="SRT Passphrase" value={srtPassphrase} onChange={e => setSrtPassphrase(e.target.value)} />
+              </div>
+            </>
+          )}
         </div>
+        {addError && <p className="text-xs text-red-400">✗ {addError}</p>}
       </div>
 
-      {destinations.map(dest => (
-        <div key={dest.id} className={`card flex items-center gap-4 ${!dest.is_enabled ? 'opacity-50' : ''}`}>
-          <Globe className={`w-5 h-5 ${dest.status === 'connected' ? 'text-emerald-400' : dest.status === 'error' ? 'text-red-400' : 'text-gray-500'}`} />
-          <div className="flex-1">
+      {destinations.map(dest => {
+        const live = liveStatus[dest.id];
+        const status = live?.status || dest.status;
+        const error = live ? live.error : dest.error_message;
+        return (
+        <div key={dest.id} className="space-y-2">
+        <div className={`card flex items-center gap-4 ${!dest.is_enabled ? 'opacity-50' : ''}`}>
+          <Globe className={`w-5 h-5 ${status === 'connected' ? 'text-emerald-400' : status === 'failed' ? 'text-red-400' : status === 'reconnecting' || status === 'connecting' ? 'text-amber-400' : 'text-gray-500'}`} />
+          <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2">
               <p className="text-sm font-medium text-white">{dest.name}</p>
               <span className="badge-blue">{dest.platform}</span>
+              <span className="badge-gray uppercase">{dest.protocol}</span>
             </div>
             <p className="text-xs text-gray-500 font-mono truncate">{dest.rtmp_url}</p>
+            <ProfileSummary dest={dest} station={station} encode={encodes.find(e => e.destinationIds.includes(dest.id))} />
+            {error && status !== 'connected' && (
+              <p className="text-xs text-red-400/80 font-mono truncate mt-0.5" title={error}>{error}</p>
+            )}
           </div>
-          <span className={statusColor(dest.status)}>{dest.status}</span>
+          <span className={statusColor(status)}>{status}</span>
+          <button onClick={() => setProfileOpen(profileOpen === dest.id ? null : dest.id)}
+            title="Encoding profile" className="p-1.5 rounded hover:bg-gray-800 text-gray-500"><Settings className="w-4 h-4" /></button>
           <button onClick={async () => { await api.updateDestination(stationId, dest.id, { is_enabled: dest.is_enabled ? 0 : 1 }); reload(); }}
             title="Toggle destination" className="p-1.5 rounded hover:bg-gray-800 text-gray-500">{dest.is_enabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}</button>
           <button onClick={async () => { await api.deleteDestination(stationId, dest.id); reload(); }}
             title="Delete destination" className="p-1.5 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
         </div>
-      ))}
+        {profileOpen === dest.id && (
+          <DestinationProfileEditor dest={dest} station={station} onSaved={() => { setProfileOpen(null); reload(); }} />
+        )}
+        </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Effective encoding of a destination: the program itself, or the (shared) profile encode. */
+function ProfileSummary({ dest, station, encode }: { dest: RtmpDestination; station: Station; encode?: ProfileEncode }) {
+  const hasOverrides = PROFILE_FIELDS.some(k => dest[k] !== null && dest[k] !== undefined);
+  if (encode) {
+    const shared = encode.destinationIds.length - 1;
+    return (
+      <p className="text-xs text-purple-400/80 mt-0.5">
+        Own encode: {encode.label}{shared > 0 ? ` · shared with ${shared} other destination(s)` : ''}
+      </p>
+    );
+  }
+  return (
+    <p className="text-xs text-gray-600 mt-0.5">
+      {hasOverrides ? 'Custom profile (applies on next start)' : `Program: ${station.video_width}x${station.video_height} ${station.video_fps}fps ${station.video_bitrate}`}
+    </p>
+  );
+}
+
+const PROFILE_FIELDS = [
+  'profile_width', 'profile_height', 'profile_fps', 'profile_bitrate',
+  'profile_keyint_sec', 'profile_preset', 'profile_audio_bitrate', 'profile_fit',
+] as const;
+
+const PROFILE_PRESETS: { label: string; values: Partial<Record<typeof PROFILE_FIELDS[number], any>> }[] = [
+  { label: 'Same as station', values: {} },
+  { label: '720p 2500k', values: { profile_width: 1280, profile_height: 720, profile_bitrate: '2500k' } },
+  { label: '1080p 6000k', values: { profile_width: 1920, profile_height: 1080, profile_bitrate: '6000k' } },
+  { label: 'Vertical 9:16', values: { profile_width: 1080, profile_height: 1920, profile_bitrate: '4000k', profile_fit: 'crop' } },
+];
+
+function DestinationProfileEditor({ dest, station, onSaved }: { dest: RtmpDestination; station: Station; onSaved: () => void }) {
+  const initial = Object.fromEntries(PROFILE_FIELDS.map(k => [k, dest[k] ?? ''])) as Record<typeof PROFILE_FIELDS[number], any>;
+  const [values, setValues] = useState(initial);
+  const [error, setError] = useState('');
+  const set = (key: typeof PROFILE_FIELDS[number], value: any) => setValues(v => ({ ...v, [key]: value }));
+
+  const applyPreset = (preset: typeof PROFILE_PRESETS[number]) => {
+    setValues({ ...Object.fromEntries(PROFILE_FIELDS.map(k => [k, ''])), ...preset.values } as typeof initial);
+  };
+
+  const save = async () => {
+    const payload: Record<string, any> = {};
+    for (const key of PROFILE_FIELDS) {
+      const v = values[key];
+      payload[key] = v === '' ? '' : ['profile_width', 'profile_height', 'profile_fps', 'profile_keyint_sec'].includes(key) ? Number(v) : v;
+    }
+    const result = await api.updateDestination(station.id, dest.id, payload);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    onSaved();
+  };
+
+  return (
+    <div className="card ml-9 space-y-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mr-2">Encoding Profile</h4>
+        {PROFILE_PRESETS.map(p => (
+          <button key={p.label} onClick={() => applyPreset(p)} className="px-2 py-1 rounded text-xs bg-gray-800 text-gray-400 hover:bg-gray-700">{p.label}</button>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-600">Empty fields use the station setting. Destinations with identical profiles share one encode; a profile equal to the station's uses the program directly.</p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Resolution</label>
+          <div className="flex gap-1">
+            <input className="input-field" type="number" title="Width" placeholder={String(station.video_width)} value={values.profile_width} onChange={e => set('profile_width', e.target.value)} />
+            <span className="text-gray-500 self-center">×</span>
+            <input className="input-field" type="number" title="Height" placeholder={String(station.video_height)} value={values.profile_height} onChange={e => set('profile_height', e.target.value)} />
+          </div>
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Video Bitrate</label>
+          <input className="input-field" title="Video bitrate" placeholder={station.video_bitrate} value={values.profile_bitrate} onChange={e => set('profile_bitrate', e.target.value)} />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">FPS</label>
+          <input className="input-field" type="number" title="FPS" placeholder={String(station.video_fps)} value={values.profile_fps} onChange={e => set('profile_fps', e.target.value)} />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Keyframe Interval (sec)</label>
+          <input className="input-field" type="number" title="Keyframe interval" placeholder="2" value={values.profile_keyint_sec} onChange={e => set('profile_keyint_sec', e.target.value)} />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">x264 Preset</label>
+          <select className="select-field" title="x264 preset" value={values.profile_preset} onChange={e => set('profile_preset', e.target.value)}>
+            <option value="">veryfast (station)</option>
+            {['ultrafast', 'superfast', 'faster', 'fast', 'medium', 'slow'].map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Audio Bitrate</label>
+          <input className="input-field" title="Audio bitrate" placeholder={station.audio_bitrate} value={values.profile_audio_bitrate} onChange={e => set('profile_audio_bitrate', e.target.value)} />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Other Aspect Ratio</label>
+          <select className="select-field" title="Fit" value={values.profile_fit} onChange={e => set('profile_fit', e.target.value)}>
+            <option value="">Crop to fill</option>
+            <option value="pad">Letterbox (pad)</option>
+          </select>
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-400">✗ {error}</p>}
+      <div className="flex items-center gap-3">
+        <button onClick={save} className="btn-primary text-sm">Save Profile</button>
+        <span className="text-[10px] text-gray-600">Applies on the next start/restart of the station</span>
+      </div>
     </div>
   );
 }
@@ -920,6 +2089,110 @@ function OverlayTab({ station, updateStation }: { station: Station; updateStatio
   );
 }
 
+function ArchiveTab({ station, updateStation }: { station: Station; updateStation: (data: Record<string, any>) => Promise<void> }) {
+  const [enabled, setEnabled] = useState(!!station.archive_enabled);
+  const [format, setFormat] = useState(station.archive_format);
+  const [segmentMin, setSegmentMin] = useState(station.archive_segment_min);
+  const [retentionDays, setRetentionDays] = useState(station.archive_retention_days);
+  const [maxGb, setMaxGb] = useState(station.archive_max_gb);
+  const [files, setFiles] = useState<ArchiveFile[]>([]);
+  const [totalSize, setTotalSize] = useState(0);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const loadFiles = () => {
+    api.getArchive(station.id).then(data => {
+      setFiles(data.files || []);
+      setTotalSize(data.totalSize || 0);
+    }).catch(() => {});
+  };
+  useEffect(() => { loadFiles(); }, [station.id]);
+  useInterval(loadFiles, 15000);
+
+  const save = () => updateStation({
+    archive_enabled: enabled ? 1 : 0, archive_format: format, archive_segment_min: segmentMin,
+    archive_retention_days: retentionDays, archive_max_gb: maxGb,
+  }).then(loadFiles);
+
+  const download = async (file: string) => {
+    setDownloading(file);
+    try { await api.downloadArchiveFile(station.id, file); } catch {} finally { setDownloading(null); }
+  };
+
+  const remove = async (file: string) => {
+    if (!confirm(`Delete archive segment ${file}?`)) return;
+    await api.deleteArchiveFile(station.id, file);
+    loadFiles();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="card space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Program Archive</h3>
+          {station.runtime?.recording && <span className="badge-red">● Recording</span>}
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} className="rounded" />
+          <span className="text-sm text-gray-300">Record the outgoing program while the station is on air</span>
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Format</label>
+            <select className="select-field" title="Archive format" value={format} onChange={e => setFormat(e.target.value as 'ts' | 'mp4')}>
+              <option value="ts">MPEG-TS (.ts)</option>
+              <option value="mp4">MP4 (fragmented)</option>
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Segment Length (min)</label>
+            <input className="input-field" type="number" min={1} title="Segment length" value={segmentMin} onChange={e => setSegmentMin(Number(e.target.value))} />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Keep for (days, 0 = forever)</label>
+            <input className="input-field" type="number" min={0} title="Retention days" value={retentionDays} onChange={e => setRetentionDays(Number(e.target.value))} />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Max Size (GB, 0 = no limit)</label>
+            <input className="input-field" type="number" min={0} step={0.5} title="Max archive size" value={maxGb} onChange={e => setMaxGb(Number(e.target.value))} />
+          </div>
+        </div>
+        <p className="text-[10px] text-gray-600">Segments start on the clock (e.g. every full hour). Oldest segments are deleted first when a limit is reached.</p>
+        <button onClick={save} className="btn-primary">Save Archive Settings</button>
+      </div>
+
+      <div className="card space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Recordings ({files.length})</h3>
+          <span className="text-xs text-gray-500">{formatFileSize(totalSize)} total</span>
+        </div>
+        {files.length === 0 && <p className="text-sm text-gray-500">No recordings yet.</p>}
+        <div className="space-y-1 max-h-96 overflow-y-auto">
+          {files.map(f => (
+            <div key={f.name} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-gray-800/40">
+              <Archive className="w-4 h-4 text-gray-500" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-200 font-mono truncate">{f.name}</p>
+                <p className="text-xs text-gray-500">
+                  {new Date(f.startedAt).toLocaleString()} → {new Date(f.modifiedAt).toLocaleTimeString()} · {formatFileSize(f.size)}
+                </p>
+              </div>
+              {f.recording && <span className="badge-red">Recording</span>}
+              <button onClick={() => download(f.name)} disabled={f.recording || downloading === f.name}
+                title="Download" className="p-1.5 rounded hover:bg-gray-700 text-gray-400 disabled:opacity-40">
+                <Download className="w-4 h-4" />
+              </button>
+              <button onClick={() => remove(f.name)} disabled={f.recording}
+                title="Delete" className="p-1.5 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400 disabled:opacity-40">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function DiagnosticsTab({ station, sources, destinations }: { station: Station; sources: AudioSource[]; destinations: RtmpDestination[] }) {
   const [audioResult, setAudioResult] = useState<any>(null);
   const [npResult, setNpResult] = useState<any>(null);
@@ -947,7 +2220,10 @@ function DiagnosticsTab({ station, sources, destinations }: { station: Station;
 
   const testRtmp = async (dest: RtmpDestination) => {
     setTesting('rtmp');
-    const result = await api.testRtmp({ rtmp_url: dest.rtmp_url, stream_key: dest.stream_key });
+    const result = await api.testRtmp({
+      protocol: dest.protocol, rtmp_url: dest.rtmp_url, stream_key: dest.stream_key,
+      srt_latency_ms: dest.srt_latency_ms, srt_passphrase: dest.srt_passphrase,
+    });
     setRtmpResult(result);
     setTesting('');
   };
@@ -996,14 +2272,14 @@ function DiagnosticsTab({ station, sources, destinations }: { station: Station;
         )}
       </div>
 
-      {/* Test RTMP */}
+      {/* Test destinations */}
       <div className="card space-y-3">
         <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
-          <Send className="w-4 h-4" /> Test RTMP (10 sec)
+          <Send className="w-4 h-4" /> Test Destination (10 sec)
         </h3>
         {destinations.map(dest => (
           <div key={dest.id} className="flex items-center gap-3">
-            <span className="text-sm text-gray-300 flex-1">{dest.name} ({dest.platform})</span>
+            <span className="text-sm text-gray-300 flex-1">{dest.name} ({dest.platform}, {dest.protocol.toUpperCase()})</span>
             <button onClick={() => testRtmp(dest)} className="btn-secondary text-xs" disabled={testing === 'rtmp'}>
               <TestTube className="w-3 h-3 inline mr-1" /> {testing === 'rtmp' ? 'Testing...' : 'Test 10s'}
             </button>
@@ -1011,10 +2287,308 @@ function DiagnosticsTab({ station, sources, destinations }: { station: Station;
         ))}
         {rtmpResult && (
           <div className={`p-3 rounded-lg text-sm font-mono ${rtmpResult.success ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'}`}>
-            {rtmpResult.success ? '✓ RTMP test stream sent successfully' : `✗ Failed: ${rtmpResult.error?.slice(0, 300)}`}
+            {rtmpResult.success ? '✓ Test stream sent successfully' : `✗ Failed: ${rtmpResult.error?.slice(0, 300)}`}
           </div>
         )}
       </div>
+
+      <CommandInspector stationId={station.id} />
+    </div>
+  );
+}
+
+// Shell-style quoting, for display only
+const shellArg = (arg: string) => /^[\w@%+=:,./*-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+const shellCommand = (args: string[]) => ['ffmpeg', ...args.map(shellArg)].join(' ');
+
+/** Generated FFmpeg commands and overlay chain, and what changed since the running pipeline was launched. */
+function CommandInspector({ stationId }: { stationId: string }) {
+  const [inspection, setInspection] = useState<CommandInspection | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState<string | null>(null);
+
+  const load = () => {
+    setLoading(true);
+    api.getStationCommand(stationId).then((data: any) => {
+      if (!data.error) setInspection(data);
+    }).catch(() => {}).finally(() => setLoading(false));
+  };
+
+  useEffect(load, [stationId]);
+
+  return (
+    <div className="card space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Terminal className="w-4 h-4" /> FFmpeg Command
+        </h3>
+        <button onClick={load} className="btn-secondary text-xs flex items-center gap-1" disabled={loading}>
+          <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </button>
+      </div>
+
+      {inspection && (
+        <>
+          {!inspection.running ? (
+            <p className="text-xs text-gray-500">Station is not running — these are the commands a start would launch with the saved settings.</p>
+          ) : inspection.restartNeeded ? (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="badge-yellow">Restart needed</span>
+              <span className="text-gray-400">The saved settings differ from the running pipeline — see the changes below.</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="badge-green">Up to date</span>
+              <span className="text-gray-400">The running pipeline uses the saved settings.</span>
+            </div>
+          )}
+
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Overlay drawtext chain</p>
+            {inspection.drawtext.length > 0 ? (
+              <pre className="text-xs text-gray-300 bg-gray-900 rounded-lg p-3 overflow-auto whitespace-pre-wrap break-all">{inspection.drawtext.join(',\n')}</pre>
+            ) : (
+              <p className="text-xs text-gray-600">No drawtext filters (overlay disabled, or FFmpeg has no drawtext)</p>
+            )}
+          </div>
+
+          {inspection.sections.map(section => {
+            const args = section.generated || section.running || [];
+            const isOpen = open === section.name;
+            return (
+              <div key={section.name} className="border border-gray-800 rounded-lg">
+                <button onClick={() => setOpen(isOpen ? null : section.name)} className="w-full flex items-center gap-2 px-3 py-2 text-left">
+                  {isOpen ? <ChevronUp className="w-4 h-4 text-gray-500" /> : <ChevronDown className="w-4 h-4 text-gray-500" />}
+                  <span className="text-sm text-gray-300 font-mono flex-1">{section.name}</span>
+                  {inspection.running && section.changed && (
+                    <span className="badge-yellow">{!section.running ? 'Added' : !section.generated ? 'Removed' : 'Changed'}</span>
+                  )}
+                </button>
+                {isOpen && (
+                  <div className="px-3 pb-3 space-y-2">
+                    {section.name === 'feeder' && (
+                      <p className="text-[10px] text-gray-600">Decoder of an item without a ready rendition; items with a rendition are stream-copied.</p>
+                    )}
+                    <pre className="text-xs text-gray-300 bg-gray-900 rounded-lg p-3 overflow-auto whitespace-pre-wrap break-all">{shellCommand(args)}</pre>
+                    {inspection.running && section.changed && section.diff.length > 0 && (
+                      <div>
+                        <p className="text-xs text-gray-500 mb-1">Running → saved settings</p>
+                        <pre className="text-xs bg-gray-900 rounded-lg p-3 overflow-auto">
+                          {section.diff.map((line, i) => (
+                            <div key={i} className={line.type === 'added' ? 'text-emerald-400' : line.type === 'removed' ? 'text-red-400' : 'text-gray-600'}>
+                              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                            </div>
+                          ))}
+                        </pre>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {inspection.onAirFeeder && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Feeder on air now</p>
+              <pre className="text-xs text-gray-300 bg-gray-900 rounded-lg p-3 overflow-auto whitespace-pre-wrap break-all">{shellCommand(inspection.onAirFeeder)}</pre>
+            </div>
+          )}
+          <p className="text-[10px] text-gray-600">Stream keys, passphrases and tokens are masked.</p>
+        </>
+      )}
+    </div>
+  );
+}
+
+const CALENDAR_DAYS = 7;
+const CALENDAR_HOUR_PX = 8;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+}
+
+/** On-air blocks (minutes from local midnight today) implied by the upcoming start/stop sequence. */
+function onAirBlocks(schedule: RunSchedule): [number, number][] {
+  const dates = Array.from({ length: CALENDAR_DAYS }, (_, i) => addDays(schedule.clock.date, i));
+  const minuteOf = (u: UpcomingAction) => {
+    const [h, m] = u.localTime.split(':').map(Number);
+    return dates.indexOf(u.localDate) * 1440 + h * 60 + m;
+  };
+  const upcoming = schedule.upcoming.filter(u => dates.includes(u.localDate));
+  const blocks: [number, number][] = [];
+  // If the next action is a stop, the schedule has the station on air right now
+  let since: number | null = upcoming[0]?.action === 'stop' ? schedule.clock.minutes : null;
+  for (const u of upcoming) {
+    if (u.action === 'start' && since === null) since = minuteOf(u);
+    if (u.action === 'stop' && since !== null) {
+      blocks.push([since, minuteOf(u)]);
+      since = null;
+    }
+  }
+  if (since !== null) blocks.push([since, CALENDAR_DAYS * 1440]);
+  return blocks;
+}
+
+function RunScheduleCard({ station, updateStation }: { station: Station; updateStation: (data: Record<string, any>) => Promise<void> }) {
+  const [schedule, setSchedule] = useState<RunSchedule | null>(null);
+  const [rule, setRule] = useState({ kind: 'window' as RunScheduleRule['kind'], days: [1, 2, 3, 4, 5], start_time: '07:00', end_time: '23:00', cron: '0 6 * * *', action: 'start' as RunAction, label: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchedule = () => {
+    api.getRunSchedule(station.id, 200).then(data => { if (!data.error) setSchedule(data); }).catch(() => {});
+  };
+  useEffect(() => { loadSchedule(); }, [station.id, station.timezone]);
+  useInterval(loadSchedule, 30000);
+
+  const run = async (action: Promise<any>) => {
+    const res = await action;
+    setError(res?.error || null);
+    if (!res?.error) loadSchedule();
+    return !res?.error;
+  };
+
+  const toggleEnabled = async (enabled: boolean) => {
+    await updateStation({ run_schedule_enabled: enabled ? 1 : 0 });
+    loadSchedule();
+  };
+
+  const toggleDay = (day: number) => setRule(r => ({
+    ...r, days: r.days.includes(day) ? r.days.filter(d => d !== day) : [...r.days, day],
+  }));
+
+  const addRule = async () => {
+    const data = rule.kind === 'window'
+      ? { kind: 'window', days: rule.days, start_time: rule.start_time, end_time: rule.end_time, label: rule.label }
+      : { kind: 'cron', cron: rule.cron, action: rule.action, label: rule.label };
+    if (await run(api.addRunScheduleRule(station.id, data))) setRule(r => ({ ...r, label: '' }));
+  };
+
+  const describe = (r: RunScheduleRule) => r.kind === 'window'
+    ? `${WEEKDAY_ORDER.filter(d => r.days.split(',').includes(String(d))).map(d => WEEKDAY_LABELS[d]).join(' ')} ${r.start_time}–${r.end_time}`
+    : `${r.action} @ ${r.cron}`;
+
+  const blocks = schedule ? onAirBlocks(schedule) : [];
+  const dates = schedule ? Array.from({ length: CALENDAR_DAYS }, (_, i) => addDays(schedule.clock.date, i)) : [];
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <CalendarClock className="w-4 h-4" /> Scheduled Start/Stop
+        </h3>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={!!station.run_schedule_enabled} onChange={e => toggleEnabled(e.target.checked)} className="rounded" />
+          <span className="text-sm text-gray-300">{station.run_schedule_enabled ? 'Enabled' : 'Disabled'}</span>
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Starts and stops the station at these times ({station.timezone}). A window starts the station at its start time and stops it at its end time;
+        a cron rule fires one action. In between you can still start or stop the station by hand. Every scheduled action is logged and sent to Telegram.
+      </p>
+
+      <div className="space-y-1">
+        {schedule?.rules.length === 0 && <p className="text-sm text-gray-500">No rules yet.</p>}
+        {schedule?.rules.map(r => (
+          <div key={r.id} className={`flex items-center gap-3 px-3 py-2 rounded-lg bg-gray-800/40 text-sm ${r.is_enabled ? '' : 'opacity-50'}`}>
+            <span className={r.kind === 'window' ? 'badge-blue' : 'badge-gray'}>{r.kind}</span>
+            <span className="font-mono text-gray-200">{describe(r)}</span>
+            <span className="flex-1 text-gray-400 truncate">{r.label}</span>
+            {r.last_run_at && (
+              <span className={`text-xs ${r.last_result === 'ok' ? 'text-gray-500' : 'text-red-400'}`} title={r.last_result || ''}>
+                {r.last_result === 'ok' ? 'ran' : 'failed'} {new Date(r.last_run_at).toLocaleString()}
+              </span>
+            )}
+            <input type="checkbox" checked={!!r.is_enabled} title="Rule enabled" className="rounded"
+              onChange={e => run(api.updateRunScheduleRule(station.id, r.id, { is_enabled: e.target.checked }))} />
+            <button onClick={() => run(api.deleteRunScheduleRule(station.id, r.id))} title="Delete rule"
+              className="p-1 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 pt-2 border-t border-gray-800">
+        <select className="select-field w-auto" title="Rule type" value={rule.kind} onChange={e => setRule({ ...rule, kind: e.target.value as RunScheduleRule['kind'] })}>
+          <option value="window">Weekly window</option>
+          <option value="cron">Cron</option>
+        </select>
+        {rule.kind === 'window' ? (
+          <>
+            <div className="flex gap-1">
+              {WEEKDAY_ORDER.map(d => (
+                <button key={d} onClick={() => toggleDay(d)}
+                  className={`px-2 py-1 rounded text-xs ${rule.days.includes(d) ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400'}`}>
+                  {WEEKDAY_LABELS[d]}
+                </button>
+              ))}
+            </div>
+            <input className="input-field w-28" type="time" title="Start" value={rule.start_time} onChange={e => setRule({ ...rule, start_time: e.target.value })} />
+            <input className="input-field w-28" type="time" title="Stop" value={rule.end_time} onChange={e => setRule({ ...rule, end_time: e.target.value })} />
+          </>
+        ) : (
+          <>
+            <input className="input-field w-40 font-mono" title="Cron expression" placeholder="0 6 * * 1-5" value={rule.cron} onChange={e => setRule({ ...rule, cron: e.target.value })} />
+            <select className="select-field w-auto" title="Action" value={rule.action} onChange={e => setRule({ ...rule, action: e.target.value as RunAction })}>
+              <option value="start">Start</option>
+              <option value="stop">Stop</option>
+            </select>
+          </>
+        )}
+        <input className="input-field flex-1 min-w-32" placeholder="Label (optional)" value={rule.label} onChange={e => setRule({ ...rule, label: e.target.value })} />
+        <button onClick={addRule} className="btn-primary flex items-center gap-1"><Plus className="w-4 h-4" /> Add Rule</button>
+      </div>
+      <p className="text-[10px] text-gray-600">
+        A window ending at or before its start stops the next day. Cron uses 5 fields: minute hour day-of-month month day-of-week (0 = Sunday).
+        When a start and a stop fall on the same minute, the station keeps running.
+      </p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {schedule && schedule.rules.length > 0 && (
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+            Next 7 days {!schedule.enabled && <span className="normal-case font-normal text-amber-400">(preview — schedule disabled)</span>}
+          </h4>
+          <div className="flex gap-1">
+            <div className="relative w-8 shrink-0 mt-5" style={{ height: 24 * CALENDAR_HOUR_PX }}>
+              {[0, 6, 12, 18].map(h => (
+                <span key={h} className="absolute right-1 text-[9px] text-gray-600 -translate-y-1/2" style={{ top: h * CALENDAR_HOUR_PX }}>{String(h).padStart(2, '0')}</span>
+              ))}
+            </div>
+            {dates.map((date, day) => (
+              <div key={date} className="flex-1 min-w-0">
+                <div className={`text-[10px] text-center mb-1 h-4 ${day === 0 ? 'text-white' : 'text-gray-500'}`}>
+                  {WEEKDAY_LABELS[(schedule.clock.weekday + day) % 7]} {date.slice(5)}
+                </div>
+                <div className="relative bg-gray-800/40 rounded overflow-hidden" style={{ height: 24 * CALENDAR_HOUR_PX }}>
+                  {day === 0 && <div className="absolute inset-x-0 top-0 bg-gray-900/70" style={{ height: schedule.clock.minutes / 60 * CALENDAR_HOUR_PX }} />}
+                  {blocks.map(([from, to], i) => {
+                    const start = Math.max(from, day * 1440) - day * 1440;
+                    const end = Math.min(to, (day + 1) * 1440) - day * 1440;
+                    if (end <= start) return null;
+                    return <div key={i} className="absolute inset-x-0.5 bg-green-600/40 rounded-sm"
+                      style={{ top: start / 60 * CALENDAR_HOUR_PX, height: (end - start) / 60 * CALENDAR_HOUR_PX }} />;
+                  })}
+                  {schedule.upcoming.filter(u => u.localDate === date).map(u => {
+                    const [h, m] = u.localTime.split(':').map(Number);
+                    return <div key={u.at} title={`${u.localTime} ${u.action} — ${u.label}`}
+                      className={`absolute inset-x-0 h-0.5 ${u.action === 'start' ? 'bg-green-400' : 'bg-red-400'}`}
+                      style={{ top: (h * 60 + m) / 60 * CALENDAR_HOUR_PX }} />;
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 space-y-1 max-h-40 overflow-y-auto">
+            {schedule.upcoming.slice(0, 10).map(u => (
+              <div key={u.at} className="flex items-center gap-3 text-xs">
+                <span className="font-mono text-gray-400 w-36">{WEEKDAY_LABELS[u.weekday]} {u.localDate} {u.localTime}</span>
+                <span className={u.action === 'start' ? 'badge-green' : 'badge-red'}>{u.action}</span>
+                <span className="text-gray-500 truncate">{u.label}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1025,9 +2599,24 @@ function SettingsTab({ station, updateStation }: { station: Station; updateStati
   const [vBitrate, setVBitrate] = useState(station.video_bitrate);
   const [fps, setFps] = useState(station.video_fps);
   const [aBitrate, setABitrate] = useState(station.audio_bitrate);
+  const [hlsEnabled, setHlsEnabled] = useState(!!station.hls_enabled);
   const [autoRestart, setAutoRestart] = useState(!!station.auto_restart);
   const [restartDelay, setRestartDelay] = useState(station.restart_delay_sec);
   const [maxAttempts, setMaxAttempts] = useState(station.max_restart_attempts);
+  const [stallTimeout, setStallTimeout] = useState(station.stall_timeout_sec);
+  const [stableSec, setStableSec] = useState(station.restart_stable_sec);
+  const [breakerFailures, setBreakerFailures] = useState(station.breaker_failures);
+  const [breakerWindow, setBreakerWindow] = useState(station.breaker_window_sec);
+  const [breakerRetry, setBreakerRetry] = useState(station.breaker_retry_sec);
+  const [loudnorm, setLoudnorm] = useState(!!station.loudnorm_enabled);
+  const [loudnessTarget, setLoudnessTarget] = useState(station.loudnorm_target_lufs);
+  const [truePeak, setTruePeak] = useState(station.loudnorm_true_peak);
+  const [priority, setPriority] = useState(station.run_priority);
+  const [cost, setCost] = useState<StationLoad | null>(null);
+
+  useEffect(() => {
+    api.getCapacity().then((report: CapacityReport) => setCost(report.stations?.find(s => s.stationId === station.id) || null)).catch(() => {});
+  }, [station.id]);
 
   // Telegram
   const [tgEnabled, setTgEnabled] = useState(!!station.telegram_enabled);
@@ -1038,9 +2627,13 @@ function SettingsTab({ station, updateStation }: { station: Station; updateStati
 
   const save = () => updateStation({
     video_width: width, video_height: height, video_bitrate: vBitrate,
-    video_fps: fps, audio_bitrate: aBitrate,
+    video_fps: fps, audio_bitrate: aBitrate, hls_enabled: hlsEnabled ? 1 : 0,
+    loudnorm_enabled: loudnorm ? 1 : 0, loudnorm_target_lufs: loudnessTarget, loudnorm_true_peak: truePeak,
+    run_priority: priority,
     auto_restart: autoRestart ? 1 : 0, restart_delay_sec: restartDelay,
-    max_restart_attempts: maxAttempts,
+    max_restart_attempts: maxAttempts, stall_timeout_sec: stallTimeout,
+    restart_stable_sec: stableSec, breaker_failures: breakerFailures,
+    breaker_window_sec: breakerWindow, breaker_retry_sec: breakerRetry,
     telegram_enabled: tgEnabled ? 1 : 0, telegram_bot_token: tgBotToken.trim(),
     telegram_chat_id: tgChatId.trim(),
   });
@@ -1090,6 +2683,34 @@ function SettingsTab({ station, updateStation }: { station: Station; updateStati
             <input className="input-field" value={aBitrate} onChange={e => setABitrate(e.target.value)} placeholder="192k" />
           </div>
         </div>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={hlsEnabled} onChange={e => setHlsEnabled(e.target.checked)} className="rounded" />
+          <span className="text-sm text-gray-300">Local HLS monitor</span>
+          <span className="text-[10px] text-gray-600">Live output with audio in the browser (stream copy, ~12s window)</span>
+        </label>
+      </div>
+
+      <div className="card space-y-4">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Audio Loudness</h3>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={loudnorm} onChange={e => setLoudnorm(e.target.checked)} className="rounded" />
+          <span className="text-sm text-gray-300">Normalize loudness</span>
+          <span className="text-[10px] text-gray-600">Evens out the source level before AAC encoding (EBU R128 loudnorm)</span>
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Target (LUFS)</label>
+            <input className="input-field" type="number" min={-70} max={-5} step={0.5} title="Loudness target" value={loudnessTarget}
+              disabled={!loudnorm} onChange={e => setLoudnessTarget(Number(e.target.value))} />
+            <p className="text-[10px] text-gray-600 mt-1">YouTube and most platforms play back at about -14; broadcast (EBU R128) is -23</p>
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">True-Peak Ceiling (dBTP)</label>
+            <input className="input-field" type="number" min={-9} max={0} step={0.5} title="True-peak ceiling" value={truePeak}
+              disabled={!loudnorm} onChange={e => setTruePeak(Number(e.target.value))} />
+          </div>
+        </div>
+        <p className="text-[10px] text-gray-600">The live meter above the tabs shows the output loudness either way. Applies on the next start/restart of the station.</p>
       </div>
 
       <div className="card space-y-4">
@@ -1104,12 +2725,60 @@ function SettingsTab({ station, updateStation }: { station: Station; updateStati
             <input className="input-field" type="number" title="Restart Delay" value={restartDelay} onChange={e => setRestartDelay(Number(e.target.value))} />
           </div>
           <div>
-            <label className="text-xs text-gray-500 mb-1 block">Max Attempts</label>
+            <label className="text-xs text-gray-500 mb-1 block">Max Consecutive Attempts</label>
             <input className="input-field" type="number" title="Max Attempts" value={maxAttempts} onChange={e => setMaxAttempts(Number(e.target.value))} />
           </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Stall Timeout (sec, 0 = off)</label>
+            <input className="input-field" type="number" min={0} title="Stall Timeout" value={stallTimeout} onChange={e => setStallTimeout(Number(e.target.value))} />
+            <p className="text-[10px] text-gray-600 mt-1">Restart the pipeline when the encoder produces no output for this long</p>
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Stable Uptime (sec)</label>
+            <input className="input-field" type="number" min={0} title="Stable Uptime" value={stableSec} onChange={e => setStableSec(Number(e.target.value))} />
+            <p className="text-[10px] text-gray-600 mt-1">A run this long resets the restart counter</p>
+          </div>
+        </div>
+        <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider pt-2">Circuit Breaker</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Open after (failures)</label>
+            <input className="input-field" type="number" min={1} title="Breaker Failures" value={breakerFailures} onChange={e => setBreakerFailures(Number(e.target.value))} />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Within window (sec)</label>
+            <input className="input-field" type="number" min={1} title="Breaker Window" value={breakerWindow} onChange={e => setBreakerWindow(Number(e.target.value))} />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Half-open retry every (sec)</label>
+            <input className="input-field" type="number" min={1} title="Breaker Retry" value={breakerRetry} onChange={e => setBreakerRetry(Number(e.target.value))} />
+          </div>
         </div>
       </div>
 
+      <div className="card space-y-4">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Host Capacity</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Priority (0 = most important)</label>
+            <input className="input-field" type="number" min={0} max={99} title="Station priority" value={priority} onChange={e => setPriority(Number(e.target.value))} />
+            <p className="text-[10px] text-gray-600 mt-1">Stations with a higher number are stopped first when the host runs out of CPU</p>
+          </div>
+          {cost && (
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">CPU cost</label>
+              <p className="text-sm text-gray-300 py-2">
+                ~{cost.estimatedPercent}% estimated{cost.measuredPercent != null && <> · {cost.measuredPercent}% measured</>}
+              </p>
+              <p className="text-[10px] text-gray-600">% of one core. The estimate is corrected by what the station actually used on its last run.</p>
+            </div>
+          )}
+        </div>
+        <p className="text-[10px] text-gray-600">The CPU budget and what happens when it is exceeded are set under Settings → Host Capacity.</p>
+      </div>
+
+      <RunScheduleCard station={station} updateStation={updateStation} />
+
       {/* ─── TELEGRAM NOTIFICATIONS ─── */}
       <div className="card space-y-4">
         <div className="flex items-center justify-between">
@@ -3,6 +3,7 @@ export interface Station {
   name: string;
   slug: string;
   status: string;
+  desired_state: 'running' | 'stopped';
   created_at: string;
   updated_at: string;
   overlay_enabled: number;
@@ -30,9 +31,47 @@ export interface Station {
   video_bitrate: string;
   video_fps: number;
   audio_bitrate: string;
+  hls_enabled: number;
+  archive_enabled: number;
+  archive_format: 'ts' | 'mp4';
+  archive_segment_min: number;
+  archive_retention_days: number;
+  archive_max_gb: number;
+  playback_mode: PlaybackMode;
+  no_repeat_window: number;
+  timezone: string;
+  video_mode: VideoMode;
+  visualizer_style: VisualizerStyle;
+  visualizer_color: string;
+  visualizer_bg_color: string;
+  visualizer_bg_image: string;
+  visualizer_placement: VisualizerPlacement;
+  visualizer_size: number;
+  slide_duration_sec: number;
+  slide_crossfade_sec: number;
+  slate_enabled: number;
+  slate_image: string;
+  slate_text: string;
+  silence_detect_enabled: number;
+  silence_threshold_db: number;
+  silence_duration_sec: number;
+  silence_failover: number;
+  loudnorm_enabled: number;
+  loudnorm_target_lufs: number;
+  loudnorm_true_peak: number;
+  fallback_audio_enabled: number;
+  fallback_np_text: string;
+  run_priority: number;
+  cpu_calibration: number | null;
+  run_schedule_enabled: number;
   auto_restart: number;
   restart_delay_sec: number;
   max_restart_attempts: number;
+  stall_timeout_sec: number;
+  restart_stable_sec: number;
+  breaker_failures: number;
+  breaker_window_sec: number;
+  breaker_retry_sec: number;
   telegram_enabled: number;
   telegram_bot_token: string;
   telegram_chat_id: string;
@@ -40,10 +79,213 @@ export interface Station {
     status: string;
     pid: number | null;
     restartCount: number;
+    restartPolicy: RestartPolicyState;
     uptime: number | null;
+    lastError: string;
+    activeSourceId: string | null;
+    audioFallback: boolean;
+    dryRun: DryRunInfo | null;
+    destinations: { destinationId: string; status: string; error: string; failures: number }[];
+    encodes: ProfileEncode[];
+    metrics: EncoderMetrics | null;
+    loudness: LoudnessReading | null;
+    resources: ResourceSample | null;
+    onAir: OnAirItem | null;
+    outputBytes: number;
+    lastOutputAt: string | null;
+    hlsActive: boolean;
+    recording: boolean;
+    activePlaylist: DaypartPlaylist | null;
+    silentSince: string | null;
   };
 }
 
+export interface DryRunInfo {
+  capture: boolean;
+  startedAt: string;
+  captures: string[];
+}
+
+export interface ProfileEncode {
+  key: string;
+  label: string;
+  destinationIds: string[];
+  pid: number | null;
+}
+
+export type PlaybackMode = 'sequential' | 'shuffle' | 'weighted';
+
+export type VideoMode = 'playlist' | 'visualizer';
+export type VisualizerStyle = 'waveform' | 'spectrum' | 'vectorscope';
+export type VisualizerPlacement = 'full' | 'center' | 'top' | 'bottom';
+
+export interface Playlist {
+  id: string;
+  station_id: string;
+  name: string;
+  item_count: number;
+  created_at: string;
+}
+
+export interface ScheduleSlot {
+  id: string;
+  station_id: string;
+  playlist_id: string | null;   // null = default playlist
+  days: string;                 // '1,2,3,4,5' (0 = Sunday)
+  start_time: string;
+  end_time: string;
+  created_at: string;
+}
+
+export interface ScheduleOverride {
+  id: string;
+  station_id: string;
+  playlist_id: string | null;
+  date: string;
+  label: string;
+  created_at: string;
+}
+
+export interface DaypartPlaylist {
+  playlistId: string | null;
+  source: 'override' | 'schedule' | 'default';
+  ruleId: string | null;
+  name: string;
+}
+
+export interface StationSchedule {
+  timezone: string;
+  clock: { date: string; weekday: number; minutes: number };
+  active: DaypartPlaylist;
+  slots: ScheduleSlot[];
+  overrides: ScheduleOverride[];
+}
+
+export type RunAction = 'start' | 'stop';
+
+export interface RunScheduleRule {
+  id: string;
+  station_id: string;
+  kind: 'window' | 'cron';
+  days: string;                 // window: '1,2,3,4,5' (0 = Sunday)
+  start_time: string;
+  end_time: string;
+  cron: string;                 // cron: 'minute hour day-of-month month day-of-week'
+  action: RunAction;
+  label: string;
+  is_enabled: number;
+  last_run_at: string | null;
+  last_result: string | null;
+  created_at: string;
+}
+
+export interface UpcomingAction {
+  at: string;
+  localDate: string;
+  localTime: string;
+  weekday: number;
+  action: RunAction;
+  ruleIds: string[];
+  label: string;
+}
+
+export interface RunSchedule {
+  enabled: boolean;
+  timezone: string;
+  clock: { date: string; weekday: number; minutes: number };
+  rules: RunScheduleRule[];
+  upcoming: UpcomingAction[];
+}
+
+export interface PlayoutHistoryEntry {
+  id: number;
+  station_id: string;
+  item_id: string;
+  item_name: string;
+  playback_mode: PlaybackMode;
+  started_at: string;
+  ended_at: string | null;
+  outcome: 'played' | 'skipped' | 'failed' | 'interrupted' | null;
+}
+
+export interface ArchiveFile {
+  name: string;
+  size: number;
+  startedAt: string;
+  modifiedAt: string;
+  recording: boolean;
+}
+
+export interface RestartPolicyState {
+  breaker: 'closed' | 'open' | 'half-open';
+  restartCount: number;
+  recentFailures: number;
+  nextAttemptAt: string | null;
+}
+
+export interface OnAirItem {
+  itemId: string;   // '' while the fallback slate is on air
+  name: string;
+  startedAt: string;
+}
+
+export interface EncoderMetrics {
+  frame: number;
+  fps: number;
+  bitrateKbps: number | null;
+  speed: number | null;
+  dropFrames: number;
+  dupFrames: number;
+  totalBytes: number;
+  outTimeSec: number;
+  updatedAt: string;
+}
+
+export interface LoudnessReading {
+  momentary: number | null;    // LUFS, last 400 ms
+  shortTerm: number | null;    // LUFS, last 3 s
+  integrated: number | null;   // LUFS since the encoder started
+  lra: number | null;          // LU
+  updatedAt: string;
+}
+
+export interface ProcessUsage {
+  pid: number;
+  role: string;                // encoder | feeder | encode:<profile> | relay:<destination>
+  cpuPercent: number;          // of one core
+  rssBytes: number;
+  threads: number;
+}
+
+export interface ResourceSample {
+  cpuPercent: number;
+  rssBytes: number;
+  threads: number;
+  processes: ProcessUsage[];
+  sampledAt: string;
+}
+
+export interface ArgDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface CommandSection {
+  name: string;
+  generated: string[] | null;
+  running: string[] | null;
+  diff: ArgDiffLine[];
+  changed: boolean;
+}
+
+export interface CommandInspection {
+  running: boolean;
+  restartNeeded: boolean;
+  drawtext: string[];
+  onAirFeeder: string[] | null;
+  sections: CommandSection[];
+}
+
 export interface AudioSource {
   id: string;
   station_id: string;
@@ -57,7 +299,7 @@ export interface AudioSource {
   created_at: string;
 }
 
-export interface PlaylistItem {
+export interface FallbackAudioFile {
   id: string;
   station_id: string;
   filename: string;
@@ -65,17 +307,51 @@ export interface PlaylistItem {
   file_size: number;
   duration_sec: number | null;
   sort_order: number;
+  created_at: string;
+}
+
+export interface PlaylistItem {
+  id: string;
+  station_id: string;
+  filename: string;
+  original_name: string;
+  file_size: number;
+  media_type: 'video' | 'image';
+  thumbnail_filename: string | null;
+  duration_sec: number | null;      // image: time on air
+  sort_order: number;
+  weight: number;
+  playlist_id: string | null;
   is_enabled: number;
+  rendition_status: 'pending' | 'processing' | 'ready' | 'failed';
+  rendition_progress: number;
+  rendition_filename: string | null;
+  rendition_profile: string | null;
+  rendition_error: string | null;
   created_at: string;
 }
 
+export type OutputProtocol = 'rtmp' | 'rtmps' | 'srt';
+
 export interface RtmpDestination {
   id: string;
   station_id: string;
   name: string;
   platform: string;
+  protocol: OutputProtocol;
   rtmp_url: string;
   stream_key: string;
+  srt_latency_ms: number;
+  srt_passphrase: string;
+  // Encoding profile overrides (null = station setting)
+  profile_width: number | null;
+  profile_height: number | null;
+  profile_fps: number | null;
+  profile_bitrate: string | null;
+  profile_keyint_sec: number | null;
+  profile_preset: string | null;
+  profile_audio_bitrate: string | null;
+  profile_fit: 'pad' | 'crop' | null;
   is_enabled: number;
   status: string;
   error_message: string | null;
@@ -100,13 +376,56 @@ export interface SystemHealth {
   hostname: string;
 }
 
+export type AdmissionMode = 'off' | 'warn' | 'refuse';
+
+export interface CapacitySettings {
+  mode: AdmissionMode;
+  budgetPercent: number;       // share of the host's cores stations may use
+  shed: boolean;
+}
+
+export interface StationLoad {
+  stationId: string;
+  name: string;
+  priority: number;
+  running: boolean;
+  estimatedPercent: number;    // % of one core
+  measuredPercent: number | null;
+  costPercent: number;
+}
+
+export interface CapacityReport {
+  settings: CapacitySettings;
+  cores: number;
+  budgetPercent: number;       // % of one core (cores × 100 × settings.budgetPercent / 100)
+  usedPercent: number;
+  stations: StationLoad[];
+}
+
 export interface SSEEvent {
-  type: 'log' | 'status' | 'nowplaying' | 'connected';
+  type: 'log' | 'status' | 'nowplaying' | 'source' | 'destination' | 'metrics' | 'playout' | 'rendition' | 'stall' | 'breaker' | 'schedule' | 'scheduled' | 'silence' | 'loudness' | 'admission' | 'connected';
   stationId?: string;
   level?: string;
   source?: string;
   message?: string;
   status?: string;
   track?: string;
+  sourceId?: string;
+  sourceName?: string;
+  previousSourceId?: string | null;
+  reason?: string;
+  destinationId?: string;
+  error?: string | null;
+  metrics?: EncoderMetrics;
+  loudness?: LoudnessReading;
+  itemId?: string;
+  name?: string;
+  startedAt?: string;
+  progress?: number;
+  stalledForSec?: number;
+  silentForSec?: number;
+  state?: 'silent' | 'recovered';
+  outputBytes?: number;
+  restartPolicy?: RestartPolicyState;
   timestamp?: string;
 }